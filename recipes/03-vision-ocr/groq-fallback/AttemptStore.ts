@@ -0,0 +1,335 @@
+/**
+ * Attempt Store
+ *
+ * History of every OCR attempt HybridOcrStrategy records: what was
+ * called, for which receipt and client, how long it took and what it cost.
+ * Queries filter by client, provider, correlationId and time range;
+ * summarizeAttempts() turns the matches into metrics, which is how
+ * getRollingMetrics() reports the last hour, day or month.
+ *
+ *   MemoryAttemptStore - ring buffer, newest N attempts (lost on restart)
+ *   JsonlAttemptStore  - one JSON line per attempt, append-only file
+ *   SqliteAttemptStore - bun:sqlite, indexed by time, client and receipt
+ *
+ * The file and SQLite stores persist attempts without `result`: it holds
+ * raw OCR text and buyer tax IDs, which do not belong in a metrics store.
+ * `needsReview` keeps the one thing metrics need from it. None of the
+ * stores expire records by themselves - call prune() from a scheduled job:
+ *
+ *   const store = new SqliteAttemptStore('ocr-attempts.sqlite');
+ *   const strategy = new HybridOcrStrategy(claude, groq, { attemptStore: store });
+ *   ...
+ *   await store.prune(Date.now() - 90 * 24 * 60 * 60 * 1000);
+ */
+
+import { Database } from 'bun:sqlite';
+import { appendFile, readFile, rename, writeFile } from 'node:fs/promises';
+import type {
+  AttemptQuery,
+  AttemptRecord,
+  AttemptSummary,
+  AttemptWindow,
+  OcrAttempt,
+  ProviderSummary,
+} from './types';
+
+/**
+ * Pluggable storage for attempt history
+ */
+export interface AttemptStore {
+  append(record: AttemptRecord): Promise<void>;
+
+  /** Matches, oldest first */
+  query(query?: AttemptQuery): Promise<AttemptRecord[]>;
+
+  /** Delete records older than `before` (epoch ms) @returns How many were deleted */
+  prune(before: number): Promise<number>;
+}
+
+/** Window lengths for getRollingMetrics (a month is 30 days) */
+export const ROLLING_WINDOWS_MS: Record<AttemptWindow, number> = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  month: 30 * 24 * 60 * 60 * 1000,
+};
+
+// ============================================================================
+// Stores
+// ============================================================================
+
+/**
+ * In-process ring buffer: keeps the newest `capacity` attempts
+ */
+export class MemoryAttemptStore implements AttemptStore {
+  private buffer: AttemptRecord[] = [];
+  private start = 0;
+
+  constructor(private capacity = 1000) {
+    if (!(capacity >= 1)) throw new Error('MemoryAttemptStore capacity must be at least 1');
+  }
+
+  async append(record: AttemptRecord): Promise<void> {
+    this.push(record);
+  }
+
+  async query(query: AttemptQuery = {}): Promise<AttemptRecord[]> {
+    return applyLimit(this.recent().filter((record) => matches(record, query)), query.limit);
+  }
+
+  async prune(before: number): Promise<number> {
+    const kept = this.recent().filter((record) => record.at >= before);
+    const deleted = this.buffer.length - kept.length;
+    this.buffer = kept;
+    this.start = 0;
+    return deleted;
+  }
+
+  /**
+   * Synchronous append (what HybridOcrStrategy.getAttempts reads)
+   */
+  push(record: AttemptRecord): void {
+    if (this.buffer.length < this.capacity) {
+      this.buffer.push(record);
+      return;
+    }
+    this.buffer[this.start] = record;
+    this.start = (this.start + 1) % this.capacity;
+  }
+
+  /**
+   * Everything held, oldest first
+   */
+  recent(): AttemptRecord[] {
+    return [...this.buffer.slice(this.start), ...this.buffer.slice(0, this.start)];
+  }
+
+  clear(): void {
+    this.buffer = [];
+    this.start = 0;
+  }
+}
+
+/**
+ * Append-only JSON Lines file
+ *
+ * Queries read the whole file: fine for an audit trail of a few months,
+ * use SqliteAttemptStore for more. A torn last line (crash mid-write) is
+ * skipped.
+ *
+ * @param path - File to append to (created on first write)
+ */
+export class JsonlAttemptStore implements AttemptStore {
+  /** Appends and rewrites run one at a time, in call order */
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(private path: string) {}
+
+  async append(record: AttemptRecord): Promise<void> {
+    await this.serialize(() => appendFile(this.path, `${JSON.stringify(toPersisted(record))}\n`));
+  }
+
+  async query(query: AttemptQuery = {}): Promise<AttemptRecord[]> {
+    await this.writes;
+    return applyLimit((await this.readAll()).filter((record) => matches(record, query)), query.limit);
+  }
+
+  async prune(before: number): Promise<number> {
+    return this.serialize(async () => {
+      const records = await this.readAll();
+      const kept = records.filter((record) => record.at >= before);
+      if (kept.length === records.length) return 0;
+
+      // Write aside and rename: a crash mid-prune leaves the old file intact
+      const tmpPath = `${this.path}.tmp`;
+      await writeFile(tmpPath, kept.map((record) => `${JSON.stringify(record)}\n`).join(''));
+      await rename(tmpPath, this.path);
+      return records.length - kept.length;
+    });
+  }
+
+  private serialize<T>(write: () => Promise<T>): Promise<T> {
+    const next = this.writes.then(write);
+    this.writes = next.catch(() => {});
+    return next;
+  }
+
+  private async readAll(): Promise<AttemptRecord[]> {
+    let text: string;
+    try {
+      text = await readFile(this.path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const records: AttemptRecord[] = [];
+    for (const line of text.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        records.push(JSON.parse(line) as AttemptRecord);
+      } catch {
+        // Torn write
+      }
+    }
+    return records;
+  }
+}
+
+/**
+ * SQLite-backed store (bun:sqlite)
+ *
+ * @param path - Database file, or ':memory:'
+ */
+export class SqliteAttemptStore implements AttemptStore {
+  private db: Database;
+
+  constructor(path: string) {
+    this.db = new Database(path, { create: true });
+    this.db.run(`CREATE TABLE IF NOT EXISTS ocr_attempts (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      at INTEGER NOT NULL,
+      correlation_id TEXT NOT NULL,
+      client_id TEXT,
+      provider TEXT NOT NULL,
+      record TEXT NOT NULL
+    )`);
+    this.db.run('CREATE INDEX IF NOT EXISTS ocr_attempts_at ON ocr_attempts (at)');
+    this.db.run('CREATE INDEX IF NOT EXISTS ocr_attempts_client_at ON ocr_attempts (client_id, at)');
+    this.db.run('CREATE INDEX IF NOT EXISTS ocr_attempts_correlation ON ocr_attempts (correlation_id)');
+  }
+
+  async append(record: AttemptRecord): Promise<void> {
+    this.db.run(
+      'INSERT INTO ocr_attempts (at, correlation_id, client_id, provider, record) VALUES (?, ?, ?, ?, ?)',
+      [record.at, record.correlationId, record.clientId ?? null, record.provider, JSON.stringify(toPersisted(record))]
+    );
+  }
+
+  async query(query: AttemptQuery = {}): Promise<AttemptRecord[]> {
+    const where: string[] = [];
+    const params: (string | number)[] = [];
+    if (query.clientId !== undefined) { where.push('client_id = ?'); params.push(query.clientId); }
+    if (query.provider !== undefined) { where.push('provider = ?'); params.push(query.provider); }
+    if (query.correlationId !== undefined) { where.push('correlation_id = ?'); params.push(query.correlationId); }
+    if (query.from !== undefined) { where.push('at >= ?'); params.push(query.from); }
+    if (query.to !== undefined) { where.push('at < ?'); params.push(query.to); }
+
+    // Newest first so LIMIT keeps the most recent, then back to oldest first
+    let sql = `SELECT id, record FROM ocr_attempts${where.length > 0 ? ` WHERE ${where.join(' AND ')}` : ''}
+      ORDER BY at DESC, id DESC`;
+    if (query.limit !== undefined) {
+      sql += ' LIMIT ?';
+      params.push(query.limit);
+    }
+
+    return this.db
+      .query<{ id: number; record: string }, (string | number)[]>(sql)
+      .all(...params)
+      .reverse()
+      .map((row) => JSON.parse(row.record) as AttemptRecord);
+  }
+
+  async prune(before: number): Promise<number> {
+    return this.db.run('DELETE FROM ocr_attempts WHERE at < ?', [before]).changes;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+// ============================================================================
+// Summaries
+// ============================================================================
+
+/**
+ * Metrics over attempt records (e.g. one client's last day)
+ *
+ * @param records - Oldest first, as AttemptStore.query returns them
+ */
+export function summarizeAttempts(records: AttemptRecord[]): AttemptSummary {
+  const summary: AttemptSummary = {
+    receipts: 0,
+    attempts: 0,
+    skipped: 0,
+    costThb: 0,
+    costUsd: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheHits: 0,
+    claudeFallbacks: 0,
+    manualReviewRate: 0,
+    byProvider: {},
+  };
+  const receipts = new Map<string, { calledGroq: boolean; fellBack: boolean; needsReview?: boolean }>();
+  const durations: Partial<Record<OcrAttempt['provider'], number>> = {};
+
+  for (const record of records) {
+    const receipt = receipts.get(record.correlationId) ?? { calledGroq: false, fellBack: false };
+    receipts.set(record.correlationId, receipt);
+
+    if (record.skipped) {
+      summary.skipped++;
+      continue;
+    }
+
+    summary.attempts++;
+    summary.costThb += record.cost;
+    summary.costUsd += record.costUsd ?? 0;
+    summary.inputTokens += record.usage?.inputTokens ?? 0;
+    summary.outputTokens += record.usage?.outputTokens ?? 0;
+    if (record.cached) summary.cacheHits++;
+
+    const provider: ProviderSummary = summary.byProvider[record.provider] ?? {
+      attempts: 0,
+      successes: 0,
+      successRate: 0,
+      costThb: 0,
+      avgDurationMs: 0,
+    };
+    summary.byProvider[record.provider] = provider;
+    provider.attempts++;
+    if (record.success) provider.successes++;
+    provider.costThb += record.cost;
+    durations[record.provider] = (durations[record.provider] ?? 0) + record.duration;
+
+    if (record.provider === 'groq') receipt.calledGroq = true;
+    if (record.provider === 'claude' && receipt.calledGroq) receipt.fellBack = true;
+    if (record.needsReview !== undefined) receipt.needsReview = record.needsReview;
+  }
+
+  for (const [name, provider] of Object.entries(summary.byProvider) as [OcrAttempt['provider'], ProviderSummary][]) {
+    provider.successRate = provider.successes / provider.attempts;
+    provider.avgDurationMs = durations[name]! / provider.attempts;
+  }
+
+  summary.receipts = receipts.size;
+  summary.claudeFallbacks = [...receipts.values()].filter((r) => r.fellBack).length;
+  summary.manualReviewRate =
+    receipts.size > 0 ? [...receipts.values()].filter((r) => r.needsReview).length / receipts.size : 0;
+  return summary;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function matches(record: AttemptRecord, query: AttemptQuery): boolean {
+  return (
+    (query.clientId === undefined || record.clientId === query.clientId) &&
+    (query.provider === undefined || record.provider === query.provider) &&
+    (query.correlationId === undefined || record.correlationId === query.correlationId) &&
+    (query.from === undefined || record.at >= query.from) &&
+    (query.to === undefined || record.at < query.to)
+  );
+}
+
+function applyLimit(records: AttemptRecord[], limit: number | undefined): AttemptRecord[] {
+  return limit === undefined ? records : records.slice(Math.max(0, records.length - limit));
+}
+
+/** What the file and SQLite stores keep: everything but the OCR result */
+function toPersisted(record: AttemptRecord): AttemptRecord {
+  const { result: _result, ...persisted } = record;
+  return persisted;
+}
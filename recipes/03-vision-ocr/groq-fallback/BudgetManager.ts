@@ -0,0 +1,522 @@
+/**
+ * Budget Manager
+ *
+ * Hard spending caps for HybridOcrStrategy. The strategy asks before
+ * every provider call (authorize) and reports what each call cost
+ * (recordSpend). Limits apply per day and per month:
+ *
+ *   global - all clients together
+ *   client - each OcrInput.clientId (perClient, or its own entry in clients)
+ *
+ * A call is checked against spend so far, the estimates held for calls
+ * still in flight and its own estimated cost. Past policyThreshold
+ * (default 90%) the policy applies:
+ *
+ *   downgrade - Claude is refused, Groq continues until the limit itself
+ *   queue     - the receipt is parked until the period resets (takeReleased)
+ *   reject    - BudgetExceededError
+ *
+ * An allowed call holds its estimate (a reservation) until recordSpend
+ * settles it at the actual cost or release() gives it back, so receipts
+ * processed at the same time cannot all pass a check that only one of
+ * them fits under. Checking and reserving run one at a time.
+ *
+ * Alerts fire once per limit, period and threshold. Spend, alerts and the
+ * queue live in a BudgetStore, so SqliteBudgetStore survives restarts and
+ * can be shared by workers. Reservations are held in this process: workers
+ * sharing a store do not see each other's in-flight calls.
+ *
+ * Usage:
+ *   const budget = new BudgetManager(
+ *     { perClient: { monthlyThb: 500 }, global: { dailyThb: 2000 }, policy: 'downgrade' },
+ *     new SqliteBudgetStore('ocr-budget.sqlite')
+ *   );
+ *   const strategy = new HybridOcrStrategy(claude, groq, { budget });
+ */
+
+import { Database } from 'bun:sqlite';
+import { OcrError } from '../receipt-extraction/errors';
+import type { OcrErrorContext } from '../receipt-extraction/errors';
+import { createLogger } from '../receipt-extraction/logger';
+import type { Logger } from '../receipt-extraction/logger';
+import type {
+  BudgetAlert,
+  BudgetConfig,
+  BudgetDecision,
+  BudgetLimits,
+  BudgetLimitStatus,
+  BudgetPeriod,
+  BudgetPolicy,
+  BudgetReservation,
+  OcrInput,
+  QueuedReceipt,
+} from './types';
+
+/**
+ * Pluggable storage for spend, fired alerts and queued receipts
+ */
+export interface BudgetStore {
+  getSpend(key: string): Promise<number>;
+
+  /** @returns The new total */
+  addSpend(key: string, amountThb: number): Promise<number>;
+
+  /** True the first time an alert is claimed, false after */
+  claimAlert(key: string, threshold: number): Promise<boolean>;
+
+  enqueue(receipt: Omit<QueuedReceipt, 'id'>): Promise<QueuedReceipt>;
+
+  /** Remove and return receipts whose releaseAt has passed */
+  takeReleased(now: number): Promise<QueuedReceipt[]>;
+}
+
+/**
+ * A budget refused a call. Retryable only when the receipt was queued.
+ */
+export class BudgetExceededError extends OcrError {
+  readonly limit: BudgetLimitStatus;
+  readonly policy: BudgetPolicy;
+  readonly queued: boolean;
+
+  /** Until the blocking period resets */
+  readonly retryAfterMs: number;
+
+  constructor(
+    message: string,
+    context: OcrErrorContext & { limit: BudgetLimitStatus; policy: BudgetPolicy; queued: boolean; retryAfterMs: number }
+  ) {
+    super(message, { ...context, retryable: context.queued });
+    this.name = 'BudgetExceededError';
+    this.limit = context.limit;
+    this.policy = context.policy;
+    this.queued = context.queued;
+    this.retryAfterMs = context.retryAfterMs;
+  }
+}
+
+const SEVERITY: Record<BudgetDecision['action'], number> = {
+  allow: 0,
+  downgrade: 1,
+  queue: 2,
+  reject: 3,
+};
+
+const PERIODS: BudgetPeriod[] = ['daily', 'monthly'];
+
+export class BudgetManager {
+  private config: BudgetConfig;
+  private logger: Logger;
+
+  /** Held estimates by period key, and the keys each reservation holds */
+  private reserved = new Map<string, number>();
+  private reservations = new Map<number, { keys: string[]; amountThb: number }>();
+  private nextReservationId = 1;
+
+  /** reserve/authorize calls, one at a time in call order */
+  private reserving: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    config?: Partial<BudgetConfig>,
+    private store: BudgetStore = new MemoryBudgetStore(),
+    private now: () => number = Date.now
+  ) {
+    this.config = {
+      global: {},
+      perClient: {},
+      clients: {},
+      policy: 'downgrade',
+      policyThreshold: 0.9,
+      alertThresholds: [0.5, 0.8, 1],
+      utcOffsetMinutes: 7 * 60,
+      ...config,
+    };
+    this.logger = this.config.logger ?? createLogger({ MODE: 'PROD', LOG_LEVEL: 'warn' });
+  }
+
+  /**
+   * What the budgets say about one call (no side effects)
+   *
+   * The most restrictive limit wins. In-flight reservations count as spent.
+   */
+  async check(
+    provider: 'groq' | 'claude',
+    clientId: string | undefined,
+    estimatedCostThb: number
+  ): Promise<BudgetDecision> {
+    let decision: BudgetDecision = { action: 'allow' };
+
+    for (const limit of await this.status(clientId)) {
+      const held = this.reserved.get(this.keyFor(limit)) ?? 0;
+      const ratio = (limit.spentThb + held + estimatedCostThb) / limit.limitThb;
+      const action = this.actionFor(provider, ratio);
+      if (SEVERITY[action] > SEVERITY[decision.action]) {
+        decision = { action, limit };
+      }
+    }
+
+    return decision;
+  }
+
+  /**
+   * Check one call and, when allowed, hold its estimated cost
+   *
+   * Refusals are returned, not enforced (nothing queued or thrown).
+   */
+  async reserve(
+    provider: 'groq' | 'claude',
+    clientId: string | undefined,
+    estimatedCostThb: number
+  ): Promise<BudgetDecision> {
+    const next = this.reserving.then(async () => {
+      const decision = await this.check(provider, clientId, estimatedCostThb);
+      if (decision.action !== 'allow') return decision;
+
+      const keys = this.spendKeys(clientId);
+      const id = this.nextReservationId++;
+      for (const key of keys) {
+        this.reserved.set(key, (this.reserved.get(key) ?? 0) + estimatedCostThb);
+      }
+      this.reservations.set(id, { keys, amountThb: estimatedCostThb });
+      return { ...decision, reservation: { id, amountThb: estimatedCostThb } };
+    });
+    this.reserving = next.catch(() => {});
+    return next;
+  }
+
+  /**
+   * Give back a reservation whose call was not made or failed (no-op
+   * once settled or released)
+   */
+  release(reservation: BudgetReservation | undefined): void {
+    const held = reservation && this.reservations.get(reservation.id);
+    if (!held) return;
+
+    this.reservations.delete(reservation.id);
+    for (const key of held.keys) {
+      const remaining = (this.reserved.get(key) ?? 0) - held.amountThb;
+      if (remaining > 1e-9) {
+        this.reserved.set(key, remaining);
+      } else {
+        this.reserved.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Reserve one call and enforce the outcome
+   *
+   * @returns 'allow' with a reservation, or 'downgrade' when Claude must be skipped
+   * @throws BudgetExceededError - on reject, or on queue after parking the receipt
+   */
+  async authorize(
+    provider: 'groq' | 'claude',
+    input: OcrInput,
+    estimatedCostThb: number
+  ): Promise<BudgetDecision> {
+    const decision = await this.reserve(provider, input.clientId, estimatedCostThb);
+    if (decision.action === 'allow' || decision.action === 'downgrade') return decision;
+
+    const queued = decision.action === 'queue';
+    if (queued) {
+      await this.store.enqueue({
+        // Signal, deadline and trace belong to this call, not to the re-run after the reset
+        input: { ...input, signal: undefined, deadline: undefined, traceParent: undefined },
+        queuedAt: this.now(),
+        releaseAt: decision.limit!.resetsAt,
+        reason: describeLimit(decision.limit!),
+      });
+    }
+    throw this.exceededError(decision, input.correlationId, queued);
+  }
+
+  /**
+   * Error for a refused call (also used when a downgrade has nowhere to go)
+   */
+  exceededError(decision: BudgetDecision, correlationId?: string, queued = false): BudgetExceededError {
+    const limit = decision.limit!;
+    return new BudgetExceededError(
+      `Budget exceeded: ${describeLimit(limit)}${queued ? ' (queued until reset)' : ''}`,
+      {
+        correlationId,
+        limit,
+        policy: this.config.policy,
+        queued,
+        retryAfterMs: Math.max(0, limit.resetsAt - this.now()),
+      }
+    );
+  }
+
+  /**
+   * Add a call's cost to every period it counts against
+   *
+   * @param reservation - The call's reservation, settled at the actual cost
+   * @returns Alerts raised by this spend (also sent to onAlert)
+   */
+  async recordSpend(
+    clientId: string | undefined,
+    costThb: number,
+    reservation?: BudgetReservation
+  ): Promise<BudgetAlert[]> {
+    try {
+      return await this.addSpend(clientId, costThb);
+    } finally {
+      // Released after the spend is stored: in between it counts twice, never zero times
+      this.release(reservation);
+    }
+  }
+
+  private async addSpend(clientId: string | undefined, costThb: number): Promise<BudgetAlert[]> {
+    if (costThb <= 0) return [];
+
+    const limits = new Map((await this.status(clientId)).map((l) => [this.keyFor(l), l]));
+    const alerts: BudgetAlert[] = [];
+
+    for (const key of this.spendKeys(clientId)) {
+      const spentThb = await this.store.addSpend(key, costThb);
+      const limit = limits.get(key);
+      if (!limit) continue;
+
+      for (const threshold of [...this.config.alertThresholds].sort((a, b) => a - b)) {
+        if (spentThb >= limit.limitThb * threshold && (await this.store.claimAlert(key, threshold))) {
+          alerts.push({ ...limit, spentThb, threshold });
+        }
+      }
+    }
+
+    for (const alert of alerts) {
+      if (this.config.onAlert) {
+        this.config.onAlert(alert);
+      } else {
+        this.logAlert(alert);
+      }
+    }
+    return alerts;
+  }
+
+  /**
+   * Limits that apply to a client (and globally), with this period's spend
+   */
+  async status(clientId?: string): Promise<BudgetLimitStatus[]> {
+    const scopes: { scope: 'global' | 'client'; clientId?: string; limits: BudgetLimits }[] = [
+      { scope: 'global', limits: this.config.global },
+    ];
+    if (clientId) {
+      scopes.push({ scope: 'client', clientId, limits: this.config.clients[clientId] ?? this.config.perClient });
+    }
+
+    const statuses: BudgetLimitStatus[] = [];
+    for (const { scope, clientId: id, limits } of scopes) {
+      for (const period of PERIODS) {
+        const limitThb = period === 'daily' ? limits.dailyThb : limits.monthlyThb;
+        if (limitThb === undefined) continue;
+
+        const status: BudgetLimitStatus = {
+          scope,
+          clientId: id,
+          period,
+          periodKey: this.periodKey(period),
+          limitThb,
+          spentThb: 0,
+          resetsAt: this.periodEnd(period),
+        };
+        status.spentThb = await this.store.getSpend(this.keyFor(status));
+        statuses.push(status);
+      }
+    }
+    return statuses;
+  }
+
+  /**
+   * Queued receipts whose period has reset, removed from the queue
+   * (call from a periodic job and resubmit them)
+   */
+  async takeReleased(): Promise<QueuedReceipt[]> {
+    return this.store.takeReleased(this.now());
+  }
+
+  private logAlert(alert: BudgetAlert): void {
+    this.logger.warn('Budget alert', {
+      threshold: alert.threshold,
+      scope: alert.scope,
+      clientId: alert.clientId,
+      period: alert.period,
+      periodKey: alert.periodKey,
+      spentThb: alert.spentThb,
+      limitThb: alert.limitThb,
+    });
+  }
+
+  private actionFor(provider: 'groq' | 'claude', ratio: number): BudgetDecision['action'] {
+    if (ratio < this.config.policyThreshold) return 'allow';
+
+    switch (this.config.policy) {
+      case 'downgrade':
+        if (provider === 'claude') return 'downgrade';
+        return ratio > 1 ? 'reject' : 'allow';
+      case 'queue':
+        return 'queue';
+      case 'reject':
+        return 'reject';
+    }
+  }
+
+  /**
+   * Every period key a client's spend counts against (limited or not,
+   * so a limit added later sees this period's history)
+   */
+  private spendKeys(clientId: string | undefined): string[] {
+    const scopes = clientId ? ['global', `client:${clientId}`] : ['global'];
+    return scopes.flatMap((scope) => PERIODS.map((period) => `${scope}:${period}:${this.periodKey(period)}`));
+  }
+
+  private keyFor(limit: BudgetLimitStatus): string {
+    const scope = limit.scope === 'global' ? 'global' : `client:${limit.clientId}`;
+    return `${scope}:${limit.period}:${limit.periodKey}`;
+  }
+
+  private periodKey(period: BudgetPeriod): string {
+    const local = new Date(this.now() + this.config.utcOffsetMinutes * 60_000).toISOString();
+    return period === 'daily' ? local.slice(0, 10) : local.slice(0, 7);
+  }
+
+  private periodEnd(period: BudgetPeriod): number {
+    const offsetMs = this.config.utcOffsetMinutes * 60_000;
+    const local = new Date(this.now() + offsetMs);
+    const end = period === 'daily'
+      ? Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate() + 1)
+      : Date.UTC(local.getUTCFullYear(), local.getUTCMonth() + 1, 1);
+    return end - offsetMs;
+  }
+}
+
+function describeLimit(limit: BudgetLimitStatus): string {
+  const scope = limit.scope === 'global' ? 'global' : `client ${limit.clientId}`;
+  return `${scope} ${limit.period} ฿${limit.spentThb.toFixed(2)} of ฿${limit.limitThb.toFixed(2)} spent (${limit.periodKey})`;
+}
+
+// ============================================================================
+// Stores
+// ============================================================================
+
+/**
+ * In-process store (lost on restart)
+ */
+export class MemoryBudgetStore implements BudgetStore {
+  private spend = new Map<string, number>();
+  private alerts = new Set<string>();
+  private queue: QueuedReceipt[] = [];
+  private nextId = 1;
+
+  async getSpend(key: string): Promise<number> {
+    return this.spend.get(key) ?? 0;
+  }
+
+  async addSpend(key: string, amountThb: number): Promise<number> {
+    const total = (this.spend.get(key) ?? 0) + amountThb;
+    this.spend.set(key, total);
+    return total;
+  }
+
+  async claimAlert(key: string, threshold: number): Promise<boolean> {
+    const id = `${key}@${threshold}`;
+    if (this.alerts.has(id)) return false;
+    this.alerts.add(id);
+    return true;
+  }
+
+  async enqueue(receipt: Omit<QueuedReceipt, 'id'>): Promise<QueuedReceipt> {
+    const queued = { id: this.nextId++, ...receipt };
+    this.queue.push(queued);
+    return queued;
+  }
+
+  async takeReleased(now: number): Promise<QueuedReceipt[]> {
+    const released = this.queue.filter((r) => r.releaseAt <= now);
+    this.queue = this.queue.filter((r) => r.releaseAt > now);
+    return released;
+  }
+}
+
+/**
+ * SQLite-backed store (bun:sqlite)
+ *
+ * @param path - Database file, or ':memory:'
+ */
+export class SqliteBudgetStore implements BudgetStore {
+  private db: Database;
+
+  constructor(path: string) {
+    this.db = new Database(path, { create: true });
+    this.db.run(`CREATE TABLE IF NOT EXISTS ocr_budget_spend (
+      key TEXT PRIMARY KEY,
+      spent_thb REAL NOT NULL
+    )`);
+    this.db.run(`CREATE TABLE IF NOT EXISTS ocr_budget_alerts (
+      key TEXT NOT NULL,
+      threshold REAL NOT NULL,
+      PRIMARY KEY (key, threshold)
+    )`);
+    this.db.run(`CREATE TABLE IF NOT EXISTS ocr_budget_queue (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      input TEXT NOT NULL,
+      queued_at INTEGER NOT NULL,
+      release_at INTEGER NOT NULL,
+      reason TEXT NOT NULL
+    )`);
+  }
+
+  async getSpend(key: string): Promise<number> {
+    const row = this.db
+      .query<{ spent_thb: number }, [string]>('SELECT spent_thb FROM ocr_budget_spend WHERE key = ?')
+      .get(key);
+    return row?.spent_thb ?? 0;
+  }
+
+  async addSpend(key: string, amountThb: number): Promise<number> {
+    const row = this.db
+      .query<{ spent_thb: number }, [string, number]>(
+        `INSERT INTO ocr_budget_spend (key, spent_thb) VALUES (?, ?)
+         ON CONFLICT(key) DO UPDATE SET spent_thb = spent_thb + excluded.spent_thb
+         RETURNING spent_thb`
+      )
+      .get(key, amountThb);
+    return row!.spent_thb;
+  }
+
+  async claimAlert(key: string, threshold: number): Promise<boolean> {
+    return this.db.run(
+      'INSERT OR IGNORE INTO ocr_budget_alerts (key, threshold) VALUES (?, ?)',
+      [key, threshold]
+    ).changes === 1;
+  }
+
+  async enqueue(receipt: Omit<QueuedReceipt, 'id'>): Promise<QueuedReceipt> {
+    const { lastInsertRowid } = this.db.run(
+      'INSERT INTO ocr_budget_queue (input, queued_at, release_at, reason) VALUES (?, ?, ?, ?)',
+      [JSON.stringify(receipt.input), receipt.queuedAt, receipt.releaseAt, receipt.reason]
+    );
+    return { id: Number(lastInsertRowid), ...receipt };
+  }
+
+  async takeReleased(now: number): Promise<QueuedReceipt[]> {
+    const rows = this.db
+      .query<{ id: number; input: string; queued_at: number; release_at: number; reason: string }, [number]>(
+        'DELETE FROM ocr_budget_queue WHERE release_at <= ? RETURNING id, input, queued_at, release_at, reason'
+      )
+      .all(now);
+
+    return rows
+      .map((row) => ({
+        id: row.id,
+        input: JSON.parse(row.input) as OcrInput,
+        queuedAt: row.queued_at,
+        releaseAt: row.release_at,
+        reason: row.reason,
+      }))
+      .sort((a, b) => a.id - b.id);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
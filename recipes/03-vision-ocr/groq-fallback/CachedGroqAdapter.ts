@@ -0,0 +1,68 @@
+/**
+ * Cached Groq Adapter
+ * 
+ * Groq counterpart of CachedClaudeAdapter (receipt-extraction/resultCache.ts).
+ * Groq reads the OCR text, not the image, so the key is:
+ * 
+ *   sha256(OCR text, prompt fingerprint, model)
+ * 
+ * The fingerprint and model come from the wrapped adapter (callIdentity),
+ * so a client override, pinned prompt version or GroqConfig.model it uses
+ * is what the key follows.
+ * 
+ * Hits carry `result.cache` and are recorded by HybridOcrStrategy at zero cost.
+ */
+
+import type { GroqAdapter, GroqParseOptions, OcrResult } from './types';
+import { DEFAULT_GROQ_MODEL } from './GroqTextAdapter';
+import { GROQ_PROMPT_ID, defaultPromptRegistry } from '../receipt-extraction/promptRegistry';
+import type { PromptRegistry } from '../receipt-extraction/promptRegistry';
+import { contentHash } from '../receipt-extraction/hash';
+import { validateReceiptOcrResult } from '../receipt-extraction/validation';
+import { ResultCache, resultCacheKey } from '../receipt-extraction/resultCache';
+import type { ResultCacheOptions } from '../receipt-extraction/resultCache';
+
+export interface CachedGroqAdapterOptions extends ResultCacheOptions {
+  /** Fixed prompt part of the key (default: fingerprint of the prompt each call renders) */
+  promptVersion?: string;
+
+  /** For a wrapped adapter without callIdentity: the registry it renders from (default: defaultPromptRegistry()) */
+  prompts?: PromptRegistry;
+
+  /** For a wrapped adapter without callIdentity: its model (default: DEFAULT_GROQ_MODEL); options.model wins */
+  model?: string;
+}
+
+export class CachedGroqAdapter implements GroqAdapter {
+  private inner: GroqAdapter;
+  private cache: ResultCache;
+  private promptVersion?: string;
+  private prompts: PromptRegistry;
+  private model: string;
+
+  constructor(inner: GroqAdapter, options: CachedGroqAdapterOptions) {
+    this.inner = inner;
+    this.cache = new ResultCache(options);
+    this.promptVersion = options.promptVersion;
+    this.prompts = options.prompts ?? defaultPromptRegistry();
+    this.model = options.model ?? DEFAULT_GROQ_MODEL;
+  }
+
+  async parseReceiptText(rawText: string, correlationId: string, options: GroqParseOptions = {}): Promise<OcrResult> {
+    const identity = this.inner.callIdentity?.(rawText, options) ?? {
+      promptFingerprint: this.prompts.render(GROQ_PROMPT_ID, { ...options.promptVariables, rawText }, options.clientId).fingerprint,
+      model: options.model ?? this.model,
+    };
+    const key = resultCacheKey(contentHash(rawText), this.promptVersion ?? identity.promptFingerprint, identity.model);
+
+    const cached = await this.cache.get(key);
+    if (cached) {
+      cached.violations = validateReceiptOcrResult(cached);
+      return cached;
+    }
+
+    const result = await this.inner.parseReceiptText(rawText, correlationId, options);
+    await this.cache.set(key, result);
+    return result;
+  }
+}
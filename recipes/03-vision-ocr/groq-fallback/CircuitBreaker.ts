@@ -0,0 +1,152 @@
+/**
+ * Circuit Breaker
+ * 
+ * Stops paying for requests to a provider that is known to be down.
+ * 
+ * Flow:
+ *   closed ──(N consecutive failures)──▶ open
+ *   open ──(cool-down elapsed)──▶ half-open
+ *   half-open ──(probe succeeds)──▶ closed
+ *   half-open ──(probe fails)──▶ open
+ * 
+ * The breaker never calls the provider itself: callers ask canRequest()
+ * before a call and report the outcome with recordSuccess/recordFailure.
+ */
+
+import type {
+  CircuitBreakerConfig,
+  CircuitBreakerSnapshot,
+  CircuitState,
+} from './types';
+
+export class CircuitBreaker {
+  private config: CircuitBreakerConfig;
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private totalFailures = 0;
+  private totalSuccesses = 0;
+  private totalRejected = 0;
+  private openedAt: number | null = null;
+  private halfOpenInFlight = 0;
+
+  constructor(
+    public readonly name: string,
+    config?: Partial<CircuitBreakerConfig>,
+    private now: () => number = Date.now
+  ) {
+    this.config = {
+      failureThreshold: 5,
+      cooldownMs: 30_000,
+      halfOpenMaxCalls: 1,
+      ...config,
+    };
+  }
+
+  /**
+   * Ask permission for one request
+   * 
+   * Moves open → half-open once the cool-down has elapsed. A `true` while
+   * half-open reserves a probe slot, so always report the outcome.
+   */
+  canRequest(): boolean {
+    if (this.state === 'open') {
+      if (this.now() - (this.openedAt ?? 0) < this.config.cooldownMs) {
+        this.totalRejected++;
+        return false;
+      }
+      this.state = 'half-open';
+      this.halfOpenInFlight = 0;
+    }
+
+    if (this.state === 'half-open') {
+      if (this.halfOpenInFlight >= this.config.halfOpenMaxCalls) {
+        this.totalRejected++;
+        return false;
+      }
+      this.halfOpenInFlight++;
+    }
+
+    return true;
+  }
+
+  /**
+   * Report a successful call (closes a half-open circuit)
+   */
+  recordSuccess(): void {
+    this.totalSuccesses++;
+    this.consecutiveFailures = 0;
+
+    if (this.state === 'half-open') {
+      this.state = 'closed';
+      this.openedAt = null;
+      this.halfOpenInFlight = 0;
+    }
+  }
+
+  /**
+   * Report a call that ended without telling us anything about the
+   * provider (cancelled, or cut off by the caller's deadline): frees a
+   * half-open probe slot without closing or opening the circuit
+   */
+  release(): void {
+    if (this.state === 'half-open' && this.halfOpenInFlight > 0) {
+      this.halfOpenInFlight--;
+    }
+  }
+
+  /**
+   * Report a failed call (may open the circuit)
+   */
+  recordFailure(): void {
+    this.totalFailures++;
+    this.consecutiveFailures++;
+
+    if (
+      this.state === 'half-open' ||
+      this.consecutiveFailures >= this.config.failureThreshold
+    ) {
+      this.state = 'open';
+      this.openedAt = this.now();
+      this.halfOpenInFlight = 0;
+    }
+  }
+
+  /**
+   * Current state (does not transition; see canRequest)
+   */
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  /**
+   * Read-only view for dashboards
+   */
+  snapshot(): CircuitBreakerSnapshot {
+    return {
+      name: this.name,
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      totalFailures: this.totalFailures,
+      totalSuccesses: this.totalSuccesses,
+      totalRejected: this.totalRejected,
+      openedAt: this.openedAt,
+      nextAttemptAt:
+        this.state === 'open' && this.openedAt !== null
+          ? this.openedAt + this.config.cooldownMs
+          : null,
+    };
+  }
+
+  /**
+   * Force the circuit closed and clear counters (useful for testing)
+   */
+  reset(): void {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.totalFailures = 0;
+    this.totalSuccesses = 0;
+    this.totalRejected = 0;
+    this.openedAt = null;
+    this.halfOpenInFlight = 0;
+  }
+}
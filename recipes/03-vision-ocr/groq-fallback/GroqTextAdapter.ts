@@ -7,103 +7,223 @@
  * Flow:
  *   PaddleOCR/Google Vision → Raw text → Groq parsing → Structured JSON
  * 
- * Cost: ~฿0.05/receipt (vs Claude ฿0.50)
+ * Cost: ~฿0.05/receipt (vs Claude ฿0.50); measured per call from
+ * result.usage (see receipt-extraction/pricing.ts)
  */
 
-import type { OcrResult, OcrInput } from './types';
+import type { GroqAdapter, GroqParseOptions, OcrResult } from './types';
+import type { CallIdentity, ReceiptLineItem } from '../receipt-extraction/types';
+import { validateReceiptOcrResult } from '../receipt-extraction/validation';
+import { applyReconciliation } from '../receipt-extraction/reconciliation';
+import { normalizeIssueDate } from '../receipt-extraction/thaiDate';
+import { fetchWithRetry, parseRetryAfter } from '../receipt-extraction/retry';
+import type { RetryPolicy } from '../receipt-extraction/retry';
+import { createLogger } from '../receipt-extraction/logger';
+import type { Logger } from '../receipt-extraction/logger';
+import {
+  InvalidResponseError,
+  OcrError,
+  ProviderUnavailableError,
+  errorFromResponse,
+  toOcrError,
+} from '../receipt-extraction/errors';
+import {
+  assessFullTaxInvoice,
+  normalizeBranch,
+  normalizeThaiTaxId,
+} from '../receipt-extraction/taxInvoice';
+import { applyDocumentTypeSign, isDocumentType } from '../receipt-extraction/documentType';
+import { parseFieldEvidence, parseReceiptFieldEvidence } from '../receipt-extraction/fieldEvidence';
+import { createCassetteFetch } from '../receipt-extraction/cassette';
+import type { CassetteOptions, FetchLike } from '../receipt-extraction/cassette';
+import { GROQ_PROMPT_ID, defaultPromptRegistry } from '../receipt-extraction/promptRegistry';
+import type { PromptRegistry, RenderedPrompt } from '../receipt-extraction/promptRegistry';
+import { abortedError, callSignal, throwIfAborted } from '../receipt-extraction/deadline';
+import { NOOP_TRACER, errorOutcome, usageAttributes } from '../receipt-extraction/tracing';
+import type { Tracer } from '../receipt-extraction/tracing';
+
+/** Default Groq OpenAI-compatible API root (override with baseUrl) */
+export const DEFAULT_GROQ_BASE_URL = 'https://api.groq.com/openai/v1';
+
+export const DEFAULT_GROQ_MODEL = 'mixtral-8x7b-32768';
+
+export const DEFAULT_GROQ_MAX_TOKENS = 512;
 
 export interface GroqConfig {
   apiKey: string;
-  model?: string; // Default: mixtral-8x7b-32768
+  baseUrl?: string; // Default: DEFAULT_GROQ_BASE_URL (point at a proxy or mockApiServer)
+  model?: string; // Default: DEFAULT_GROQ_MODEL (a call can override it with options.model)
+  maxTokens?: number; // Default: DEFAULT_GROQ_MAX_TOKENS
   temperature?: number;
+  retry?: Partial<RetryPolicy>; // Default: DEFAULT_RETRY_POLICY
+  logger?: Logger; // Default: JSON logger at 'warn'
+  tracer?: Tracer; // Default: NOOP_TRACER (see receipt-extraction/tracing.ts)
+  cassette?: Omit<CassetteOptions, 'provider'>; // RECORD/REPLAY through cassettes (see cassette.ts)
+  prompts?: PromptRegistry; // Default: defaultPromptRegistry() (templates in receipt-extraction/prompts)
 }
 
-export class GroqTextAdapter {
+export class GroqTextAdapter implements GroqAdapter {
   private apiKey: string;
-  private apiUrl = 'https://api.groq.com/openai/v1/chat/completions';
+  private apiUrl: string;
   private model: string;
+  private maxTokens: number;
   private temperature: number;
+  private retryPolicy?: Partial<RetryPolicy>;
+  private logger: Logger;
+  private tracer: Tracer;
+  private fetch: FetchLike;
+  private cassette?: Omit<CassetteOptions, 'provider'>;
+  private prompts: PromptRegistry;
 
   constructor(config: GroqConfig) {
     this.apiKey = config.apiKey;
-    this.model = config.model || 'mixtral-8x7b-32768';
+    this.apiUrl = `${(config.baseUrl ?? DEFAULT_GROQ_BASE_URL).replace(/\/+$/, '')}/chat/completions`;
+    this.model = config.model || DEFAULT_GROQ_MODEL;
+    this.maxTokens = config.maxTokens ?? DEFAULT_GROQ_MAX_TOKENS;
     this.temperature = config.temperature || 0.1; // Low temp for structured output
+    this.retryPolicy = config.retry;
+    this.logger = config.logger ?? createLogger({ MODE: 'PROD', LOG_LEVEL: 'warn' });
+    this.tracer = config.tracer ?? NOOP_TRACER;
+    this.prompts = config.prompts ?? defaultPromptRegistry();
+    this.cassette = config.cassette;
+    this.fetch = (input, init) => fetch(input, init);
+  }
+
+  /**
+   * Prompt and model a call would use
+   */
+  callIdentity(rawText: string, options: GroqParseOptions = {}): CallIdentity {
+    return {
+      promptFingerprint: this.renderPrompt(rawText, options).fingerprint,
+      model: options.model ?? this.model,
+    };
   }
 
   /**
    * Parse raw OCR text into structured receipt data
    */
-  async parseReceiptText(rawText: string, correlationId: string): Promise<OcrResult> {
-    const prompt = this.buildPrompt(rawText);
+  async parseReceiptText(
+    rawText: string,
+    correlationId: string,
+    options: GroqParseOptions = {}
+  ): Promise<OcrResult> {
+    const prompt = this.renderPrompt(rawText, options);
+    const model = options.model ?? this.model;
+    const requestBody = JSON.stringify({
+      model,
+      messages: [
+        {
+          role: 'system',
+          content: 'You are a Thai receipt parser. Extract structured data from OCR text.',
+        },
+        {
+          role: 'user',
+          content: prompt.text,
+        },
+      ],
+      temperature: this.temperature,
+      max_tokens: this.maxTokens,
+    });
+    // The prompt embeds the OCR text: cassettes key on the text itself so
+    // matchOn 'input' survives a prompt change
+    const send = this.cassette
+      ? createCassetteFetch({ ...this.cassette, provider: 'groq', input: rawText })
+      : this.fetch;
+    const signal = callSignal(options);
+    const span = this.tracer.startSpan('groq.parseReceiptText', {
+      parent: options.traceParent,
+      attributes: {
+        'ocr.correlation_id': correlationId,
+        'ocr.provider': 'groq',
+        'ocr.model': model,
+      },
+    });
 
     try {
-      const response = await fetch(this.apiUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.apiKey}`,
-        },
-        body: JSON.stringify({
-          model: this.model,
-          messages: [
-            {
-              role: 'system',
-              content: 'You are a Thai receipt parser. Extract structured data from OCR text.',
+      throwIfAborted(signal, { correlationId, provider: 'groq' });
+      const response = await fetchWithRetry(
+        () =>
+          send(this.apiUrl, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              'Authorization': `Bearer ${this.apiKey}`,
             },
-            {
-              role: 'user',
-              content: prompt,
-            },
-          ],
-          temperature: this.temperature,
-          max_tokens: 512,
-        }),
+            body: requestBody,
+            signal,
+          }),
+        {
+          correlationId,
+          provider: 'groq',
+          policy: this.retryPolicy,
+          logger: this.logger,
+          signal,
+        }
+      ).catch((error) => {
+        if (error instanceof OcrError) throw error;
+        throw new ProviderUnavailableError('Groq API unreachable', {
+          correlationId,
+          provider: 'groq',
+          cause: error,
+        });
       });
 
       if (!response.ok) {
-        throw new Error(`Groq API error: ${response.status}`);
+        const errorText = await response.text();
+        throw errorFromResponse(response.status, errorText, {
+          correlationId,
+          provider: 'groq',
+          retryAfterMs: parseRetryAfter(response.headers),
+        });
       }
 
-      const data = await response.json();
-      const result = this.parseResponse(data);
+      const data = await response.json().catch((error) => {
+        if (signal?.aborted) throw abortedError(signal, { correlationId, provider: 'groq' });
+        throw new InvalidResponseError('Groq returned a non-JSON body', {
+          correlationId,
+          provider: 'groq',
+          cause: error,
+        });
+      });
+      // The OCR text is the source of truth for the date, not the model's reading
+      const result = normalizeIssueDate(this.parseResponse(data, correlationId, model), { rawText });
+      result.prompt = prompt.stamp;
+      result.violations = validateReceiptOcrResult(result);
+      applyReconciliation(result);
+      span.setAttributes({ ...usageAttributes(result.usage), 'ocr.outcome': 'success' });
 
       return result;
     } catch (error) {
-      throw new Error(`Groq parsing failed: ${(error as Error).message}`);
+      const ocrError =
+        signal?.aborted && !(error instanceof OcrError)
+          ? abortedError(signal, { correlationId, provider: 'groq' })
+          : toOcrError(error, { correlationId, provider: 'groq' });
+      this.logger.warn('GroqTextAdapter.parseReceiptText failed', {
+        correlationId,
+        error: ocrError.message,
+        errorType: ocrError.name,
+        status: ocrError.status,
+        retryable: ocrError.retryable,
+      });
+      span.recordError(ocrError);
+      span.setAttributes({ 'ocr.outcome': errorOutcome(ocrError), 'ocr.status': ocrError.status });
+      throw ocrError;
+    } finally {
+      span.end();
     }
   }
 
   /**
-   * Build parsing prompt
+   * Prompt rendered for this call (registry, client override, variables)
    */
-  private buildPrompt(rawText: string): string {
-    return `Parse this Thai receipt OCR text into structured JSON.
-
-**OCR Text:**
-${rawText}
-
-**Instructions:**
-1. Extract total amount (convert to Satang: 1 Baht = 100 Satang)
-2. Extract VAT amount (if shown, typically 7%)
-3. Extract vendor/shop name
-4. Extract date (convert Buddhist Era to Christian Era: BE - 543)
-
-**Output JSON format (no markdown, just JSON):**
-{
-  "total_amount_satang": number,
-  "vat_amount_satang": number | null,
-  "vendor_name": string | null,
-  "issue_date": "YYYY-MM-DD" | null,
-  "confidence": number (0.0-1.0)
-}
-
-Return ONLY valid JSON, no other text.`;
+  private renderPrompt(rawText: string, options: GroqParseOptions): RenderedPrompt {
+    return this.prompts.render(GROQ_PROMPT_ID, { ...options.promptVariables, rawText }, options.clientId);
   }
 
   /**
    * Parse Groq response
    */
-  private parseResponse(data: any): OcrResult {
+  private parseResponse(data: any, correlationId: string, requestedModel: string): OcrResult {
     const content = data.choices?.[0]?.message?.content || '{}';
 
     // Remove markdown code blocks if present
@@ -116,17 +236,80 @@ Return ONLY valid JSON, no other text.`;
     try {
       parsed = JSON.parse(jsonText);
     } catch (err) {
-      throw new Error('Groq returned invalid JSON');
+      throw new InvalidResponseError('Groq returned invalid JSON', {
+        correlationId,
+        provider: 'groq',
+        cause: err,
+      });
     }
 
-    return {
-      amountSatang: parsed.total_amount_satang || 0,
+    // Missing total is a parse failure, not a ฿0.00 receipt
+    if (typeof parsed.total_amount_satang !== 'number') {
+      throw new InvalidResponseError('Groq response is missing total_amount_satang', {
+        correlationId,
+        provider: 'groq',
+        field: 'total_amount_satang',
+      });
+    }
+
+    const result: OcrResult = {
+      amountSatang: parsed.total_amount_satang,
       currency: 'THB',
       vatAmountSatang: parsed.vat_amount_satang ?? null,
+      subtotalSatang: parsed.subtotal_satang ?? null,
+      serviceChargeSatang: parsed.service_charge_satang ?? null,
+      discountSatang: parsed.discount_satang ?? null,
       vendorName: parsed.vendor_name ?? null,
       issueDate: parsed.issue_date ?? null,
+      documentType: isDocumentType(parsed.document_type) ? parsed.document_type : undefined,
+      sellerTaxId: normalizeThaiTaxId(parsed.seller_tax_id),
+      sellerBranch: normalizeBranch(parsed.seller_branch),
+      taxInvoiceNumber: parsed.tax_invoice_number ?? null,
+      buyerName: parsed.buyer_name ?? null,
+      buyerTaxId: normalizeThaiTaxId(parsed.buyer_tax_id),
       rawText: content,
       confidence: parsed.confidence ?? 0.7, // Groq generally less confident
+      fieldEvidence: parseReceiptFieldEvidence(parsed.field_evidence),
+      lineItems: this.parseLineItems(parsed.line_items),
     };
+    applyDocumentTypeSign(result);
+    result.taxInvoiceCheck = assessFullTaxInvoice(result);
+
+    // Billed tokens (OpenAI-style names; pricing.ts turns them into Baht)
+    const usage = data.usage;
+    if (Number.isInteger(usage?.prompt_tokens) && Number.isInteger(usage?.completion_tokens)) {
+      result.usage = {
+        provider: 'groq',
+        model: typeof data.model === 'string' ? data.model : requestedModel,
+        inputTokens: usage.prompt_tokens,
+        outputTokens: usage.completion_tokens,
+      };
+    }
+
+    return result;
+  }
+
+  /**
+   * Map line items, dropping malformed ones
+   * 
+   * Line items are informational here; the validator and reconciliation
+   * check the ones that survive.
+   */
+  private parseLineItems(raw: unknown): ReceiptLineItem[] | undefined {
+    if (!Array.isArray(raw)) return undefined;
+
+    return raw
+      .filter((item: any) => typeof item?.description === 'string' && typeof item.total_satang === 'number')
+      .map((item: any) => {
+        const lineItem: ReceiptLineItem = {
+          description: item.description,
+          quantity: typeof item.quantity === 'number' ? item.quantity : 1,
+          unitPriceSatang: typeof item.unit_price_satang === 'number' ? item.unit_price_satang : item.total_satang,
+          totalSatang: item.total_satang,
+        };
+        const evidence = parseFieldEvidence(item.evidence);
+        if (evidence) lineItem.evidence = evidence;
+        return lineItem;
+      });
   }
 }
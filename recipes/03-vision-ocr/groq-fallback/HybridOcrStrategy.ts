@@ -6,20 +6,82 @@
  * 2. Route to appropriate adapter
  * 3. Handle fallback if needed
  * 4. Track metrics
+ * 
+ * With a BudgetManager configured, every provider call is authorised
+ * first, holding its estimated cost, and its actual cost then charged to
+ * the client's and the global budgets (the hold is given back when the
+ * call is not made or fails).
+ * 
+ * With a model ladder (config.modelLadder), each provider is tried on its
+ * cheapest model first and re-run on the next one when the result fails
+ * validation or scores low, so a receipt can pass through several price
+ * points - e.g. llama-3.1-8b → llama-3.3-70b → Claude Haiku → Sonnet.
+ * Every rung is recorded as an attempt.
+ * 
+ * A receipt's signal and deadline (input.signal / input.deadline, or
+ * config.timeoutMs) cover the whole flow: every provider call gets what
+ * is left, and nothing new starts once it has run out (OcrTimeoutError,
+ * or OcrCancelledError when the caller aborted).
+ * 
+ * With a tracer (config.tracer), each receipt is a span with the
+ * classification, the provider calls and every attempt as children
+ * (see receipt-extraction/tracing.ts).
+ * 
+ * Attempts are kept in a bounded in-memory history (config.attemptHistoryLimit)
+ * and, with config.attemptStore, in a persistent store that
+ * queryAttempts() and getRollingMetrics() read (see AttemptStore.ts).
+ * getMetrics() totals are kept incrementally, so they cover every attempt
+ * since the last reset, not just those still in the history.
  */
 
 import { SimpleReceiptDetector } from './SimpleReceiptDetector';
-import { GroqTextAdapter } from './GroqTextAdapter';
+import { CircuitBreaker } from './CircuitBreaker';
 import type { ClaudeAdapter } from '../receipt-extraction/claudeAdapter';
+import { validateReceiptOcrResult } from '../receipt-extraction/validation';
+import { applyReconciliation, summarizeReconciliation } from '../receipt-extraction/reconciliation';
+import { normalizeIssueDate } from '../receipt-extraction/thaiDate';
+import { weakestCriticalField } from '../receipt-extraction/fieldEvidence';
+import { prepareReceiptImage } from '../receipt-extraction/imageIntake';
+import { abortedError, callSignal, raceAbort, throwIfAborted } from '../receipt-extraction/deadline';
+import { costOfUsage, resolvePricing } from '../receipt-extraction/pricing';
+import { createLogger } from '../receipt-extraction/logger';
+import type { Logger } from '../receipt-extraction/logger';
+import { NOOP_TRACER, errorOutcome } from '../receipt-extraction/tracing';
+import type { SpanContext, Tracer } from '../receipt-extraction/tracing';
+import { HybridPrometheusMetrics, attemptOutcome } from './HybridPrometheusMetrics';
+import { MemoryAttemptStore, ROLLING_WINDOWS_MS, summarizeAttempts } from './AttemptStore';
+import type { PricingConfig } from '../receipt-extraction/pricing';
+import {
+  ImageRejectedError,
+  InvalidResponseError,
+  OcrError,
+  ProviderUnavailableError,
+  toOcrError,
+} from '../receipt-extraction/errors';
 import type { 
   OcrResult, 
   OcrInput, 
   ReceiptClassification,
+  GroqAdapter,
   OcrAttempt,
   HybridMetrics,
   HybridStrategyConfig,
+  CircuitBreakerSnapshot,
+  BudgetReservation,
+  ReceiptRoute,
+  AttemptQuery,
+  AttemptRecord,
+  AttemptSummary,
+  AttemptWindow,
 } from './types';
 
+/** A receipt after intake and classification, ready to hand to a provider */
+interface ReceiptPlan {
+  input: OcrInput;
+  classification: ReceiptClassification;
+  route: ReceiptRoute;
+}
+
 /**
  * Hybrid OCR Strategy
  * 
@@ -27,53 +89,154 @@ import type {
  * - Simple receipts → Groq text parsing (cheap)
  * - Complex receipts → Claude Vision (accurate)
  * - Automatic fallback on failures
+ * - Per-provider circuit breakers route around a provider that is down
  */
 export class HybridOcrStrategy {
   private detector: SimpleReceiptDetector;
-  private groqAdapter: GroqTextAdapter;
+  private groqAdapter: GroqAdapter;
   private claudeAdapter: ClaudeAdapter;
   private config: HybridStrategyConfig;
   private metrics: HybridMetrics;
-  private attempts: OcrAttempt[] = [];
+  private history: MemoryAttemptStore;
+  
+  /** Running tallies behind the rates in getMetrics() */
+  private tallies = HybridOcrStrategy.initTallies();
+  
+  /** correlationIds of in-flight receipts already counted in totalReceipts */
+  private countedReceipts = new Set<string>();
+  
+  /** Pending attemptStore appends, in order */
+  private storeWrites: Promise<void> = Promise.resolve();
+  private breakers: Record<'groq' | 'claude', CircuitBreaker>;
+  private pricing: PricingConfig;
+  private logger: Logger;
+  private tracer: Tracer;
+  private prometheus?: HybridPrometheusMetrics;
+
+  /** Provider behind every result an attempt produced, for the receipt's span and metrics */
+  private resultProviders = new WeakMap<OcrResult, OcrAttempt['provider']>();
 
   constructor(
     claudeAdapter: ClaudeAdapter,
-    groqAdapter: GroqTextAdapter,
+    groqAdapter: GroqAdapter,
     config?: Partial<HybridStrategyConfig>
   ) {
     this.claudeAdapter = claudeAdapter;
     this.groqAdapter = groqAdapter;
-    this.detector = new SimpleReceiptDetector();
+    this.logger = config?.logger ?? createLogger({ MODE: 'PROD', LOG_LEVEL: 'info' });
+    this.tracer = config?.tracer ?? NOOP_TRACER;
+    this.detector = new SimpleReceiptDetector(undefined, this.logger, this.tracer);
     
     this.config = {
       simpleConfidenceThreshold: 0.85,
       enableFallback: true,
       maxGroqRetries: 1,
       enableMetrics: true,
+      claudeDocumentTypes: ['full_tax_invoice', 'credit_note', 'debit_note'],
+      reviewConfidenceThreshold: 0.95,
+      escalationConfidenceThreshold: 0.8,
+      attemptHistoryLimit: 1000,
       ...config,
+      estimatedCostThb: { groq: 0.05, claude: 0.50, ...config?.estimatedCostThb },
+    };
+
+    this.pricing = resolvePricing(this.config.pricing);
+
+    this.breakers = {
+      groq: new CircuitBreaker('groq', this.config.circuitBreaker),
+      claude: new CircuitBreaker('claude', this.config.circuitBreaker),
     };
 
     this.metrics = this.initMetrics();
+    this.history = new MemoryAttemptStore(this.config.attemptHistoryLimit);
+
+    if (this.config.metricsRegistry) {
+      this.prometheus = new HybridPrometheusMetrics(this.config.metricsRegistry, () => this.getCircuitBreakerStates());
+    }
   }
 
   /**
    * Extract receipt data using hybrid strategy
    */
   async extractReceipt(input: OcrInput): Promise<OcrResult> {
-    const { imageBase64, correlationId } = input;
+    // Everything below - classification, provider calls, attempts - is a child of this span
+    const span = this.tracer.startSpan('hybrid.extractReceipt', {
+      parent: input.traceParent,
+      attributes: { 'ocr.correlation_id': input.correlationId, 'ocr.client_id': input.clientId },
+    });
 
-    console.log(`[Hybrid] Starting OCR for ${correlationId}`);
+    let route: ReceiptRoute | undefined;
+
+    try {
+      const plan = await this.planReceipt({ ...input, traceParent: span.context });
+      route = plan.route;
+      span.setAttributes({ 'ocr.route': route });
+
+      const result = route === 'simple'
+        ? await this.processSimpleReceipt(plan.input, plan.classification)
+        : await this.processComplexReceipt(plan.input, plan.classification);
+      const provider = this.resultProviders.get(result);
+      span.setAttributes({
+        'ocr.outcome': 'success',
+        'ocr.provider': provider,
+        'ocr.model': result.usage?.model,
+        'ocr.confidence': result.confidence,
+      });
+      this.prometheus?.observeReceipt(input, route, provider, 'success');
+      this.recordReceiptResult(result);
+      return result;
+    } catch (error) {
+      span.recordError(error);
+      span.setAttributes({ 'ocr.outcome': errorOutcome(error) });
+      this.prometheus?.observeReceipt(input, route, undefined, errorOutcome(error));
+      throw error;
+    } finally {
+      this.countedReceipts.delete(input.correlationId);
+      span.end();
+    }
+  }
+
+  /**
+   * Apply the deadline, normalise the image, classify and pick a route
+   */
+  private async planReceipt(input: OcrInput): Promise<ReceiptPlan> {
+    const { correlationId } = input;
+
+    const log = this.logFor(input);
+    log.info('Hybrid OCR started');
+
+    // One signal for the whole receipt; the absolute deadline travels with the input
+    const deadline = input.deadline ?? (this.config.timeoutMs === undefined ? undefined : Date.now() + this.config.timeoutMs);
+    input = { ...input, deadline, signal: callSignal({ signal: input.signal, deadline }) };
+
+    // Step 0: Reject or normalise the image before anything is paid for
+    if (this.config.imageIntake) {
+      const image = await prepareReceiptImage(input.imageBase64, { ...this.config.imageIntake, correlationId });
+      if (image.transforms.length > 0) {
+        log.info('Hybrid image normalised', { transforms: image.transforms });
+      }
+      input = { ...input, imageBase64: image.imageBase64, imageFormat: image.imageFormat };
+    }
+    const { imageBase64 } = input;
 
     // Step 1: Classify receipt
-    const classification = await this.classifyReceipt(imageBase64);
-    console.log(`[Hybrid] Classification: ${classification.isSimple ? 'SIMPLE' : 'COMPLEX'} (confidence: ${classification.confidence.toFixed(2)})`);
+    const classification = await this.classifyReceipt(imageBase64, input.traceParent);
+    log.info('Hybrid receipt classified', {
+      isSimple: classification.isSimple,
+      confidence: classification.confidence,
+    });
 
     // Step 2: Route to appropriate adapter
-    if (classification.isSimple && classification.confidence >= this.config.simpleConfidenceThreshold) {
-      return await this.processSimpleReceipt(input, classification);
-    } else {
-      return await this.processComplexReceipt(input, classification);
+    if (
+      input.expectedDocumentType &&
+      this.config.claudeDocumentTypes.includes(input.expectedDocumentType)
+    ) {
+      log.info('Hybrid routing expected document type to Claude', { expectedDocumentType: input.expectedDocumentType });
+      return { input, classification, route: 'document_type' };
     }
+
+    const isSimple = classification.isSimple && classification.confidence >= this.config.simpleConfidenceThreshold;
+    return { input, classification, route: isSimple ? 'simple' : 'complex' };
   }
 
   /**
@@ -81,88 +244,431 @@ export class HybridOcrStrategy {
    */
   private async processSimpleReceipt(
     input: OcrInput,
-    classification: ReceiptClassification
+    classification: ReceiptClassification,
+    allowFallback: boolean = this.config.enableFallback
   ): Promise<OcrResult> {
     const { imageBase64, correlationId } = input;
-    this.metrics.simpleCount++;
 
-    console.log(`[Hybrid] Using Groq for simple receipt`);
+    const log = this.logFor(input);
+    log.info('Hybrid using Groq for simple receipt');
+
+    // Transient HTTP failures are already retried inside the adapter;
+    // these retries re-run the whole parse (new sample from the LLM),
+    // one ladder rung up each time while there is one
+    const ladder = this.config.modelLadder?.groq ?? [];
+    const maxAttempts = Math.max(1 + Math.max(0, this.config.maxGroqRetries), ladder.length);
+    let lastError: OcrError | undefined;
+    let lastResult: OcrResult | undefined;
+    let calledGroq = false;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const model = ladder[Math.min(attempt, ladder.length) - 1];
+      const canEscalate = attempt < ladder.length;
+      throwIfAborted(input.signal, { correlationId, provider: 'groq' });
+
+      // Over budget: throws (Groq is already the cheapest option)
+      const reservation = (await this.config.budget?.authorize('groq', input, this.config.estimatedCostThb.groq))?.reservation;
+
+      if (!this.breakers.groq.canRequest()) {
+        this.config.budget?.release(reservation);
+        log.warn('Hybrid skipping Groq: circuit open');
+        this.recordSkippedAttempt(input, 'groq');
+        lastError = new ProviderUnavailableError('Groq circuit open', {
+          correlationId,
+          provider: 'groq',
+        });
+        break;
+      }
 
-    try {
-      // Step 1: Extract raw text with PaddleOCR (or Google Vision)
-      // For this example, we'll simulate with a mock extractor
-      const rawText = await this.extractRawText(imageBase64);
+      // Counted once Groq is actually called, like complexCount for Claude
+      if (!calledGroq) {
+        calledGroq = true;
+        this.metrics.simpleCount++;
+      }
 
-      // Step 2: Parse with Groq
       const startTime = Date.now();
-      const result = await this.groqAdapter.parseReceiptText(rawText, correlationId);
-      const duration = Date.now() - startTime;
-
-      this.recordAttempt({
-        provider: 'groq',
-        success: true,
-        cost: 0.05,
-        duration,
-        result,
-      });
-
-      console.log(`[Hybrid] Groq success in ${duration}ms`);
-      return result;
-
-    } catch (error) {
-      console.warn(`[Hybrid] Groq failed: ${(error as Error).message}`);
-
-      this.recordAttempt({
-        provider: 'groq',
-        success: false,
-        cost: 0,
-        duration: 0,
-        error: (error as Error).message,
-      });
 
-      // Fallback to Claude
-      if (this.config.enableFallback) {
-        console.log(`[Hybrid] Falling back to Claude...`);
-        this.metrics.claudeFallbackRate++;
-        return await this.processComplexReceipt(input, classification);
-      } else {
-        throw error;
+      try {
+        // Step 1: Extract raw text with PaddleOCR (or Google Vision)
+        // For this example, we'll simulate with a mock extractor
+        const rawText = await raceAbort(this.extractRawText(imageBase64), input.signal, {
+          correlationId,
+          provider: 'paddle',
+        });
+
+        // Step 2: Parse with Groq
+        const result = this.applyValidation(
+          await this.groqAdapter.parseReceiptText(rawText, correlationId, {
+            clientId: input.clientId,
+            promptVariables: input.promptVariables,
+            model,
+            signal: input.signal,
+            deadline: input.deadline,
+            traceParent: input.traceParent,
+          }),
+          input,
+          rawText
+        );
+        const duration = Date.now() - startTime;
+
+        // Groq answered: the provider is healthy even if the output is not
+        this.breakers.groq.recordSuccess();
+
+        const price = this.priceAttempt('groq', result);
+        await this.config.budget?.recordSpend(input.clientId, price.cost, reservation);
+
+        const rejection = this.rejectionReason(result, canEscalate);
+        if (!rejection) {
+          this.recordAttempt(input, {
+            provider: 'groq',
+            success: true,
+            ...price,
+            model: model ?? result.usage?.model,
+            duration,
+            result,
+            prompt: result.prompt,
+          });
+
+          log.info('Hybrid Groq success', { durationMs: duration, attempt, maxAttempts, model });
+
+          // Tax documents Groq recognises are re-read by Claude
+          if (
+            allowFallback &&
+            result.documentType &&
+            this.config.claudeDocumentTypes.includes(result.documentType)
+          ) {
+            log.info('Hybrid escalating Groq-classified document to Claude', { documentType: result.documentType });
+            return await this.processComplexReceipt(input, classification, false);
+          }
+
+          return result;
+        }
+
+        // A schema-invalid or non-reconciling Groq result is a failed attempt,
+        // not a success: it never reaches the ledger without a retry or Claude fallback
+        log.warn('Hybrid Groq result rejected', { attempt, maxAttempts, model, reason: rejection });
+
+        this.recordAttempt(input, {
+          provider: 'groq',
+          success: false,
+          ...price,
+          model: model ?? result.usage?.model,
+          duration,
+          result,
+          prompt: result.prompt,
+          error: rejection,
+        });
+
+        lastResult = result;
+        lastError = undefined;
+      } catch (error) {
+        this.config.budget?.release(reservation);
+        const ocrError = this.toAttemptError(error, input, 'groq');
+        log.warn('Hybrid Groq failed', {
+          attempt,
+          maxAttempts,
+          model,
+          error: ocrError.message,
+          errorType: ocrError.name,
+        });
+        this.recordBreakerOutcome('groq', ocrError, input);
+
+        this.recordAttempt(input, {
+          provider: 'groq',
+          success: false,
+          cost: 0,
+          model,
+          duration: Date.now() - startTime,
+          error: ocrError.message,
+          errorType: ocrError.name,
+        });
+
+        lastError = ocrError;
+
+        // Out of time or cancelled: no re-run and no Claude fallback either
+        if (input.signal?.aborted) throw ocrError;
+
+        // Permanent failures (e.g. bad API key) won't improve on a re-run
+        if (!ocrError.retryable) break;
       }
     }
+
+    // Fallback to Claude (no bounce back to Groq from there)
+    if (allowFallback) {
+      log.info('Hybrid falling back to Claude');
+      this.metrics.claudeFallbackRate++;
+      return await this.processComplexReceipt(input, classification, false);
+    }
+
+    // No fallback: hand back the invalid result (violations attached) so the
+    // caller can reject, repair or review it; rethrow hard failures
+    if (lastError || !lastResult) throw lastError;
+    return lastResult;
   }
 
   /**
    * Process complex receipt (Claude path)
+   * 
+   * If Claude's circuit is open, the receipt is routed to Groq instead
+   * (when allowed) rather than paying for a request that will fail.
+   * With a Claude model ladder, each rung after the first is a re-run of
+   * the receipt on a stronger model (see processClaudeLadder).
    */
   private async processComplexReceipt(
     input: OcrInput,
-    classification: ReceiptClassification
+    classification: ReceiptClassification,
+    allowFallback: boolean = this.config.enableFallback
   ): Promise<OcrResult> {
+    const log = this.logFor(input);
+    throwIfAborted(input.signal, { correlationId: input.correlationId, provider: 'claude' });
+
+    // Checked before the breaker so a refused call does not hold a half-open probe slot
+    const budget = await this.config.budget?.authorize('claude', input, this.config.estimatedCostThb.claude);
+    if (budget?.action === 'downgrade') {
+      log.warn('Hybrid skipping Claude: budget nearly spent', { scope: budget.limit!.scope, period: budget.limit!.period });
+      this.recordSkippedAttempt(input, 'claude', `Budget policy downgrade: ${budget.limit!.scope} ${budget.limit!.period}`);
+
+      if (allowFallback) {
+        log.info('Hybrid downgrading to Groq');
+        return await this.processSimpleReceipt(input, classification, false);
+      }
+      throw this.config.budget!.exceededError(budget, input.correlationId);
+    }
+
+    if (!this.breakers.claude.canRequest()) {
+      this.config.budget?.release(budget?.reservation);
+      log.warn('Hybrid skipping Claude: circuit open');
+      this.recordSkippedAttempt(input, 'claude');
+
+      if (allowFallback) {
+        log.info('Hybrid routing to Groq while Claude is unavailable');
+        return await this.processSimpleReceipt(input, classification, false);
+      }
+      throw new ProviderUnavailableError('No OCR provider available: Claude circuit open', {
+        correlationId: input.correlationId,
+        provider: 'claude',
+      });
+    }
+
     this.metrics.complexCount++;
 
-    console.log(`[Hybrid] Using Claude for complex receipt`);
+    log.info('Hybrid using Claude for complex receipt');
+    return await this.processClaudeLadder(input, budget?.reservation);
+  }
 
-    const startTime = Date.now();
-    const result = await this.claudeAdapter.extractReceiptFromImage(input);
-    const duration = Date.now() - startTime;
+  /**
+   * Run Claude rung by rung up the ladder (one rung when none is configured)
+   * 
+   * The first rung has already passed the budget and breaker checks. A
+   * later rung that the budget or breaker refuses ends the climb: the
+   * previous rung's result is returned rather than discarded (or the
+   * refusal thrown when every earlier rung failed outright).
+   * 
+   * @param reservation - The first rung's budget reservation
+   */
+  private async processClaudeLadder(input: OcrInput, reservation?: BudgetReservation): Promise<OcrResult> {
+    const log = this.logFor(input);
+    const ladder = this.config.modelLadder?.claude ?? [];
+    const rungs = Math.max(1, ladder.length);
+    let previous: OcrResult | undefined;
+
+    for (let rung = 1; rung <= rungs; rung++) {
+      const model = ladder[rung - 1];
+      const canEscalate = rung < rungs;
+
+      if (rung > 1) {
+        if (input.signal?.aborted) {
+          log.warn('Hybrid out of time before next rung', { model });
+          if (previous) return previous;
+          throwIfAborted(input.signal, { correlationId: input.correlationId, provider: 'claude' });
+        }
+
+        // With a result in hand, a refusal must not throw it away: reserve, don't enforce
+        const budget = previous
+          ? await this.config.budget?.reserve('claude', input.clientId, this.config.estimatedCostThb.claude)
+          : await this.config.budget?.authorize('claude', input, this.config.estimatedCostThb.claude);
+        reservation = budget?.reservation;
+        const refusal = budget && budget.action !== 'allow'
+          ? `Budget policy ${budget.action}: ${budget.limit!.scope} ${budget.limit!.period}`
+          : this.breakers.claude.canRequest() ? undefined : 'Circuit open for claude';
+
+        if (refusal) {
+          this.config.budget?.release(reservation);
+          log.warn('Hybrid cannot escalate', { model, reason: refusal });
+          this.recordSkippedAttempt(input, 'claude', refusal);
+          if (previous) return previous;
+          throw budget && budget.action !== 'allow'
+            ? this.config.budget!.exceededError(budget, input.correlationId)
+            : new ProviderUnavailableError('No OCR provider available: Claude circuit open', {
+                correlationId: input.correlationId,
+                provider: 'claude',
+              });
+        }
+        log.info('Hybrid escalating to next rung', { model });
+      }
+
+      const startTime = Date.now();
+      let result: OcrResult;
+      try {
+        result = this.applyValidation(
+          await this.claudeAdapter.extractReceiptFromImage(model ? { ...input, model } : input),
+          input
+        );
+      } catch (error) {
+        this.config.budget?.release(reservation);
+        const ocrError = this.toAttemptError(error, input, 'claude');
+        this.recordBreakerOutcome('claude', ocrError, input);
+        this.recordAttempt(input, {
+          provider: 'claude',
+          success: false,
+          cost: 0,
+          model,
+          duration: Date.now() - startTime,
+          error: ocrError.message,
+          errorType: ocrError.name,
+        });
+
+        // A malformed answer from a cheaper model is worth a stronger one
+        if (canEscalate && ocrError instanceof InvalidResponseError) continue;
+        throw ocrError;
+      }
+      const duration = Date.now() - startTime;
+      this.breakers.claude.recordSuccess();
+
+      const price = this.priceAttempt('claude', result);
+      await this.config.budget?.recordSpend(input.clientId, price.cost, reservation);
+
+      // Claude is the last resort: the top rung's result stands, violations attached
+      const rejection = canEscalate ? this.rejectionReason(result, true) : undefined;
+      this.recordAttempt(input, {
+        provider: 'claude',
+        success: !rejection,
+        ...price,
+        model: model ?? result.usage?.model,
+        duration,
+        result,
+        prompt: result.prompt,
+        error: rejection,
+      });
 
-    this.recordAttempt({
+      if (!rejection) {
+        log.info('Hybrid Claude success', { durationMs: duration, model });
+        return result;
+      }
+      log.warn('Hybrid Claude result rejected', { rung, rungs, model, reason: rejection });
+      previous = result;
+    }
+
+    // Unreachable: the top rung returns or throws
+    throw new ProviderUnavailableError('Claude model ladder exhausted', {
+      correlationId: input.correlationId,
       provider: 'claude',
-      success: true,
-      cost: 0.50,
-      duration,
-      result,
     });
+  }
 
-    console.log(`[Hybrid] Claude success in ${duration}ms`);
-    return result;
+  /**
+   * Why a result must not be accepted, or undefined to accept it
+   * 
+   * Validation and reconciliation failures always count. Low confidence
+   * only counts while a stronger ladder rung is left to try.
+   */
+  private rejectionReason(result: OcrResult, canEscalate: boolean): string | undefined {
+    if (result.violations!.length > 0) {
+      return `Validation failed: ${result.violations!.map(v => `${v.field} (${v.rule})`).join(', ')}`;
+    }
+    if (!result.reconciliation!.isConsistent) {
+      return `Reconciliation failed: ${summarizeReconciliation(result.reconciliation!)}`;
+    }
+    const confidence = result.confidence ?? 0;
+    if (canEscalate && confidence < this.config.escalationConfidenceThreshold) {
+      return `Confidence ${confidence.toFixed(2)} below ${this.config.escalationConfidenceThreshold}`;
+    }
+    return undefined;
+  }
+
+  /**
+   * What a call cost, from the tokens the provider billed
+   * 
+   * Cache hits are free. Results without usage (mocks, third-party
+   * adapters) or from a model missing in the price table are charged
+   * estimatedCostThb and flagged, so reports can tell measured from assumed.
+   */
+  private priceAttempt(
+    provider: 'groq' | 'claude',
+    result: OcrResult
+  ): Pick<OcrAttempt, 'cost' | 'costUsd' | 'usage' | 'costEstimated' | 'cached'> {
+    if (result.cache) return { cost: 0, costUsd: 0, cached: true };
+
+    const cost = result.usage ? costOfUsage(result.usage, this.pricing) : null;
+    if (!cost) {
+      return { cost: this.config.estimatedCostThb[provider], usage: result.usage, costEstimated: true };
+    }
+    return { cost: cost.thb, costUsd: cost.usd, usage: result.usage };
+  }
+
+  /**
+   * Normalise what a provider call threw; an adapter that rejects with
+   * the raw abort reason still yields OcrTimeoutError / OcrCancelledError
+   */
+  private toAttemptError(error: unknown, input: OcrInput, provider: 'groq' | 'claude'): OcrError {
+    const context = { correlationId: input.correlationId, provider };
+    return input.signal?.aborted && !(error instanceof OcrError)
+      ? abortedError(input.signal, context)
+      : toOcrError(error, context);
+  }
+
+  /**
+   * Feed a failed call into the provider's circuit breaker
+   * 
+   * Only provider-side faults count: a malformed answer or a rejected
+   * image means the provider is up and responding. A call cut off by the
+   * receipt's own deadline or cancellation counts neither way.
+   */
+  private recordBreakerOutcome(provider: 'groq' | 'claude', error: OcrError, input: OcrInput): void {
+    if (input.signal?.aborted) {
+      this.breakers[provider].release();
+    } else if (error instanceof InvalidResponseError || error instanceof ImageRejectedError) {
+      this.breakers[provider].recordSuccess();
+    } else {
+      this.breakers[provider].recordFailure();
+    }
+  }
+
+  /**
+   * Run date normalisation, the shared schema validator and arithmetic
+   * reconciliation on a provider result
+   * 
+   * Adapters check their own output, but mocks and third-party
+   * adapters may not - re-checking here keeps the guarantee in one place.
+   * Reconciliation is idempotent: it starts from the provider's own confidence.
+   * 
+   * @param ocrText - Text the result was parsed from (default: result.rawText)
+   */
+  private applyValidation(result: OcrResult, input: OcrInput, ocrText?: string): OcrResult {
+    if (!result.dateNormalization) {
+      normalizeIssueDate(result, { rawText: ocrText });
+    }
+    result.violations = validateReceiptOcrResult(result, {
+      closedPeriodEnd: input.closedPeriodEnd,
+    });
+    if (result.reconciliation) {
+      result.confidence = result.reconciliation.originalConfidence;
+    }
+    return applyReconciliation(result);
   }
 
   /**
    * Classify receipt as simple or complex
    */
-  private async classifyReceipt(imageBase64: string): Promise<ReceiptClassification> {
-    return await this.detector.classify(imageBase64);
+  private async classifyReceipt(imageBase64: string, traceParent?: SpanContext): Promise<ReceiptClassification> {
+    return await this.detector.classify(imageBase64, traceParent);
+  }
+
+  /**
+   * Logger for one receipt's lines
+   */
+  private logFor(input: OcrInput): Logger {
+    return this.logger.child({ correlationId: input.correlationId, clientId: input.clientId });
   }
 
   /**
@@ -188,46 +694,174 @@ export class HybridOcrStrategy {
 เวลา 14:35`;
   }
 
+  /**
+   * Record a provider that was skipped (circuit open, budget downgrade)
+   * - kept in the history, but not counted as a processed receipt
+   */
+  private recordSkippedAttempt(
+    input: OcrInput,
+    provider: 'groq' | 'claude',
+    error = `Circuit open for ${provider}`
+  ): void {
+    const attempt: OcrAttempt = {
+      provider,
+      success: false,
+      cost: 0,
+      duration: 0,
+      skipped: true,
+      error,
+    };
+    this.traceAttempt(input, attempt);
+    this.prometheus?.observeAttempt(input, attempt);
+    if (!this.config.enableMetrics) return;
+
+    this.storeAttempt(input, attempt);
+  }
+
+  /**
+   * Span for a finished attempt, back-dated to when it started
+   * 
+   * Carries the cost under the strategy's pricing and the validation
+   * outcome, which the adapter's own span cannot know.
+   */
+  private traceAttempt(input: OcrInput, attempt: OcrAttempt): void {
+    const span = this.tracer.startSpan('hybrid.attempt', {
+      parent: input.traceParent,
+      startTimeMs: Date.now() - attempt.duration,
+      attributes: {
+        'ocr.correlation_id': input.correlationId,
+        'ocr.provider': attempt.provider,
+        'ocr.model': attempt.model,
+        'ocr.input_tokens': attempt.usage?.inputTokens,
+        'ocr.output_tokens': attempt.usage?.outputTokens,
+        'ocr.cost_thb': attempt.cost,
+        'ocr.cost_usd': attempt.costUsd,
+        'ocr.cost_estimated': attempt.costEstimated,
+        'ocr.cached': attempt.cached,
+        'ocr.outcome': attemptOutcome(attempt),
+        'ocr.error': attempt.error,
+      },
+    });
+    span.end();
+  }
+
   /**
    * Record OCR attempt for metrics
    */
-  private recordAttempt(attempt: OcrAttempt): void {
+  private recordAttempt(input: OcrInput, attempt: OcrAttempt): void {
+    if (attempt.result) this.resultProviders.set(attempt.result, attempt.provider);
+    this.traceAttempt(input, attempt);
+    this.prometheus?.observeAttempt(input, attempt);
     if (!this.config.enableMetrics) return;
 
-    this.attempts.push(attempt);
-    this.metrics.totalReceipts++;
+    const record = this.storeAttempt(input, attempt);
+    // A receipt counts once, however many attempts (Groq retries, ladder rungs, fallback) it took
+    if (!this.countedReceipts.has(input.correlationId)) {
+      this.countedReceipts.add(input.correlationId);
+      this.metrics.totalReceipts++;
+    }
     this.metrics.totalCost += attempt.cost;
+    this.metrics.totalCostUsd += attempt.costUsd ?? 0;
+    this.metrics.inputTokens += attempt.usage?.inputTokens ?? 0;
+    this.metrics.outputTokens += attempt.usage?.outputTokens ?? 0;
+    if (attempt.costEstimated) this.metrics.estimatedCostCount++;
+    if (attempt.cached) this.metrics.cacheHits++;
+    this.updateMetrics(record);
+  }
+
+  /**
+   * Count a finished receipt for the manual review rate
+   * 
+   * Only the result the caller gets back counts: a rejected Groq result
+   * that Claude then fixed does not need review.
+   */
+  private recordReceiptResult(result: OcrResult): void {
+    if (!this.config.enableMetrics) return;
+    if (this.needsManualReview(result)) this.tallies.reviewCount++;
     this.updateMetrics();
   }
 
   /**
-   * Update calculated metrics
+   * Add an attempt to the in-memory history and the configured store
+   * 
+   * A failed store write is logged, never thrown: losing a history line
+   * must not fail the receipt.
    */
-  private updateMetrics(): void {
-    const groqAttempts = this.attempts.filter(a => a.provider === 'groq');
-    const groqSuccess = groqAttempts.filter(a => a.success).length;
-    
-    this.metrics.groqSuccessRate = groqAttempts.length > 0 
-      ? groqSuccess / groqAttempts.length 
+  private storeAttempt(input: OcrInput, attempt: OcrAttempt): AttemptRecord {
+    const record: AttemptRecord = {
+      ...attempt,
+      at: Date.now(),
+      correlationId: input.correlationId,
+      clientId: input.clientId,
+      needsReview: attempt.result ? this.needsManualReview(attempt.result) : undefined,
+    };
+    this.history.push(record);
+
+    const store = this.config.attemptStore;
+    if (store) {
+      this.storeWrites = this.storeWrites.then(() =>
+        store.append(record).catch((error) => {
+          this.logFor(input).warn('Attempt store write failed', {
+            provider: attempt.provider,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        })
+      );
+    }
+    return record;
+  }
+
+  /**
+   * Update calculated metrics, with one more attempt when given
+   */
+  private updateMetrics(record?: AttemptRecord): void {
+    const t = this.tallies;
+    if (record?.provider === 'groq' && !record.skipped) {
+      t.groqAttempts++;
+      if (record.success) t.groqSuccesses++;
+    }
+    if (record?.provider === 'claude' && record.usage && !record.costEstimated && !record.cached) {
+      t.measuredClaudeCount++;
+      t.measuredClaudeCost += record.cost;
+    }
+
+    this.metrics.groqSuccessRate = t.groqAttempts > 0 
+      ? t.groqSuccesses / t.groqAttempts 
       : 0;
 
     this.metrics.avgCostPerReceipt = this.metrics.totalReceipts > 0
       ? this.metrics.totalCost / this.metrics.totalReceipts
       : 0;
 
-    // Calculate savings vs Claude-only
-    const claudeOnlyCost = this.metrics.totalReceipts * 0.50;
-    this.metrics.savingsVsClaudeOnly = claudeOnlyCost - this.metrics.totalCost;
+    // Savings vs Claude-only, priced at the measured average Claude call
+    // (the estimate until a Claude call has reported its usage)
+    const claudeCostPerCall = t.measuredClaudeCount > 0
+      ? t.measuredClaudeCost / t.measuredClaudeCount
+      : this.config.estimatedCostThb.claude;
+    this.metrics.claudeOnlyCost = this.metrics.totalReceipts * claudeCostPerCall;
+    this.metrics.savingsVsClaudeOnly = this.metrics.claudeOnlyCost - this.metrics.totalCost;
 
-    // Manual review rate (low confidence results)
-    const lowConfidenceCount = this.attempts.filter(
-      a => a.result && (a.result.confidence || 0) < 0.95
-    ).length;
+    // Manual review rate: receipts whose returned result needs review
     this.metrics.manualReviewRate = this.metrics.totalReceipts > 0
-      ? lowConfidenceCount / this.metrics.totalReceipts
+      ? t.reviewCount / this.metrics.totalReceipts
       : 0;
   }
 
+  /**
+   * Whether a result must be checked by a person before posting
+   * 
+   * Based on the weakest critical field rather than the overall score:
+   * a perfect vendor name does not make up for an unreadable VAT amount.
+   * Schema violations and failed reconciliation always need review.
+   */
+  needsManualReview(result: OcrResult): boolean {
+    if ((result.violations?.length ?? 0) > 0) return true;
+    if (result.reconciliation?.isConsistent === false) return true;
+
+    const weakest = weakestCriticalField(result);
+    return !weakest || weakest.confidence < this.config.reviewConfidenceThreshold;
+  }
+
   /**
    * Get current metrics
    */
@@ -236,18 +870,56 @@ export class HybridOcrStrategy {
   }
 
   /**
-   * Get detailed attempt history
+   * Get detailed attempt history (the newest attemptHistoryLimit attempts)
    */
-  getAttempts(): OcrAttempt[] {
-    return [...this.attempts];
+  getAttempts(): AttemptRecord[] {
+    return this.history.recent();
   }
 
   /**
-   * Reset metrics (useful for testing)
+   * Query attempts, oldest first - from config.attemptStore when set,
+   * otherwise from the in-memory history
+   */
+  async queryAttempts(query: AttemptQuery = {}): Promise<AttemptRecord[]> {
+    await this.storeWrites;
+    return (this.config.attemptStore ?? this.history).query(query);
+  }
+
+  /**
+   * Metrics over the last hour, day or month (30 days), optionally for
+   * one client or provider
+   * 
+   * @param now - End of the window (default: now)
+   */
+  async getRollingMetrics(
+    window: AttemptWindow,
+    query: Omit<AttemptQuery, 'from' | 'to' | 'limit'> = {},
+    now = Date.now()
+  ): Promise<AttemptSummary> {
+    // `to` is exclusive: + 1 keeps an attempt recorded at `now`
+    const records = await this.queryAttempts({ ...query, from: now - ROLLING_WINDOWS_MS[window], to: now + 1 });
+    return summarizeAttempts(records);
+  }
+
+  /**
+   * Get circuit breaker state per provider (for dashboards)
+   */
+  getCircuitBreakerStates(): Record<'groq' | 'claude', CircuitBreakerSnapshot> {
+    return {
+      groq: this.breakers.groq.snapshot(),
+      claude: this.breakers.claude.snapshot(),
+    };
+  }
+
+  /**
+   * Reset metrics and the in-memory history (useful for testing);
+   * config.attemptStore is left alone
    */
   resetMetrics(): void {
     this.metrics = this.initMetrics();
-    this.attempts = [];
+    this.tallies = HybridOcrStrategy.initTallies();
+    this.countedReceipts.clear();
+    this.history.clear();
   }
 
   /**
@@ -263,7 +935,23 @@ export class HybridOcrStrategy {
       totalCost: 0,
       avgCostPerReceipt: 0,
       savingsVsClaudeOnly: 0,
+      claudeOnlyCost: 0,
+      totalCostUsd: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      estimatedCostCount: 0,
       manualReviewRate: 0,
+      cacheHits: 0,
+    };
+  }
+
+  private static initTallies() {
+    return {
+      groqAttempts: 0,
+      groqSuccesses: 0,
+      measuredClaudeCount: 0,
+      measuredClaudeCost: 0,
+      reviewCount: 0,
     };
   }
 
@@ -283,11 +971,16 @@ export class HybridOcrStrategy {
     console.log(`Groq Success Rate:  ${(m.groqSuccessRate * 100).toFixed(0)}%`);
     console.log(`Claude Fallback:    ${m.claudeFallbackRate} times`);
     console.log('');
-    console.log(`Total Cost:         ฿${m.totalCost.toFixed(2)}`);
+    console.log(`Total Cost:         ฿${m.totalCost.toFixed(2)} ($${m.totalCostUsd.toFixed(4)} measured)`);
     console.log(`Avg Cost/Receipt:   ฿${m.avgCostPerReceipt.toFixed(2)}`);
-    console.log(`Savings vs Claude:  ฿${m.savingsVsClaudeOnly.toFixed(2)} (${(m.savingsVsClaudeOnly/(m.totalReceipts*0.50)*100).toFixed(0)}%)`);
+    console.log(`Savings vs Claude:  ฿${m.savingsVsClaudeOnly.toFixed(2)} (${(m.savingsVsClaudeOnly/m.claudeOnlyCost*100).toFixed(0)}%)`);
+    console.log(`Tokens:             ${m.inputTokens} in / ${m.outputTokens} out`);
+    if (m.estimatedCostCount > 0) {
+      console.log(`Estimated Costs:    ${m.estimatedCostCount} attempts (no usage reported)`);
+    }
     console.log('');
     console.log(`Manual Review Rate: ${(m.manualReviewRate * 100).toFixed(0)}%`);
+    console.log(`Cache Hits:         ${m.cacheHits} (฿0.00 each)`);
     console.log('═'.repeat(50) + '\n');
   }
 }
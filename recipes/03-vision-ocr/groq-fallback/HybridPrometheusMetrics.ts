@@ -0,0 +1,156 @@
+/**
+ * Hybrid Prometheus Metrics
+ *
+ * The metric families HybridOcrStrategy records into a MetricsRegistry
+ * (config.metricsRegistry). Same numbers as getMetrics(), but per label
+ * and scrapeable:
+ *
+ *   ocr_receipts_total{route,provider,outcome,client}   counter
+ *   ocr_attempts_total{provider,model,outcome}          counter
+ *   ocr_attempt_duration_seconds{provider,outcome}      histogram
+ *   ocr_attempt_cost_thb{provider}                      histogram
+ *   ocr_spend_thb_total{provider,client}                counter
+ *   ocr_tokens_total{provider,direction}                counter
+ *   ocr_circuit_breaker_state{provider}                 gauge (0 closed, 1 half-open, 2 open)
+ *
+ * Grafana queries:
+ *
+ *   Fallback rate (simple receipts Claude had to finish):
+ *     sum(rate(ocr_receipts_total{route="simple",provider="claude"}[1h]))
+ *       / sum(rate(ocr_receipts_total{route="simple"}[1h]))
+ *   Spend per client today:
+ *     sum by (client) (increase(ocr_spend_thb_total[1d]))
+ *   Groq p95 latency:
+ *     histogram_quantile(0.95, sum by (le) (rate(ocr_attempt_duration_seconds_bucket{provider="groq"}[5m])))
+ *
+ * provider="none" on a receipt means it failed before any result; client
+ * is "none" when the input has no clientId.
+ */
+
+import type { Counter, Histogram, MetricsRegistry } from '../receipt-extraction/metrics';
+import { DEFAULT_LATENCY_BUCKETS } from '../receipt-extraction/metrics';
+import type {
+  CircuitBreakerSnapshot,
+  CircuitState,
+  OcrAttempt,
+  OcrInput,
+  ReceiptRoute,
+} from './types';
+
+/** Baht per call: a cache hit (0) up to a long Claude ladder */
+export const COST_BUCKETS_THB = [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2, 5];
+
+const BREAKER_STATE_VALUE: Record<CircuitState, number> = {
+  closed: 0,
+  'half-open': 1,
+  open: 2,
+};
+
+export class HybridPrometheusMetrics {
+  private receipts: Counter;
+  private attempts: Counter;
+  private attemptDuration: Histogram;
+  private attemptCost: Histogram;
+  private spend: Counter;
+  private tokens: Counter;
+
+  /**
+   * @param breakerStates - Read on every scrape for the breaker gauge
+   */
+  constructor(
+    registry: MetricsRegistry,
+    breakerStates: () => Record<'groq' | 'claude', CircuitBreakerSnapshot>
+  ) {
+    this.receipts = registry.counter({
+      name: 'ocr_receipts_total',
+      help: 'Receipts processed, by first route, provider of the returned result, outcome and client',
+      labelNames: ['route', 'provider', 'outcome', 'client'],
+    });
+    this.attempts = registry.counter({
+      name: 'ocr_attempts_total',
+      help: 'Provider attempts, including rejected results and skipped calls',
+      labelNames: ['provider', 'model', 'outcome'],
+    });
+    this.attemptDuration = registry.histogram({
+      name: 'ocr_attempt_duration_seconds',
+      help: 'Provider attempt latency',
+      labelNames: ['provider', 'outcome'],
+      buckets: DEFAULT_LATENCY_BUCKETS,
+    });
+    this.attemptCost = registry.histogram({
+      name: 'ocr_attempt_cost_thb',
+      help: 'Cost of one provider attempt in Baht',
+      labelNames: ['provider'],
+      buckets: COST_BUCKETS_THB,
+    });
+    this.spend = registry.counter({
+      name: 'ocr_spend_thb_total',
+      help: 'Baht spent on provider calls',
+      labelNames: ['provider', 'client'],
+    });
+    this.tokens = registry.counter({
+      name: 'ocr_tokens_total',
+      help: 'Tokens reported by providers',
+      labelNames: ['provider', 'direction'],
+    });
+    registry.gauge({
+      name: 'ocr_circuit_breaker_state',
+      help: 'Circuit breaker state: 0 closed, 1 half-open, 2 open',
+      labelNames: ['provider'],
+      collect: (gauge) => {
+        for (const [provider, snapshot] of Object.entries(breakerStates())) {
+          gauge.set({ provider }, BREAKER_STATE_VALUE[snapshot.state]);
+        }
+      },
+    });
+  }
+
+  /**
+   * One finished receipt
+   *
+   * @param route - undefined when it failed before routing (e.g. image rejected)
+   * @param provider - Provider of the returned result, undefined on failure
+   * @param outcome - 'success' or the error class name
+   */
+  observeReceipt(
+    input: OcrInput,
+    route: ReceiptRoute | undefined,
+    provider: OcrAttempt['provider'] | undefined,
+    outcome: string
+  ): void {
+    this.receipts.inc({
+      route: route ?? 'none',
+      provider: provider ?? 'none',
+      outcome,
+      client: input.clientId ?? 'none',
+    });
+  }
+
+  /**
+   * One recorded attempt (skipped ones count, but have no latency or cost)
+   */
+  observeAttempt(input: OcrInput, attempt: OcrAttempt): void {
+    const outcome = attemptOutcome(attempt);
+    this.attempts.inc({ provider: attempt.provider, model: attempt.model ?? 'default', outcome });
+    if (attempt.skipped) return;
+
+    this.attemptDuration.observe({ provider: attempt.provider, outcome }, attempt.duration / 1000);
+    this.attemptCost.observe({ provider: attempt.provider }, attempt.cost);
+    if (attempt.cost > 0) {
+      this.spend.inc({ provider: attempt.provider, client: input.clientId ?? 'none' }, attempt.cost);
+    }
+    if (attempt.usage) {
+      this.tokens.inc({ provider: attempt.provider, direction: 'input' }, attempt.usage.inputTokens);
+      this.tokens.inc({ provider: attempt.provider, direction: 'output' }, attempt.usage.outputTokens);
+    }
+  }
+}
+
+/**
+ * success / skipped / the error class / rejected (answered, but failed validation)
+ */
+export function attemptOutcome(attempt: OcrAttempt): string {
+  if (attempt.success) return 'success';
+  if (attempt.skipped) return 'skipped';
+  return attempt.errorType ?? 'rejected';
+}
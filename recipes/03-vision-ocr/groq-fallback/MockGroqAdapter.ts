@@ -1,9 +1,28 @@
-export class MockGroqAdapter {
-  async parseReceiptText(rawText: string, correlationId: string) {
-    // Simulate Groq parsing (lower confidence than Claude)
-    await new Promise(r => setTimeout(r, 100)); // Faster than Claude
-    
-    return {
+/**
+ * Mock Groq Adapter (DEV mode)
+ * 
+ * Same interface as GroqTextAdapter. Fixtures are keyed by the hash of
+ * the OCR text, so fallback paths (429, 529, invalid JSON, timeouts,
+ * low confidence) can be scripted per receipt - see
+ * receipt-extraction/mockFixtures.ts for the fixture format.
+ */
+
+import type { GroqAdapter, GroqParseOptions, OcrResult } from './types';
+import { contentHash } from '../receipt-extraction/hash';
+import { MockFixturePlayer } from '../receipt-extraction/mockFixtures';
+import type { MockFixtureOptions } from '../receipt-extraction/mockFixtures';
+import { callSignal } from '../receipt-extraction/deadline';
+
+export class MockGroqAdapter implements GroqAdapter {
+  private fixtures: MockFixturePlayer;
+
+  constructor(options: MockFixtureOptions = {}) {
+    // Faster than Claude (200ms)
+    this.fixtures = new MockFixturePlayer('groq', 100, options);
+  }
+
+  async parseReceiptText(rawText: string, correlationId: string, options: GroqParseOptions = {}): Promise<OcrResult> {
+    return this.fixtures.play(contentHash(rawText), correlationId, () => ({
       amountSatang: 8560,
       currency: 'THB',
       vatAmountSatang: 560,
@@ -11,6 +30,6 @@ export class MockGroqAdapter {
       issueDate: '2026-01-22',
       rawText,
       confidence: 0.88, // Lower than Claude (0.95)
-    };
+    }), callSignal(options));
   }
-}
\ No newline at end of file
+}
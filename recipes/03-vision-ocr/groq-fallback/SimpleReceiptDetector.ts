@@ -7,6 +7,10 @@
  */
 
 import type { ReceiptClassification } from './types';
+import { createLogger } from '../receipt-extraction/logger';
+import type { Logger } from '../receipt-extraction/logger';
+import { NOOP_TRACER } from '../receipt-extraction/tracing';
+import type { SpanContext, Tracer } from '../receipt-extraction/tracing';
 
 export class SimpleReceiptDetector {
   private config: {
@@ -14,8 +18,16 @@ export class SimpleReceiptDetector {
     textDensityThreshold: number;
     minConfidence: number;
   };
+  private logger: Logger;
+  private tracer: Tracer;
 
-  constructor(config?: Partial<typeof SimpleReceiptDetector.prototype.config>) {
+  constructor(
+    config?: Partial<typeof SimpleReceiptDetector.prototype.config>,
+    logger?: Logger,
+    tracer?: Tracer
+  ) {
+    this.logger = logger ?? createLogger({ MODE: 'PROD', LOG_LEVEL: 'warn' });
+    this.tracer = tracer ?? NOOP_TRACER;
     this.config = {
       brightnessThreshold: 0.6,
       textDensityThreshold: 0.4,
@@ -28,9 +40,12 @@ export class SimpleReceiptDetector {
    * Classify receipt image
    * 
    * @param imageBase64 - Base64-encoded image
+   * @param traceParent - Span the classify span belongs to
    * @returns Classification result
    */
-  async classify(imageBase64: string): Promise<ReceiptClassification> {
+  async classify(imageBase64: string, traceParent?: SpanContext): Promise<ReceiptClassification> {
+    const span = this.tracer.startSpan('detector.classify', { parent: traceParent });
+
     // In a real implementation, this would:
     // 1. Decode image
     // 2. Analyze brightness/contrast
@@ -43,6 +58,9 @@ export class SimpleReceiptDetector {
     // Decision logic
     const isSimple = this.evaluateSimplicity(features);
     const confidence = this.calculateConfidence(features);
+    this.logger.debug('SimpleReceiptDetector.classify', { isSimple, confidence, features });
+    span.setAttributes({ 'ocr.is_simple': isSimple, 'ocr.classification_confidence': confidence });
+    span.end();
     
     return {
       isSimple,
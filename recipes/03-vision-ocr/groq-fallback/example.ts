@@ -6,22 +6,41 @@
 
 import { HybridOcrStrategy } from './HybridOcrStrategy';
 import { GroqTextAdapter } from './GroqTextAdapter';
+import type { GroqConfig } from './GroqTextAdapter';
 import { MockGroqAdapter } from './MockGroqAdapter';
 import { createClaudeAdapter } from '../receipt-extraction/claudeAdapter';
 import type { AppConfig } from '../receipt-extraction/types';
+import { DEFAULT_CASSETTE_DIR } from '../receipt-extraction/cassette';
+import { createOtlpTracer } from '../receipt-extraction/tracing';
 
 // ============================================================================
 // Configuration
 // ============================================================================
 
+// Spans go to a local collector when one is configured (e.g. Jaeger on :4318)
+const tracer = process.env.OTEL_EXPORTER_OTLP_ENDPOINT
+  ? createOtlpTracer({ endpoint: process.env.OTEL_EXPORTER_OTLP_ENDPOINT, serviceName: 'hybrid-ocr-example' })
+  : undefined;
+
 const config: AppConfig = {
-  MODE: (process.env.APP_MODE as 'DEV' | 'PROD') || 'DEV',
+  MODE: (process.env.APP_MODE as AppConfig['MODE']) || 'DEV',
   CLAUDE_API_KEY: process.env.CLAUDE_API_KEY,
   LOG_LEVEL: 'info',
+  MOCK_FIXTURES_DIR: process.env.MOCK_FIXTURES_DIR,
+  CLAUDE_BASE_URL: process.env.CLAUDE_BASE_URL,
+  CLAUDE_MODEL: process.env.CLAUDE_MODEL,
+  CASSETTE_DIR: process.env.CASSETTE_DIR,
+  TRACER: tracer,
 };
 
-const groqConfig = {
+const groqConfig: GroqConfig = {
   apiKey: process.env.GROQ_API_KEY || 'mock-key',
+  baseUrl: process.env.GROQ_BASE_URL,
+  model: process.env.GROQ_MODEL,
+  tracer,
+  cassette: config.MODE === 'RECORD' || config.MODE === 'REPLAY'
+    ? { mode: config.MODE, dir: config.CASSETTE_DIR ?? DEFAULT_CASSETTE_DIR }
+    : undefined,
 };
 
 console.log(`\n🚀 Running Hybrid OCR Strategy Demo`);
@@ -35,7 +54,7 @@ console.log(`Groq: ${groqConfig.apiKey === 'mock-key' ? 'Mock' : 'Real API'}\n`)
 
 const claudeAdapter = createClaudeAdapter(config);
 const groqAdapter = (config.MODE === 'DEV'
-  ? new MockGroqAdapter()
+  ? new MockGroqAdapter({ fixturesDir: process.env.MOCK_FIXTURES_DIR })
   : new GroqTextAdapter(groqConfig)) as any;
 
 const strategy = new HybridOcrStrategy(
@@ -45,6 +64,7 @@ const strategy = new HybridOcrStrategy(
     simpleConfidenceThreshold: 0.85,
     enableFallback: true,
     enableMetrics: true,
+    tracer,
   }
 );
 
@@ -113,6 +133,7 @@ async function main() {
   // ============================================================================
 
   strategy.printMetrics();
+  await tracer?.flush();
 
   // ============================================================================
   // Detailed Analysis
@@ -143,7 +164,7 @@ async function main() {
   // ============================================================================
 
   const metrics = strategy.getMetrics();
-  const claudeOnlyCost = metrics.totalReceipts * 0.50;
+  const claudeOnlyCost = metrics.claudeOnlyCost;
   const hybridCost = metrics.totalCost;
   const savings = metrics.savingsVsClaudeOnly;
   const savingsPercent = (savings / claudeOnlyCost) * 100;
@@ -151,12 +172,14 @@ async function main() {
   console.log('💰 Cost Comparison:');
   console.log('─'.repeat(50));
   console.log(`Claude-only (${metrics.totalReceipts} receipts):`);
-  console.log(`  ${metrics.totalReceipts} × ฿0.50 = ฿${claudeOnlyCost.toFixed(2)}`);
+  console.log(`  ${metrics.totalReceipts} × ฿${(claudeOnlyCost / metrics.totalReceipts).toFixed(2)} = ฿${claudeOnlyCost.toFixed(2)}`);
   console.log('');
-  console.log(`Hybrid strategy:`);
-  console.log(`  ${metrics.simpleCount} simple × ฿0.05 = ฿${(metrics.simpleCount * 0.05).toFixed(2)}`);
-  console.log(`  ${metrics.complexCount} complex × ฿0.50 = ฿${(metrics.complexCount * 0.50).toFixed(2)}`);
+  console.log(`Hybrid strategy (${metrics.simpleCount} simple, ${metrics.complexCount} complex):`);
+  console.log(`  ${metrics.inputTokens} input + ${metrics.outputTokens} output tokens`);
   console.log(`  Total: ฿${hybridCost.toFixed(2)}`);
+  if (metrics.estimatedCostCount > 0) {
+    console.log(`  (${metrics.estimatedCostCount} attempts reported no usage and were estimated)`);
+  }
   console.log('');
   console.log(`💚 Savings: ฿${savings.toFixed(2)} (${savingsPercent.toFixed(0)}%)`);
   console.log('─'.repeat(50) + '\n');
@@ -2,11 +2,41 @@
  * Unit tests for Groq OCR Fallback & Hybrid Strategy
  */
 
-import { describe, test, expect, beforeEach } from 'bun:test';
+import { describe, test, expect, beforeEach, afterEach, afterAll } from 'bun:test';
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import { SimpleReceiptDetector } from './SimpleReceiptDetector';
 import { GroqTextAdapter } from './GroqTextAdapter';
 import { HybridOcrStrategy } from './HybridOcrStrategy';
-import { MockClaudeAdapter } from '../receipt-extraction/claudeAdapter';
+import { CircuitBreaker } from './CircuitBreaker';
+import { BudgetExceededError, BudgetManager, SqliteBudgetStore } from './BudgetManager';
+import { JsonlAttemptStore, MemoryAttemptStore, SqliteAttemptStore, summarizeAttempts } from './AttemptStore';
+import type { AttemptRecord, BudgetAlert } from './types';
+import { MockClaudeAdapter, RealClaudeAdapter } from '../receipt-extraction/claudeAdapter';
+import {
+  AuthFailedError,
+  ImageRejectedError,
+  InvalidResponseError,
+  OcrCancelledError,
+  OcrTimeoutError,
+  RateLimitedError,
+} from '../receipt-extraction/errors';
+import { contentHash } from '../receipt-extraction/hash';
+import { MockGroqAdapter } from './MockGroqAdapter';
+import { CachedGroqAdapter } from './CachedGroqAdapter';
+import { MemoryCacheStore } from '../receipt-extraction/resultCache';
+import { groqCompletionBody, groqErrorBody, startMockApiServer } from '../receipt-extraction/mockApiServer';
+import { createLogger } from '../receipt-extraction/logger';
+import { CassetteMissError } from '../receipt-extraction/cassette';
+import { DEFAULT_PROMPTS_DIR, PromptRegistry } from '../receipt-extraction/promptRegistry';
+import type { LogRecord } from '../receipt-extraction/logger';
+import { createBatchTracer } from '../receipt-extraction/tracing';
+import type { FinishedSpan } from '../receipt-extraction/tracing';
+import { MetricsRegistry } from '../receipt-extraction/metrics';
+
+/** 1x1 PNG: a real image for adapters that check the bytes */
+const PNG_1X1 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==';
 
 // ============================================================================
 // SimpleReceiptDetector Tests
@@ -60,6 +90,24 @@ describe('GroqTextAdapter', () => {
     expect(adapter).toBeDefined();
   });
 
+  test('should throw RateLimitedError with retry-after on 429', async () => {
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = (async () =>
+      new Response('{}', { status: 429, headers: { 'retry-after': '7' } })) as any;
+
+    try {
+      const adapter = new GroqTextAdapter({ apiKey: 'test-key', retry: { maxAttempts: 1 } });
+      const error = await adapter.parseReceiptText('7-ELEVEN', 'groq-429').catch(e => e);
+
+      expect(error).toBeInstanceOf(RateLimitedError);
+      expect(error.provider).toBe('groq');
+      expect(error.correlationId).toBe('groq-429');
+      expect(error.retryAfterMs).toBe(7000);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
   // Note: Real API tests would require GROQ_API_KEY
   test.skip('should parse receipt text (requires API key)', async () => {
     const apiKey = process.env.GROQ_API_KEY;
@@ -77,6 +125,144 @@ describe('GroqTextAdapter', () => {
   });
 });
 
+describe('GroqTextAdapter against the local API server', () => {
+  const server = startMockApiServer();
+  const rawText = '7-ELEVEN\nกาแฟ 45.00\nขนมปัง 35.00\nภาษี 7% 5.60\nรวมทั้งสิ้น 85.60\nวันที่ 22/01/2569';
+
+  afterEach(() => server.reset());
+  afterAll(() => server.stop());
+
+  test('should send a chat completion with Bearer auth and parse the JSON reply', async () => {
+    const adapter = new GroqTextAdapter({ apiKey: 'gsk-test', baseUrl: server.groqBaseUrl });
+    const result = await adapter.parseReceiptText(rawText, 'groq-srv-1');
+
+    expect(result.amountSatang).toBe(8560);
+    expect(result.vendorName).toBe('7-ELEVEN');
+    expect(result.usage).toEqual({ provider: 'groq', model: 'mixtral-8x7b-32768', inputTokens: 400, outputTokens: 150 });
+    expect(result.prompt).toEqual({ id: 'receipt-json', version: 2 });
+    const [request] = server.requests;
+    expect(request!.path).toBe('/openai/v1/chat/completions');
+    expect(request!.headers['authorization']).toBe('Bearer gsk-test');
+    expect(request!.body.messages.at(-1).content).toContain('รวมทั้งสิ้น 85.60');
+  });
+
+  test('should send the per-call model and the configured token cap', async () => {
+    const adapter = new GroqTextAdapter({ apiKey: 'gsk-test', baseUrl: server.groqBaseUrl, maxTokens: 800 });
+    const result = await adapter.parseReceiptText(rawText, 'groq-srv-model', { model: 'llama-3.3-70b-versatile' });
+
+    expect(server.requests[0]!.body.model).toBe('llama-3.3-70b-versatile');
+    expect(server.requests[0]!.body.max_tokens).toBe(800);
+    expect(result.usage?.model).toBe('llama-3.3-70b-versatile');
+  });
+
+  test('should retry a 429 and then succeed', async () => {
+    server.enqueue('groq', {
+      status: 429,
+      headers: { 'retry-after': '0' },
+      body: groqErrorBody('rate_limit_exceeded', 'Rate limit reached'),
+    });
+    const adapter = new GroqTextAdapter({
+      apiKey: 'gsk-test',
+      baseUrl: server.groqBaseUrl,
+      retry: { baseDelayMs: 1, maxDelayMs: 10 },
+    });
+
+    const result = await adapter.parseReceiptText(rawText, 'groq-srv-2');
+
+    expect(result.amountSatang).toBe(8560);
+    expect(server.requests).toHaveLength(2);
+  });
+
+  test('should map 401 and non-JSON content to typed errors', async () => {
+    server.enqueue(
+      'groq',
+      { status: 401, body: groqErrorBody('invalid_api_key', 'Invalid API Key') },
+      { body: groqCompletionBody('not json at all') }
+    );
+    const adapter = new GroqTextAdapter({ apiKey: 'gsk-test', baseUrl: server.groqBaseUrl });
+    const call = () => adapter.parseReceiptText(rawText, 'groq-srv-3').catch(e => e);
+
+    expect(await call()).toBeInstanceOf(AuthFailedError);
+    expect(await call()).toBeInstanceOf(InvalidResponseError);
+  });
+
+  test('should replay a recorded cassette offline', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'groq-cassettes-'));
+    try {
+      const recorder = new GroqTextAdapter({
+        apiKey: 'gsk-secret',
+        baseUrl: server.groqBaseUrl,
+        cassette: { mode: 'RECORD', dir },
+      });
+      const recorded = await recorder.parseReceiptText(rawText, 'groq-cas-1');
+
+      const player = new GroqTextAdapter({ apiKey: '', cassette: { mode: 'REPLAY', dir } });
+      const replayed = await player.parseReceiptText(rawText, 'groq-cas-2');
+
+      expect(replayed).toEqual(recorded);
+      expect(server.requests).toHaveLength(1);
+      const [file] = await readdir(join(dir, 'groq'));
+      expect(await readFile(join(dir, 'groq', file!), 'utf8')).not.toContain('gsk-secret');
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("should cache under the wrapped adapter's own model and prompt version", async () => {
+    const store = new MemoryCacheStore();
+    const pinned = PromptRegistry.fromDirectory(DEFAULT_PROMPTS_DIR, { pins: { 'receipt-json': 1 } });
+    const small = new GroqTextAdapter({ apiKey: 'gsk-test', baseUrl: server.groqBaseUrl, model: 'llama-3.1-8b-instant' });
+    const pinnedSmall = new GroqTextAdapter({
+      apiKey: 'gsk-test',
+      baseUrl: server.groqBaseUrl,
+      model: 'llama-3.1-8b-instant',
+      prompts: pinned,
+    });
+    const large = new GroqTextAdapter({ apiKey: 'gsk-test', baseUrl: server.groqBaseUrl, model: 'llama-3.3-70b-versatile' });
+
+    expect(pinnedSmall.callIdentity(rawText).promptFingerprint).toStartWith('receipt-json@1#');
+    for (const inner of [small, small, pinnedSmall, large]) {
+      await new CachedGroqAdapter(inner, { store }).parseReceiptText(rawText, 'groq-cache-identity');
+    }
+
+    expect(server.requests.map(r => r.body.model)).toEqual([
+      'llama-3.1-8b-instant',
+      'llama-3.1-8b-instant',
+      'llama-3.3-70b-versatile',
+    ]);
+    expect(store.size).toBe(3);
+  });
+
+  test("should replay after a prompt change when matching on 'input'", async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'groq-cassettes-'));
+    try {
+      const recorder = new GroqTextAdapter({
+        apiKey: 'gsk-secret',
+        baseUrl: server.groqBaseUrl,
+        cassette: { mode: 'RECORD', dir, matchOn: 'input' },
+      });
+      const recorded = await recorder.parseReceiptText(rawText, 'groq-cas-3');
+
+      // Recorded with receipt-json v2, replayed with v1
+      const player = new GroqTextAdapter({
+        apiKey: '',
+        cassette: { mode: 'REPLAY', dir, matchOn: 'input' },
+        prompts: PromptRegistry.fromDirectory(DEFAULT_PROMPTS_DIR, { pins: { 'receipt-json': 1 } }),
+      });
+      const replayed = await player.parseReceiptText(rawText, 'groq-cas-4');
+
+      expect(replayed.prompt).toEqual({ id: 'receipt-json', version: 1 });
+      expect(replayed.amountSatang).toBe(recorded.amountSatang);
+      expect(server.requests).toHaveLength(1);
+
+      const missed = await player.parseReceiptText(`${rawText}\nเลขที่ 0001`, 'groq-cas-5').catch(e => e);
+      expect(missed).toBeInstanceOf(CassetteMissError);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
 // ============================================================================
 // HybridOcrStrategy Tests
 // ============================================================================
@@ -128,6 +314,577 @@ describe('HybridOcrStrategy', () => {
     expect(metrics.totalCost).toBe(0);
   });
 
+  test('should fall back to Claude when the Groq result fails validation', async () => {
+    const invalidGroqAdapter = {
+      parseReceiptText: async () => ({
+        amountSatang: 85.6, // Baht instead of Satang
+        currency: 'THB',
+        vatAmountSatang: 560,
+        vendorName: '7-ELEVEN',
+        issueDate: '22/01/2569',
+        confidence: 0.9,
+      }),
+    };
+
+    const hybrid = new HybridOcrStrategy(
+      mockClaudeAdapter as any,
+      invalidGroqAdapter as any
+    );
+
+    const result = await hybrid.extractReceipt({
+      imageBase64: 'mock-7eleven-receipt',
+      correlationId: 'test-invalid-groq',
+    });
+
+    const attempts = hybrid.getAttempts();
+    // maxGroqRetries defaults to 1: two Groq samples, then Claude
+    expect(attempts.map(a => a.provider)).toEqual(['groq', 'groq', 'claude']);
+    expect(attempts[0]!.success).toBe(false);
+    expect(attempts[0]!.error).toContain('amountSatang');
+    expect(result.amountSatang).toBe(35000);
+    expect(result.violations).toEqual([]);
+  });
+
+  test('should count a Groq-then-Claude receipt once and price Claude-only per receipt', async () => {
+    const invalidGroqAdapter = {
+      parseReceiptText: async () => ({
+        amountSatang: 85.6, // Baht instead of Satang
+        currency: 'THB',
+        vatAmountSatang: 560,
+        vendorName: '7-ELEVEN',
+        issueDate: '22/01/2569',
+        confidence: 0.9,
+      }),
+    };
+    const hybrid = new HybridOcrStrategy(mockClaudeAdapter as any, invalidGroqAdapter as any);
+
+    await hybrid.extractReceipt({ imageBase64: 'mock-7eleven-receipt', correlationId: 'test-fallback-savings' });
+
+    const metrics = hybrid.getMetrics();
+    expect(hybrid.getAttempts()).toHaveLength(3);
+    expect(metrics.totalReceipts).toBe(1);
+    // Two rejected Groq samples (฿0.05 each) + Claude (฿0.50) against Claude alone (฿0.50)
+    expect(metrics.totalCost).toBeCloseTo(0.6);
+    expect(metrics.avgCostPerReceipt).toBeCloseTo(0.6);
+    expect(metrics.claudeOnlyCost).toBeCloseTo(0.5);
+    expect(metrics.savingsVsClaudeOnly).toBeCloseTo(-0.1);
+    // The rejected Groq results do not count towards review, only the returned one
+    expect(hybrid.getAttempts().filter(a => a.needsReview).length).toBeGreaterThan(0);
+    expect(metrics.manualReviewRate).toBe(0);
+  });
+
+  test('should not re-run Groq after a permanent failure', async () => {
+    let groqCalls = 0;
+    const unauthorisedGroqAdapter = {
+      parseReceiptText: async () => {
+        groqCalls++;
+        throw new AuthFailedError('Groq API error: 401', { provider: 'groq', status: 401 });
+      },
+    };
+
+    const hybrid = new HybridOcrStrategy(
+      mockClaudeAdapter as any,
+      unauthorisedGroqAdapter as any,
+      { maxGroqRetries: 3 }
+    );
+
+    await hybrid.extractReceipt({
+      imageBase64: 'mock-7eleven-receipt',
+      correlationId: 'test-auth-groq',
+    });
+
+    expect(groqCalls).toBe(1);
+    expect(hybrid.getAttempts()[0]!.errorType).toBe('AuthFailedError');
+  });
+
+  test('should escalate full tax invoices recognised by Groq to Claude', async () => {
+    const taxInvoiceGroqAdapter = {
+      parseReceiptText: async () => ({
+        amountSatang: 107000,
+        currency: 'THB',
+        vatAmountSatang: 7000,
+        vendorName: 'บริษัท ตัวอย่าง จำกัด',
+        issueDate: '2026-01-22',
+        documentType: 'full_tax_invoice',
+        confidence: 0.9,
+      }),
+    };
+
+    const hybrid = new HybridOcrStrategy(
+      mockClaudeAdapter as any,
+      taxInvoiceGroqAdapter as any
+    );
+
+    const result = await hybrid.extractReceipt({
+      imageBase64: 'mock-7eleven-receipt',
+      correlationId: 'test-tax-invoice',
+    });
+
+    const attempts = hybrid.getAttempts();
+    expect(attempts.map(a => a.provider)).toEqual(['groq', 'claude']);
+    expect(attempts[0]!.success).toBe(true);
+    expect(result.amountSatang).toBe(35000); // Claude's reading wins
+    expect(hybrid.getMetrics().claudeFallbackRate).toBe(0);
+  });
+
+  test('should fall back to Claude when the Groq amounts do not reconcile', async () => {
+    const swappedGroqAdapter = {
+      parseReceiptText: async () => ({
+        amountSatang: 8000, // subtotal read as the grand total
+        currency: 'THB',
+        vatAmountSatang: 560,
+        subtotalSatang: 8560,
+        vendorName: '7-ELEVEN',
+        issueDate: '2026-01-22',
+        confidence: 0.95,
+      }),
+    };
+
+    const hybrid = new HybridOcrStrategy(
+      mockClaudeAdapter as any,
+      swappedGroqAdapter as any,
+      { maxGroqRetries: 0 }
+    );
+
+    const result = await hybrid.extractReceipt({
+      imageBase64: 'mock-7eleven-receipt',
+      correlationId: 'test-swapped-groq',
+    });
+
+    const attempts = hybrid.getAttempts();
+    expect(attempts.map(a => a.provider)).toEqual(['groq', 'claude']);
+    expect(attempts[0]!.error).toContain('Reconciliation failed');
+    expect(attempts[0]!.result!.reconciliation!.subtotalTotalSwapped).toBe(true);
+    expect(attempts[0]!.result!.confidence).toBeLessThan(0.95);
+    expect(result.reconciliation!.isConsistent).toBe(true);
+    expect(result.confidence).toBe(0.95);
+  });
+
+  test('should normalise the Groq date from the OCR text and reject closed periods', async () => {
+    const beDateGroqAdapter = {
+      parseReceiptText: async () => ({
+        amountSatang: 8560,
+        currency: 'THB',
+        vatAmountSatang: 560,
+        vendorName: '7-ELEVEN',
+        issueDate: '2569-01-22',
+        confidence: 0.95,
+      }),
+    };
+
+    const hybrid = new HybridOcrStrategy(
+      mockClaudeAdapter as any,
+      beDateGroqAdapter as any,
+      { enableFallback: false, maxGroqRetries: 0 }
+    );
+
+    const result = await hybrid.extractReceipt({
+      imageBase64: 'mock-7eleven-receipt',
+      correlationId: 'test-closed-period',
+      closedPeriodEnd: '2026-01-31',
+    });
+
+    expect(result.issueDate).toBe('2026-01-22');
+    expect(result.issueTime).toBe('14:35');
+    expect(result.dateNormalization!.source).toBe('raw-text');
+    expect(result.violations!.map(v => v.rule)).toEqual(['closed-period']);
+  });
+
+  test('should send a receipt to review when its weakest critical field is uncertain', () => {
+    const result = {
+      amountSatang: 8560,
+      currency: 'THB' as const,
+      vatAmountSatang: 560,
+      vendorName: '7-ELEVEN',
+      issueDate: '2026-01-22',
+      confidence: 0.97,
+      violations: [],
+      fieldEvidence: {
+        amountSatang: { confidence: 0.99, sourceText: 'รวมทั้งสิ้น 85.60' },
+        vendorName: { confidence: 0.99, sourceText: '7-ELEVEN' },
+      },
+    };
+
+    expect(strategy.needsManualReview(result)).toBe(false);
+    expect(strategy.needsManualReview({
+      ...result,
+      fieldEvidence: {
+        ...result.fieldEvidence,
+        vatAmountSatang: { confidence: 0.4, sourceText: 'ภาษี 7% 5.?0' },
+      },
+    })).toBe(true);
+  });
+
+  test('should fall back deterministically on scripted MockGroqAdapter failures', async () => {
+    const hybrid = new HybridOcrStrategy(mockClaudeAdapter as any, undefined as any);
+    // The hybrid's (mock) OCR step always produces the same text
+    const ocrHash = contentHash(await hybrid['extractRawText']('mock-7eleven-receipt'));
+    const scriptedGroq = new MockGroqAdapter({
+      latencyMs: 0,
+      fixtures: { [ocrHash]: { scenario: ['overloaded', 'invalid-json'] } },
+    });
+    hybrid['groqAdapter'] = scriptedGroq as any;
+
+    const result = await hybrid.extractReceipt({
+      imageBase64: 'mock-7eleven-receipt',
+      correlationId: 'test-mock-groq',
+    });
+
+    const attempts = hybrid.getAttempts();
+    expect(attempts.map(a => a.errorType ?? a.provider)).toEqual([
+      'ProviderUnavailableError',
+      'InvalidResponseError',
+      'claude',
+    ]);
+    expect(result.amountSatang).toBe(35000);
+  });
+
+  test('should record cache hits at zero cost', async () => {
+    const hybrid = new HybridOcrStrategy(
+      mockClaudeAdapter as any,
+      new CachedGroqAdapter(new MockGroqAdapter({ latencyMs: 0 }), { store: new MemoryCacheStore() })
+    );
+    const input = { imageBase64: 'mock-7eleven-receipt', correlationId: 'test-cache' };
+
+    const first = await hybrid.extractReceipt(input);
+    const second = await hybrid.extractReceipt(input);
+
+    expect(first.cache).toBeUndefined();
+    expect(second.cache?.key).toHaveLength(64);
+    expect(second.amountSatang).toBe(first.amountSatang);
+    expect(hybrid.getAttempts().map(a => [a.provider, a.cost, a.cached ?? false])).toEqual([
+      ['groq', 0.05, false],
+      ['groq', 0, true],
+    ]);
+    const metrics = hybrid.getMetrics();
+    expect(metrics.cacheHits).toBe(1);
+    // MockGroqAdapter reports no usage: the first call is charged the estimate
+    expect(metrics.estimatedCostCount).toBe(1);
+    expect(metrics.totalCost).toBe(0.05);
+    expect(metrics.savingsVsClaudeOnly).toBeCloseTo(0.95);
+  });
+
+  test('should cost attempts from reported token usage', async () => {
+    const server = startMockApiServer();
+    try {
+      const hybrid = new HybridOcrStrategy(
+        new RealClaudeAdapter({ MODE: 'PROD', CLAUDE_API_KEY: 'sk-test', CLAUDE_BASE_URL: server.url, LOG_LEVEL: 'error' }),
+        new GroqTextAdapter({ apiKey: 'gsk-test', baseUrl: server.groqBaseUrl }),
+        { pricing: { usdToThb: 35 } }
+      );
+
+      await hybrid.extractReceipt({ imageBase64: 'mock-7eleven-receipt', correlationId: 'test-usage-groq' });
+      await hybrid.extractReceipt({
+        imageBase64: PNG_1X1,
+        correlationId: 'test-usage-claude',
+        expectedDocumentType: 'full_tax_invoice',
+      });
+
+      const [groq, claude] = hybrid.getAttempts();
+      // (400 + 150) × $0.24/M
+      expect(groq!.costUsd).toBeCloseTo(0.000132, 10);
+      expect(groq!.cost).toBeCloseTo(0.000132 * 35, 10);
+      expect(groq!.usage?.inputTokens).toBe(400);
+      expect(groq!.prompt).toEqual({ id: 'receipt-json', version: 2 });
+      // 1500 × $3/M + 300 × $15/M
+      expect(claude!.costUsd).toBeCloseTo(0.009, 10);
+      expect(claude!.costEstimated).toBeUndefined();
+
+      const metrics = hybrid.getMetrics();
+      expect(metrics.totalCostUsd).toBeCloseTo(0.009132, 10);
+      expect([metrics.inputTokens, metrics.outputTokens]).toEqual([1900, 450]);
+      expect(metrics.estimatedCostCount).toBe(0);
+      // Claude-only baseline is the measured Claude call, not ฿0.50
+      expect(metrics.claudeOnlyCost).toBeCloseTo(2 * 0.009 * 35, 10);
+      expect(metrics.savingsVsClaudeOnly).toBeCloseTo((0.009 - 0.000132) * 35, 10);
+    } finally {
+      server.stop();
+    }
+  });
+
+  test('should send expected credit notes straight to Claude', async () => {
+    let groqCalls = 0;
+    const countingGroqAdapter = {
+      parseReceiptText: async () => {
+        groqCalls++;
+        throw new Error('should not be called');
+      },
+    };
+
+    const hybrid = new HybridOcrStrategy(
+      mockClaudeAdapter as any,
+      countingGroqAdapter as any
+    );
+
+    await hybrid.extractReceipt({
+      imageBase64: 'mock-7eleven-receipt',
+      correlationId: 'test-credit-note',
+      expectedDocumentType: 'credit_note',
+    });
+
+    expect(groqCalls).toBe(0);
+    expect(hybrid.getAttempts().map(a => a.provider)).toEqual(['claude']);
+  });
+
+  test('should reject unreadable images before any provider is called', async () => {
+    let groqCalls = 0;
+    const countingGroqAdapter = {
+      parseReceiptText: async () => {
+        groqCalls++;
+        throw new Error('should not be called');
+      },
+    };
+
+    const hybrid = new HybridOcrStrategy(
+      mockClaudeAdapter as any,
+      countingGroqAdapter as any,
+      { imageIntake: {} }
+    );
+
+    const error = await hybrid
+      .extractReceipt({ imageBase64: Buffer.from('%PDF-1.7').toString('base64'), correlationId: 'test-intake' })
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(ImageRejectedError);
+    expect(error.reason).toBe('unknown-format');
+    expect(groqCalls).toBe(0);
+    expect(hybrid.getAttempts()).toEqual([]);
+  });
+
+  describe('model ladder', () => {
+    const receiptFrom = (model: string | undefined, confidence: number) => ({
+      amountSatang: 8560,
+      currency: 'THB',
+      vatAmountSatang: 560,
+      vendorName: '7-ELEVEN',
+      issueDate: '2026-01-22',
+      documentType: 'receipt',
+      confidence,
+      rawText: model,
+    });
+
+    test('should re-run Groq on the next model when confidence is low', async () => {
+      const models: (string | undefined)[] = [];
+      const groq = {
+        parseReceiptText: async (_text: string, _id: string, options: { model?: string } = {}) => {
+          models.push(options.model);
+          return receiptFrom(options.model, options.model === 'llama-3.1-8b-instant' ? 0.6 : 0.9);
+        },
+      };
+      const hybrid = new HybridOcrStrategy(mockClaudeAdapter as any, groq as any, {
+        maxGroqRetries: 0,
+        modelLadder: { groq: ['llama-3.1-8b-instant', 'llama-3.3-70b-versatile'] },
+      });
+
+      const result = await hybrid.extractReceipt({ imageBase64: 'mock-7eleven-receipt', correlationId: 'ladder-groq' });
+
+      expect(models).toEqual(['llama-3.1-8b-instant', 'llama-3.3-70b-versatile']);
+      expect(result.rawText).toBe('llama-3.3-70b-versatile');
+      const attempts = hybrid.getAttempts();
+      expect(attempts.map(a => [a.provider, a.model, a.success])).toEqual([
+        ['groq', 'llama-3.1-8b-instant', false],
+        ['groq', 'llama-3.3-70b-versatile', true],
+      ]);
+      expect(attempts[0]!.error).toBe('Confidence 0.60 below 0.8');
+    });
+
+    test('should climb the Claude ladder past invalid and malformed results', async () => {
+      const models: (string | undefined)[] = [];
+      const claude = {
+        extractReceiptFromImage: async (params: { model?: string }) => {
+          models.push(params.model);
+          if (params.model === 'claude-3-haiku-20240307') {
+            throw new InvalidResponseError('Claude returned no record_receipt tool call', { provider: 'claude' });
+          }
+          if (params.model === 'claude-3-5-haiku-20241022') return { ...receiptFrom(params.model, 0.9), amountSatang: 85.6 };
+          return receiptFrom(params.model, 0.5);
+        },
+      };
+      const hybrid = new HybridOcrStrategy(claude as any, mockGroqAdapter, {
+        claudeDocumentTypes: ['receipt'],
+        modelLadder: { claude: ['claude-3-haiku-20240307', 'claude-3-5-haiku-20241022', 'claude-3-5-sonnet-20241022'] },
+      });
+
+      const result = await hybrid.extractReceipt({
+        imageBase64: 'mock-7eleven-receipt',
+        correlationId: 'ladder-claude',
+        expectedDocumentType: 'receipt',
+      });
+
+      // The top rung stands even below the escalation threshold
+      expect(result.rawText).toBe('claude-3-5-sonnet-20241022');
+      const attempts = hybrid.getAttempts();
+      expect(attempts.map(a => [a.model, a.success])).toEqual([
+        ['claude-3-haiku-20240307', false],
+        ['claude-3-5-haiku-20241022', false],
+        ['claude-3-5-sonnet-20241022', true],
+      ]);
+      expect(attempts[0]!.errorType).toBe('InvalidResponseError');
+      expect(attempts[1]!.error).toContain('Validation failed: amountSatang');
+      expect(hybrid.getMetrics().complexCount).toBe(1);
+    });
+
+    test('should keep the cheaper result when the budget refuses the next rung', async () => {
+      const models: (string | undefined)[] = [];
+      const claude = {
+        extractReceiptFromImage: async (params: { model?: string }) => {
+          models.push(params.model);
+          return receiptFrom(params.model, 0.5);
+        },
+      };
+      const hybrid = new HybridOcrStrategy(claude as any, mockGroqAdapter, {
+        claudeDocumentTypes: ['receipt'],
+        modelLadder: { claude: ['claude-3-5-haiku-20241022', 'claude-3-5-sonnet-20241022'] },
+        budget: new BudgetManager({ global: { dailyThb: 0.6 }, onAlert: () => {} }),
+      });
+
+      const result = await hybrid.extractReceipt({
+        imageBase64: 'mock-7eleven-receipt',
+        correlationId: 'ladder-budget',
+        expectedDocumentType: 'receipt',
+      });
+
+      expect(models).toEqual(['claude-3-5-haiku-20241022']);
+      expect(result.rawText).toBe('claude-3-5-haiku-20241022');
+      const skipped = hybrid.getAttempts().at(-1)!;
+      expect(skipped.skipped).toBe(true);
+      expect(skipped.error).toBe('Budget policy downgrade: global daily');
+    });
+  });
+
+  describe('deadline', () => {
+    /** Groq that never answers on its own: only the signal ends the call */
+    const hangingGroq = () => {
+      const seen: { signal?: AbortSignal; deadline?: number }[] = [];
+      const adapter = {
+        parseReceiptText: (_text: string, _id: string, options: { signal?: AbortSignal; deadline?: number } = {}) => {
+          seen.push(options);
+          return new Promise((_resolve, reject) => {
+            options.signal?.addEventListener('abort', () => reject(options.signal!.reason));
+          });
+        },
+      };
+      return { adapter, seen };
+    };
+
+    test('should share the deadline and not fall back to Claude once it has passed', async () => {
+      const groq = hangingGroq();
+      let claudeCalls = 0;
+      const claude = { extractReceiptFromImage: async () => { claudeCalls++; return {}; } };
+      const hybrid = new HybridOcrStrategy(claude as any, groq.adapter as any, { timeoutMs: 50 });
+
+      const error = await hybrid
+        .extractReceipt({ imageBase64: 'mock-7eleven-receipt', correlationId: 'deadline-groq' })
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(OcrTimeoutError);
+      expect(groq.seen).toHaveLength(1);
+      expect(groq.seen[0]!.deadline).toBeNumber();
+      expect(claudeCalls).toBe(0);
+      expect(hybrid.getAttempts().map(a => a.errorType)).toEqual(['OcrTimeoutError']);
+      // Our own deadline says nothing about Groq's health
+      expect(hybrid.getCircuitBreakerStates().groq.totalFailures).toBe(0);
+    });
+
+    test('should stop on the caller\'s cancellation', async () => {
+      const groq = hangingGroq();
+      const controller = new AbortController();
+      const hybrid = new HybridOcrStrategy(mockClaudeAdapter as any, groq.adapter as any);
+
+      const pending = hybrid
+        .extractReceipt({ imageBase64: 'mock-7eleven-receipt', correlationId: 'cancel-groq', signal: controller.signal })
+        .catch(e => e);
+      setTimeout(() => controller.abort(), 10);
+
+      expect(await pending).toBeInstanceOf(OcrCancelledError);
+      expect(hybrid.getAttempts().map(a => a.provider)).toEqual(['groq']);
+    });
+  });
+
+  test('should log every line with the receipt\'s correlationId and clientId', async () => {
+    const records: LogRecord[] = [];
+    const logger = createLogger({ MODE: 'PROD', LOG_LEVEL: 'info' }, { sink: (record) => records.push(record) });
+    const invalidGroqAdapter = {
+      parseReceiptText: async () => ({
+        amountSatang: 85.6, // Baht instead of Satang
+        currency: 'THB',
+        vatAmountSatang: 560,
+        vendorName: '7-ELEVEN',
+        issueDate: '22/01/2569',
+        confidence: 0.9,
+      }),
+    };
+    const hybrid = new HybridOcrStrategy(mockClaudeAdapter as any, invalidGroqAdapter as any, { logger });
+
+    await hybrid.extractReceipt({ imageBase64: 'mock-7eleven-receipt', correlationId: 'test-log', clientId: 'acme' });
+
+    expect(records.length).toBeGreaterThan(0);
+    expect(records.every(r => r.correlationId === 'test-log' && r.clientId === 'acme')).toBe(true);
+    expect(records.find(r => r.msg === 'Hybrid Groq result rejected')).toMatchObject({ level: 'warn', attempt: 1 });
+    expect(records.some(r => r.msg === 'Hybrid Claude success')).toBe(true);
+  });
+
+  test('should trace classification and every attempt under one receipt span', async () => {
+    const spans: FinishedSpan[] = [];
+    const tracer = createBatchTracer({ export: (batch) => void spans.push(...batch), batchSize: 1 });
+    const invalidGroqAdapter = {
+      parseReceiptText: async () => ({
+        amountSatang: 85.6, // Baht instead of Satang
+        currency: 'THB',
+        vatAmountSatang: 560,
+        vendorName: '7-ELEVEN',
+        issueDate: '22/01/2569',
+        confidence: 0.9,
+      }),
+    };
+    const hybrid = new HybridOcrStrategy(mockClaudeAdapter as any, invalidGroqAdapter as any, {
+      tracer,
+      maxGroqRetries: 0,
+    });
+
+    await hybrid.extractReceipt({ imageBase64: 'mock-7eleven-receipt', correlationId: 'test-trace', clientId: 'acme' });
+
+    const root = spans.find(s => s.name === 'hybrid.extractReceipt')!;
+    expect(root.attributes).toMatchObject({ 'ocr.correlation_id': 'test-trace', 'ocr.client_id': 'acme', 'ocr.outcome': 'success' });
+    expect(spans.filter(s => s !== root).every(s => s.traceId === root.traceId && s.parentSpanId === root.spanId)).toBe(true);
+    expect(spans.find(s => s.name === 'detector.classify')!.attributes['ocr.is_simple']).toBe(true);
+
+    const attempts = spans.filter(s => s.name === 'hybrid.attempt');
+    expect(attempts.map(s => [s.attributes['ocr.provider'], s.attributes['ocr.outcome']])).toEqual([
+      ['groq', 'rejected'],
+      ['claude', 'success'],
+    ]);
+    expect(attempts[1]!.attributes['ocr.cost_thb']).toBeGreaterThan(0);
+  });
+
+  test('should export receipt, attempt and breaker metrics to a Prometheus registry', async () => {
+    const registry = new MetricsRegistry();
+    const invalidGroqAdapter = {
+      parseReceiptText: async () => ({
+        amountSatang: 85.6, // Baht instead of Satang
+        currency: 'THB',
+        vatAmountSatang: 560,
+        vendorName: '7-ELEVEN',
+        issueDate: '22/01/2569',
+        confidence: 0.9,
+      }),
+    };
+    const hybrid = new HybridOcrStrategy(mockClaudeAdapter as any, invalidGroqAdapter as any, {
+      metricsRegistry: registry,
+      maxGroqRetries: 0,
+    });
+
+    await hybrid.extractReceipt({ imageBase64: 'mock-7eleven-receipt', correlationId: 'test-prom', clientId: 'acme' });
+    const text = registry.render();
+
+    // Routed to Groq, finished by Claude: the fallback Grafana charts
+    expect(text).toContain('ocr_receipts_total{route="simple",provider="claude",outcome="success",client="acme"} 1');
+    expect(text).toContain('ocr_attempts_total{provider="groq",model="default",outcome="rejected"} 1');
+    expect(text).toContain('ocr_attempt_duration_seconds_count{provider="claude",outcome="success"} 1');
+    expect(text).toMatch(/ocr_spend_thb_total\{provider="claude",client="acme"\} 0\.5\b/);
+    expect(text).toContain('ocr_circuit_breaker_state{provider="groq"} 0');
+  });
+
   test('should provide attempt history', async () => {
     const mockImage = 'base64-data';
     
@@ -144,6 +901,353 @@ describe('HybridOcrStrategy', () => {
   });
 });
 
+// ============================================================================
+// Circuit Breaker Tests
+// ============================================================================
+
+describe('CircuitBreaker', () => {
+  test('should open after consecutive failures and half-open after cool-down', () => {
+    let now = 0;
+    const breaker = new CircuitBreaker('groq', { failureThreshold: 2, cooldownMs: 1000 }, () => now);
+
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('closed');
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.canRequest()).toBe(false);
+    expect(breaker.snapshot().nextAttemptAt).toBe(1000);
+
+    now = 1000;
+    expect(breaker.canRequest()).toBe(true); // probe
+    expect(breaker.getState()).toBe('half-open');
+    expect(breaker.canRequest()).toBe(false); // only one probe at a time
+
+    breaker.recordSuccess();
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.snapshot().totalRejected).toBe(2);
+  });
+
+  test('should re-open when the half-open probe fails', () => {
+    let now = 0;
+    const breaker = new CircuitBreaker('claude', { failureThreshold: 1, cooldownMs: 500 }, () => now);
+
+    breaker.recordFailure();
+    now = 500;
+    expect(breaker.canRequest()).toBe(true);
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.snapshot().openedAt).toBe(500);
+  });
+
+  test('hybrid strategy should skip Groq entirely while its circuit is open', async () => {
+    let groqCalls = 0;
+    const failingGroqAdapter = {
+      parseReceiptText: async () => {
+        groqCalls++;
+        throw new Error('Groq API error: 503');
+      },
+    };
+
+    const hybrid = new HybridOcrStrategy(
+      new MockClaudeAdapter({ MODE: 'DEV', LOG_LEVEL: 'error' }) as any,
+      failingGroqAdapter as any,
+      { maxGroqRetries: 0, circuitBreaker: { failureThreshold: 2, cooldownMs: 60_000 } }
+    );
+
+    for (let i = 0; i < 3; i++) {
+      const result = await hybrid.extractReceipt({
+        imageBase64: 'mock-7eleven-receipt',
+        correlationId: `cb-${i}`,
+      });
+      expect(result.amountSatang).toBe(35000); // Claude fallback
+    }
+
+    expect(groqCalls).toBe(2);
+
+    const skipped = hybrid.getAttempts().filter(a => a.skipped);
+    expect(skipped).toHaveLength(1);
+    expect(skipped[0]!.provider).toBe('groq');
+    // The third receipt never reached Groq: not counted as a simple one
+    expect(hybrid.getMetrics().simpleCount).toBe(2);
+
+    const states = hybrid.getCircuitBreakerStates();
+    expect(states.groq.state).toBe('open');
+    expect(states.claude.state).toBe('closed');
+  });
+});
+
+// ============================================================================
+// Budget Tests
+// ============================================================================
+
+describe('BudgetManager', () => {
+  // 00:30 on 19 October in Bangkok
+  const now = Date.parse('2026-10-18T17:30:00Z');
+
+  test('should track spend per Bangkok day, alert once and survive a restart', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'ocr-budget-'));
+    const path = join(dir, 'budget.sqlite');
+    const alerts: BudgetAlert[] = [];
+    const config = {
+      perClient: { dailyThb: 10 },
+      global: { monthlyThb: 100 },
+      onAlert: (alert: BudgetAlert) => alerts.push(alert),
+    };
+
+    try {
+      const store = new SqliteBudgetStore(path);
+      const budget = new BudgetManager(config, store, () => now);
+      await budget.recordSpend('acme', 4);
+      await budget.recordSpend('acme', 4.5);
+      store.close();
+
+      expect(alerts.map(a => [a.scope, a.clientId, a.period, a.periodKey, a.threshold])).toEqual([
+        ['client', 'acme', 'daily', '2026-10-19', 0.5],
+        ['client', 'acme', 'daily', '2026-10-19', 0.8],
+      ]);
+
+      const reopened = new SqliteBudgetStore(path);
+      const restarted = new BudgetManager(config, reopened, () => now);
+      const status = await restarted.status('acme');
+      expect(status.map(l => [l.scope, l.period, l.spentThb])).toEqual([
+        ['global', 'monthly', 8.5],
+        ['client', 'daily', 8.5],
+      ]);
+      expect(status[1]!.resetsAt).toBe(Date.parse('2026-10-19T17:00:00Z'));
+
+      await restarted.recordSpend('acme', 0.1);
+      expect(alerts).toHaveLength(2);
+      reopened.close();
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('should hold estimates for calls in flight so concurrent receipts cannot overshoot a cap', async () => {
+    const budget = new BudgetManager(
+      { perClient: { dailyThb: 1 }, policy: 'reject', policyThreshold: 1, onAlert: () => {} },
+      undefined,
+      () => now
+    );
+    const input = (i: number) => ({ imageBase64: 'x', correlationId: `test-reserve-${i}`, clientId: 'acme' });
+
+    const outcomes = await Promise.allSettled([0, 1, 2, 3, 4].map(i => budget.authorize('claude', input(i), 0.3)));
+
+    const allowed = outcomes.flatMap(o => (o.status === 'fulfilled' ? [o.value] : []));
+    const refused = outcomes.flatMap(o => (o.status === 'rejected' ? [o.reason] : []));
+    expect(allowed.map(d => d.action)).toEqual(['allow', 'allow', 'allow']);
+    expect(refused).toHaveLength(2);
+    expect(refused.every(e => e instanceof BudgetExceededError)).toBe(true);
+
+    // Settled at the actual cost, and a failed call gives its hold back
+    await budget.recordSpend('acme', 0.1, allowed[0]!.reservation);
+    budget.release(allowed[1]!.reservation);
+    budget.release(allowed[0]!.reservation); // already settled: no-op
+    expect((await budget.check('claude', 'acme', 0.55)).action).toBe('allow');
+    expect((await budget.check('claude', 'acme', 0.65)).action).toBe('reject');
+    expect((await budget.status('acme'))[0]!.spentThb).toBeCloseTo(0.1);
+  });
+
+  test('should send alerts to the logger when no onAlert is set', async () => {
+    const records: LogRecord[] = [];
+    const logger = createLogger({ MODE: 'PROD', LOG_LEVEL: 'warn' }, { sink: (record) => records.push(record) });
+    const budget = new BudgetManager({ perClient: { dailyThb: 1 }, logger }, undefined, () => now);
+
+    await budget.recordSpend('acme', 0.6);
+
+    expect(records.map(r => [r.level, r.msg, r.threshold, r.clientId, r.spentThb])).toEqual([
+      ['warn', 'Budget alert', 0.5, 'acme', 0.6],
+    ]);
+  });
+
+  test('should downgrade Claude near the limit and keep Groq until the limit', async () => {
+    const budget = new BudgetManager({ perClient: { dailyThb: 1 }, onAlert: () => {} }, undefined, () => now);
+    await budget.recordSpend('acme', 0.5);
+
+    expect((await budget.check('claude', 'acme', 0.5)).action).toBe('downgrade');
+    expect((await budget.check('groq', 'acme', 0.05)).action).toBe('allow');
+    expect((await budget.check('groq', 'acme', 0.6)).action).toBe('reject');
+    expect((await budget.check('claude', 'other-client', 0.5)).action).toBe('allow');
+  });
+
+  test('hybrid strategy should downgrade a Claude-bound receipt to Groq', async () => {
+    const budget = new BudgetManager({ perClient: { dailyThb: 1 }, onAlert: () => {} });
+    await budget.recordSpend('acme', 0.6);
+    const hybrid = new HybridOcrStrategy(
+      new MockClaudeAdapter({ MODE: 'DEV', LOG_LEVEL: 'error' }) as any,
+      new MockGroqAdapter({ latencyMs: 0 }),
+      { budget }
+    );
+
+    const result = await hybrid.extractReceipt({
+      imageBase64: 'mock-7eleven-receipt',
+      correlationId: 'test-budget-downgrade',
+      clientId: 'acme',
+      expectedDocumentType: 'full_tax_invoice',
+    });
+
+    expect(result.vendorName).toBe('7-Eleven Mock');
+    expect(hybrid.getAttempts().map(a => [a.provider, a.skipped ?? false])).toEqual([
+      ['claude', true],
+      ['groq', false],
+    ]);
+    const [daily] = await budget.status('acme');
+    expect(daily!.spentThb).toBeCloseTo(0.65);
+  });
+
+  test('hybrid strategy should reject over budget without calling a provider', async () => {
+    let calls = 0;
+    const counting = {
+      parseReceiptText: async () => { calls++; throw new Error('should not be called'); },
+      extractReceiptFromImage: async () => { calls++; throw new Error('should not be called'); },
+    };
+    const hybrid = new HybridOcrStrategy(counting as any, counting as any, {
+      budget: new BudgetManager({ global: { dailyThb: 0.05 }, policy: 'reject' }),
+    });
+
+    const error = await hybrid
+      .extractReceipt({ imageBase64: 'mock-7eleven-receipt', correlationId: 'test-budget-reject' })
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(BudgetExceededError);
+    expect(error.retryable).toBe(false);
+    expect(error.limit.scope).toBe('global');
+    expect(calls).toBe(0);
+  });
+
+  test('should queue receipts until the period resets', async () => {
+    let clock = now;
+    const budget = new BudgetManager(
+      { perClient: { monthlyThb: 0.01 }, policy: 'queue' },
+      undefined,
+      () => clock
+    );
+    const hybrid = new HybridOcrStrategy(
+      new MockClaudeAdapter({ MODE: 'DEV', LOG_LEVEL: 'error' }) as any,
+      new MockGroqAdapter({ latencyMs: 0 }),
+      { budget }
+    );
+    const input = { imageBase64: 'mock-7eleven-receipt', correlationId: 'test-budget-queue', clientId: 'acme' };
+
+    const error = await hybrid.extractReceipt(input).catch(e => e);
+
+    expect(error).toBeInstanceOf(BudgetExceededError);
+    expect(error.queued).toBe(true);
+    expect(error.retryable).toBe(true);
+    expect(error.retryAfterMs).toBe(Date.parse('2026-10-31T17:00:00Z') - now);
+    expect(await budget.takeReleased()).toEqual([]);
+
+    clock = Date.parse('2026-10-31T17:00:00Z');
+    const released = await budget.takeReleased();
+    expect(released.map(r => r.input)).toEqual([input]);
+    expect(await budget.takeReleased()).toEqual([]);
+  });
+});
+
+// ============================================================================
+// AttemptStore Tests
+// ============================================================================
+
+describe('AttemptStore', () => {
+  const hour = 60 * 60 * 1000;
+  const now = Date.parse('2026-10-18T10:00:00Z');
+  const records: AttemptRecord[] = [
+    { provider: 'groq', success: false, cost: 0.05, duration: 300, at: now - 2 * hour, correlationId: 'r1', clientId: 'acme' },
+    { provider: 'claude', success: true, cost: 0.5, duration: 2000, at: now - 2 * hour, correlationId: 'r1', clientId: 'acme', needsReview: true },
+    { provider: 'groq', success: true, cost: 0.05, duration: 400, at: now - 30 * 60 * 1000, correlationId: 'r2', clientId: 'beta', needsReview: false },
+    { provider: 'claude', success: false, cost: 0, duration: 0, skipped: true, at: now - 10 * 60 * 1000, correlationId: 'r3', clientId: 'acme' },
+  ];
+
+  test('should keep only the newest attempts in the memory ring', async () => {
+    const store = new MemoryAttemptStore(3);
+    for (const record of records) store.push(record);
+
+    expect(store.recent().map(r => r.correlationId)).toEqual(['r1', 'r2', 'r3']);
+    expect((await store.query({ clientId: 'acme' })).map(r => r.provider)).toEqual(['claude', 'claude']);
+    expect(await store.prune(now - hour)).toBe(1);
+    expect(store.recent()).toHaveLength(2);
+  });
+
+  test('should persist, filter and prune attempts in JSONL and SQLite', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'ocr-attempts-'));
+    try {
+      const sqlite = new SqliteAttemptStore(join(dir, 'attempts.sqlite'));
+      const stores = [new JsonlAttemptStore(join(dir, 'attempts.jsonl')), sqlite];
+
+      for (const store of stores) {
+        for (const record of records) {
+          await store.append({ ...record, result: { amountSatang: 8560 } as any });
+        }
+
+        const all = await store.query();
+        expect(all.map(r => r.correlationId)).toEqual(['r1', 'r1', 'r2', 'r3']);
+        expect(all.every(r => r.result === undefined)).toBe(true);
+        expect((await store.query({ clientId: 'acme', provider: 'claude' })).map(r => r.correlationId)).toEqual(['r1', 'r3']);
+        expect((await store.query({ correlationId: 'r1' })).map(r => r.provider)).toEqual(['groq', 'claude']);
+        expect((await store.query({ from: now - hour, to: now - 10 * 60 * 1000 })).map(r => r.correlationId)).toEqual(['r2']);
+        expect((await store.query({ limit: 2 })).map(r => r.correlationId)).toEqual(['r2', 'r3']);
+
+        expect(await store.prune(now - hour)).toBe(2);
+        expect((await store.query()).map(r => r.correlationId)).toEqual(['r2', 'r3']);
+      }
+      sqlite.close();
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('should summarize fallbacks, review rate and per-provider figures', () => {
+    const summary = summarizeAttempts(records);
+
+    expect(summary.receipts).toBe(3);
+    expect(summary.attempts).toBe(3);
+    expect(summary.skipped).toBe(1);
+    expect(summary.costThb).toBeCloseTo(0.6);
+    expect(summary.claudeFallbacks).toBe(1);
+    expect(summary.manualReviewRate).toBeCloseTo(1 / 3);
+    expect(summary.byProvider.groq).toEqual({
+      attempts: 2,
+      successes: 1,
+      successRate: 0.5,
+      costThb: 0.1,
+      avgDurationMs: 350,
+    });
+  });
+
+  test('should query the strategy history by receipt and client, and report rolling windows', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'ocr-attempts-'));
+    try {
+      const store = new JsonlAttemptStore(join(dir, 'attempts.jsonl'));
+      const hybrid = new HybridOcrStrategy(
+        new MockClaudeAdapter({ MODE: 'DEV', LOG_LEVEL: 'error' }) as any,
+        new MockGroqAdapter({ latencyMs: 0 }),
+        { attemptStore: store, attemptHistoryLimit: 1 }
+      );
+
+      await hybrid.extractReceipt({ imageBase64: 'mock-7eleven-receipt', correlationId: 'hist-1', clientId: 'acme' });
+      await hybrid.extractReceipt({ imageBase64: 'mock-7eleven-receipt', correlationId: 'hist-2', clientId: 'beta' });
+
+      expect(hybrid.getAttempts().map(a => a.correlationId)).toEqual(['hist-2']);
+      expect(hybrid.getMetrics().totalReceipts).toBe(2);
+      expect((await hybrid.queryAttempts({ clientId: 'acme' })).map(a => a.correlationId)).toEqual(['hist-1']);
+      expect(await hybrid.queryAttempts({ correlationId: 'hist-2' })).toHaveLength(1);
+
+      const day = await hybrid.getRollingMetrics('day');
+      expect(day.receipts).toBe(2);
+      expect(day.costThb).toBeCloseTo(hybrid.getMetrics().totalCost);
+      expect((await hybrid.getRollingMetrics('hour', { clientId: 'beta' })).receipts).toBe(1);
+      expect((await hybrid.getRollingMetrics('hour', {}, Date.now() + 2 * hour)).receipts).toBe(0);
+
+      hybrid.resetMetrics();
+      expect(hybrid.getAttempts()).toEqual([]);
+      expect(await hybrid.queryAttempts()).toHaveLength(2);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
 // ============================================================================
 // Integration Tests
 // ============================================================================
@@ -2,7 +2,17 @@
  * Type definitions for Groq OCR Fallback & Hybrid Strategy
  */
 
-import { OcrResult, OcrInput } from '../receipt-extraction/types';
+import { OcrResult, OcrInput, DocumentType } from '../receipt-extraction/types';
+import type { CallIdentity, PromptStamp, TokenUsage } from '../receipt-extraction/types';
+import type { PromptVariables } from '../receipt-extraction/promptRegistry';
+import type { PricingConfig } from '../receipt-extraction/pricing';
+import type { BudgetManager } from './BudgetManager';
+import type { AttemptStore } from './AttemptStore';
+import type { ImageIntakeOptions } from '../receipt-extraction/imageIntake';
+import type { CallLimits } from '../receipt-extraction/deadline';
+import type { Logger } from '../receipt-extraction/logger';
+import type { SpanContext, Tracer } from '../receipt-extraction/tracing';
+import type { MetricsRegistry } from '../receipt-extraction/metrics';
 
 /**
  * Receipt classification result
@@ -27,23 +37,129 @@ export interface ReceiptClassification {
   };
 }
 
+/**
+ * Which path a receipt was sent down first
+ * 
+ * simple        - Groq (classifier confident it is a simple receipt)
+ * complex       - Claude (classifier unsure or receipt complex)
+ * document_type - Claude (caller's expectedDocumentType is in claudeDocumentTypes)
+ */
+export type ReceiptRoute = 'simple' | 'complex' | 'document_type';
+
+/**
+ * Anything that parses OCR text into a receipt (GroqTextAdapter,
+ * MockGroqAdapter, CachedGroqAdapter)
+ */
+export interface GroqAdapter {
+  parseReceiptText(rawText: string, correlationId: string, options?: GroqParseOptions): Promise<OcrResult>;
+
+  /** Prompt and model a call would use (CachedGroqAdapter keys on it) */
+  callIdentity?(rawText: string, options?: GroqParseOptions): CallIdentity;
+}
+
+/**
+ * Per-call options for a Groq parse: prompt selection (see promptRegistry.ts),
+ * model, signal / deadline (see deadline.ts) and trace parent
+ */
+export interface GroqParseOptions extends CallLimits {
+  /** Picks the client's prompt override, if any */
+  clientId?: string;
+
+  promptVariables?: PromptVariables;
+
+  /** Model for this call instead of GroqConfig.model (e.g. one rung of an escalation ladder) */
+  model?: string;
+
+  /** Span the call's span is a child of (see receipt-extraction/tracing.ts) */
+  traceParent?: SpanContext;
+}
+
 /**
  * OCR attempt result (for tracking)
  */
 export interface OcrAttempt {
   provider: 'claude' | 'groq' | 'paddle';
   success: boolean;
-  cost: number;              // in Baht
+  cost: number;              // in Baht, from usage × price table (see pricing.ts)
+  costUsd?: number;          // as billed; unset when estimated
+  usage?: TokenUsage;        // tokens the provider reported
+  costEstimated?: boolean;   // true = no usage or unpriced model: estimatedCostThb charged
+  prompt?: PromptStamp;      // template that produced `result`
+  model?: string;            // ladder rung requested, else the model the provider reported
   duration: number;          // in milliseconds
   result?: OcrResult;
   error?: string;
+  errorType?: string;        // OcrError subclass name, e.g. 'RateLimitedError'
+  skipped?: boolean;         // true = not called (e.g. circuit open)
+  cached?: boolean;          // true = served from the result cache (cost 0)
+}
+
+/**
+ * An attempt as kept in the attempt history (see AttemptStore.ts)
+ */
+export interface AttemptRecord extends OcrAttempt {
+  at: number;                // epoch ms when recorded
+  correlationId: string;
+  clientId?: string;
+  needsReview?: boolean;     // result needed manual review (set when there is a result)
+}
+
+/**
+ * Filter for AttemptStore.query - all fields optional, combined with AND
+ */
+export interface AttemptQuery {
+  clientId?: string;
+  provider?: OcrAttempt['provider'];
+  correlationId?: string;
+  
+  /** Epoch ms, inclusive */
+  from?: number;
+  
+  /** Epoch ms, exclusive */
+  to?: number;
+  
+  /** Most recent N matches only */
+  limit?: number;
+}
+
+/**
+ * Rolling window for HybridOcrStrategy.getRollingMetrics
+ */
+export type AttemptWindow = 'hour' | 'day' | 'month';
+
+/**
+ * Per-provider figures in an AttemptSummary (skipped calls excluded)
+ */
+export interface ProviderSummary {
+  attempts: number;
+  successes: number;
+  successRate: number;
+  costThb: number;
+  avgDurationMs: number;
+}
+
+/**
+ * Metrics over a set of attempt records (see summarizeAttempts)
+ */
+export interface AttemptSummary {
+  receipts: number;          // distinct correlationIds
+  attempts: number;          // provider calls, skipped excluded
+  skipped: number;
+  costThb: number;
+  costUsd: number;           // measured attempts only
+  inputTokens: number;
+  outputTokens: number;
+  cacheHits: number;
+  claudeFallbacks: number;   // receipts Groq was called for that Claude then handled
+  manualReviewRate: number;  // share of receipts whose last result needs review
+  byProvider: Partial<Record<OcrAttempt['provider'], ProviderSummary>>;
 }
 
 /**
  * Hybrid OCR metrics
  */
 export interface HybridMetrics {
-  totalReceipts: number;
+  totalReceipts: number;      // receipts with at least one provider call, not attempts
   simpleCount: number;
   complexCount: number;
   groqSuccessRate: number;
@@ -51,7 +167,13 @@ export interface HybridMetrics {
   totalCost: number;
   avgCostPerReceipt: number;
   savingsVsClaudeOnly: number;
+  claudeOnlyCost: number;     // every receipt at the measured average Claude call
+  totalCostUsd: number;       // measured attempts only
+  inputTokens: number;
+  outputTokens: number;
+  estimatedCostCount: number; // attempts charged estimatedCostThb
   manualReviewRate: number;
+  cacheHits: number;
 }
 
 /**
@@ -69,6 +191,238 @@ export interface HybridStrategyConfig {
   
   /** Track metrics */
   enableMetrics: boolean; // default: true
+  
+  /**
+   * Document types that always go to Claude: skipped on Groq when the
+   * caller's expectedDocumentType matches, re-run on Claude when Groq
+   * classifies a receipt as one of them
+   */
+  claudeDocumentTypes: DocumentType[]; // default: full_tax_invoice, credit_note, debit_note
+  
+  /**
+   * Auto-accept threshold for the weakest critical field (amount, VAT,
+   * vendor, date); anything below goes to manual review
+   */
+  reviewConfidenceThreshold: number; // default: 0.95
+  
+  /**
+   * Normalise images (real format, EXIF orientation, size limits) before
+   * classification and any provider call; unset = images are used as given
+   */
+  imageIntake?: Partial<ImageIntakeOptions>;
+  
+  /** Token prices per model and the USD→THB rate (defaults: DEFAULT_PRICING) */
+  pricing?: Partial<PricingConfig>;
+  
+  /**
+   * Baht charged for a call whose result reports no token usage (mocks,
+   * third-party adapters) or whose model has no price
+   */
+  estimatedCostThb: Record<'groq' | 'claude', number>; // default: groq 0.05, claude 0.50
+  
+  /**
+   * Models to try per provider, cheapest first. A rung whose result fails
+   * validation or reconciliation, or scores below
+   * escalationConfidenceThreshold, is recorded as a failed attempt and the
+   * receipt is re-run on the next rung; the last rung's result stands.
+   * Groq re-runs (maxGroqRetries) climb the Groq ladder. Unset = the
+   * adapter's configured model only.
+   */
+  modelLadder?: Partial<Record<'groq' | 'claude', string[]>>;
+  
+  /** Confidence below which a result is escalated to the next ladder rung */
+  escalationConfidenceThreshold: number; // default: 0.8
+  
+  /** Per-provider circuit breaker settings (same for Groq and Claude) */
+  circuitBreaker?: Partial<CircuitBreakerConfig>;
+  
+  /** Spending caps checked before every provider call (unset = no limits) */
+  budget?: BudgetManager;
+  
+  /** Attempts kept in memory for getAttempts() (oldest dropped first) */
+  attemptHistoryLimit: number; // default: 1000
+  
+  /**
+   * Where attempts are kept for queryAttempts() and getRollingMetrics():
+   * JsonlAttemptStore or SqliteAttemptStore survive restarts (default:
+   * the in-memory history)
+   */
+  attemptStore?: AttemptStore;
+  
+  /**
+   * Deadline for a whole receipt when the input sets none: Groq attempts
+   * and the Claude fallback share it (unset = no deadline)
+   */
+  timeoutMs?: number;
+  
+  /**
+   * Structured logger; every line carries the receipt's correlationId and
+   * clientId (default: JSON logger at 'info', PII redacted)
+   */
+  logger?: Logger;
+  
+  /** Spans for each receipt, its classification and provider calls (default: NOOP_TRACER) */
+  tracer?: Tracer;
+  
+  /**
+   * Prometheus registry for receipt, attempt, latency, cost and breaker
+   * metrics (see HybridPrometheusMetrics.ts); unset = none recorded
+   */
+  metricsRegistry?: MetricsRegistry;
+}
+
+/**
+ * Circuit breaker state
+ * 
+ * closed    → requests flow, failures are counted
+ * open      → requests are skipped until the cool-down expires
+ * half-open → a limited number of probe requests decide open vs closed
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Circuit breaker configuration
+ */
+export interface CircuitBreakerConfig {
+  /** Consecutive failures that open the circuit */
+  failureThreshold: number; // default: 5
+  
+  /** Time spent open before allowing a probe */
+  cooldownMs: number; // default: 30000
+  
+  /** Concurrent probe requests allowed while half-open */
+  halfOpenMaxCalls: number; // default: 1
+}
+
+/**
+ * Read-only breaker state (for dashboards)
+ */
+export interface CircuitBreakerSnapshot {
+  name: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  totalFailures: number;
+  totalSuccesses: number;
+  /** Requests skipped because the circuit was open */
+  totalRejected: number;
+  /** Epoch ms when the circuit last opened */
+  openedAt: number | null;
+  /** Epoch ms when the next probe is allowed (open state only) */
+  nextAttemptAt: number | null;
+}
+
+/**
+ * Budget period; periods start at midnight in the configured UTC offset
+ */
+export type BudgetPeriod = 'daily' | 'monthly';
+
+/**
+ * What happens to a call once a budget passes its policy threshold
+ * 
+ * downgrade → Claude calls are refused, Groq continues up to the limit
+ * queue     → the receipt is parked until the period resets
+ * reject    → BudgetExceededError
+ */
+export type BudgetPolicy = 'downgrade' | 'queue' | 'reject';
+
+/**
+ * Limits in Baht (unset = unlimited)
+ */
+export interface BudgetLimits {
+  dailyThb?: number;
+  monthlyThb?: number;
+}
+
+/**
+ * Budget manager configuration
+ */
+export interface BudgetConfig {
+  /** All clients together */
+  global: BudgetLimits; // default: none
+  
+  /** Every client without an entry in `clients` */
+  perClient: BudgetLimits; // default: none
+  
+  /** Per-client overrides, keyed by OcrInput.clientId */
+  clients: Record<string, BudgetLimits>; // default: {}
+  
+  policy: BudgetPolicy; // default: 'downgrade'
+  
+  /** Fraction of a limit at which the policy applies */
+  policyThreshold: number; // default: 0.9
+  
+  /** Fractions of a limit that raise an alert, once per period */
+  alertThresholds: number[]; // default: [0.5, 0.8, 1]
+  
+  /** Offset of the budget day from UTC */
+  utcOffsetMinutes: number; // default: 420 (Asia/Bangkok)
+  
+  /** Alert sink (default: a warn line on `logger`) */
+  onAlert?: (alert: BudgetAlert) => void;
+  
+  /** Default: JSON logger at 'warn' */
+  logger?: Logger;
+}
+
+/**
+ * One limit and what has been spent against it this period
+ */
+export interface BudgetLimitStatus {
+  scope: 'global' | 'client';
+  clientId?: string;
+  period: BudgetPeriod;
+  
+  /** e.g. '2026-10-18' (daily) or '2026-10' (monthly) */
+  periodKey: string;
+  
+  limitThb: number;
+  spentThb: number;
+  
+  /** Epoch ms when the period ends */
+  resetsAt: number;
+}
+
+/**
+ * A limit crossed one of the alert thresholds
+ */
+export interface BudgetAlert extends BudgetLimitStatus {
+  threshold: number;
+}
+
+/**
+ * Outcome of a budget check for one call
+ */
+export interface BudgetDecision {
+  action: 'allow' | BudgetPolicy;
+  
+  /** The limit that decided it (unset when allowed) */
+  limit?: BudgetLimitStatus;
+  
+  /** Estimated cost held for the call (set when allowed by reserve/authorize) */
+  reservation?: BudgetReservation;
+}
+
+/**
+ * Estimated cost held against the budgets while a call is in flight;
+ * settled by recordSpend or given back by release
+ */
+export interface BudgetReservation {
+  id: number;
+  amountThb: number;
+}
+
+/**
+ * Receipt parked by the 'queue' policy
+ */
+export interface QueuedReceipt {
+  id: number;
+  input: OcrInput;
+  queuedAt: number;
+  
+  /** Epoch ms when the blocking period resets */
+  releaseAt: number;
+  
+  reason: string;
 }
 
 /**
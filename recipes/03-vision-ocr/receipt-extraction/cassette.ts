@@ -0,0 +1,246 @@
+/**
+ * Record/Replay Cassettes
+ *
+ * A fetch wrapper for the real adapters (RealClaudeAdapter, GroqTextAdapter):
+ *
+ *   RECORD - call the provider and save each request/response pair
+ *   REPLAY - answer from saved pairs, offline, without an API key
+ *
+ * Lets prompt and parser changes be regression-tested against real
+ * historical responses at no cost.
+ *
+ * Cassettes are keyed by a hash of the request (method, path, body), so
+ * the base URL and headers do not matter. Credentials are redacted before
+ * anything is written. File layout:
+ *
+ *   cassettes/
+ *     claude/<sha256>.json
+ *     groq/<sha256>.json
+ *
+ * With matchOn: 'input' the key ignores the prompt: Anthropic requests
+ * are keyed on model + images, so a new prompt template version still replays the
+ * responses recorded for the same receipts. Groq embeds the OCR text in
+ * its prompt, so GroqTextAdapter passes the text as `input` and the key
+ * is model + OCR text.
+ *
+ * Retryable failures (429/5xx) are passed through but not recorded, so a
+ * cassette holds what the provider finally answered.
+ */
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { contentHash } from './hash';
+import { isRetryableStatus } from './retry';
+import { OcrError } from './errors';
+import type { OcrErrorContext, OcrProvider } from './errors';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CassetteMode = 'RECORD' | 'REPLAY';
+
+/** The subset of fetch the adapters use */
+export type FetchLike = (url: string, init?: RequestInit) => Promise<Response>;
+
+export interface CassetteOptions {
+  mode: CassetteMode;
+
+  /** Root directory; entries go to <dir>/<provider>/<key>.json */
+  dir: string;
+
+  provider: OcrProvider;
+
+  /** 'request' (default): whole body. 'input': ignore prompt text */
+  matchOn?: 'request' | 'input';
+
+  /**
+   * The call's receipt input, for requests that embed it in the prompt
+   * (Groq's OCR text): with matchOn 'input' the key is model + this
+   */
+  input?: string;
+
+  /** Transport used in RECORD mode (default: global fetch) */
+  fetch?: FetchLike;
+}
+
+export interface CassetteEntry {
+  key: string;
+  provider: OcrProvider;
+  recordedAt: string;
+  request: {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    body: unknown;
+  };
+  response: {
+    status: number;
+    headers: Record<string, string>;
+    body: string;
+  };
+}
+
+/**
+ * REPLAY found no cassette for a request. Permanent: re-record it.
+ */
+export class CassetteMissError extends OcrError {
+  readonly key: string;
+
+  constructor(message: string, context: OcrErrorContext & { key: string }) {
+    super(message, { ...context, retryable: false });
+    this.name = 'CassetteMissError';
+    this.key = context.key;
+  }
+}
+
+/** Cassette root when AppConfig.CASSETTE_DIR is not set */
+export const DEFAULT_CASSETTE_DIR = 'cassettes';
+
+const REDACTED = '[REDACTED]';
+const SECRET_HEADER = /^(authorization|x-api-key|api-key|cookie|set-cookie)$|token|secret/i;
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Build a fetch that records to, or replays from, cassettes
+ */
+export function createCassetteFetch(options: CassetteOptions): FetchLike {
+  const transport = options.fetch ?? ((input, init) => fetch(input, init));
+  const providerDir = join(options.dir, options.provider);
+
+  return async (url, init) => {
+    const request = new Request(url, init);
+    const bodyText = await request.text();
+    const body = parseJson(bodyText);
+    const key = cassetteKey(request.method, request.url, body, options.matchOn, options.input);
+    const file = join(providerDir, `${key}.json`);
+
+    if (options.mode === 'REPLAY') {
+      const text = await readFile(file, 'utf8').catch(() => null);
+      if (text === null) {
+        throw new CassetteMissError(`No ${options.provider} cassette for request ${key.slice(0, 12)}`, {
+          provider: options.provider,
+          key,
+        });
+      }
+      const entry = JSON.parse(text) as CassetteEntry;
+      return new Response(entry.response.body, {
+        status: entry.response.status,
+        headers: entry.response.headers,
+      });
+    }
+
+    const response = await transport(request.url, {
+      method: request.method,
+      headers: request.headers,
+      body: bodyText === '' ? undefined : bodyText,
+      signal: init?.signal,
+    });
+    const responseText = await response.text();
+
+    if (!isRetryableStatus(response.status)) {
+      const entry: CassetteEntry = {
+        key,
+        provider: options.provider,
+        recordedAt: new Date().toISOString(),
+        request: {
+          method: request.method,
+          url: request.url,
+          headers: redactHeaders(request.headers),
+          body,
+        },
+        response: {
+          status: response.status,
+          headers: redactHeaders(response.headers),
+          body: responseText,
+        },
+      };
+      await mkdir(providerDir, { recursive: true });
+      await writeFile(file, JSON.stringify(entry, null, 2));
+    }
+
+    return new Response(responseText, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  };
+}
+
+/**
+ * Cassette key: SHA-256 of method, URL path and canonical JSON body
+ *
+ * @param input - See CassetteOptions.input
+ */
+export function cassetteKey(
+  method: string,
+  url: string,
+  body: unknown,
+  matchOn: CassetteOptions['matchOn'] = 'request',
+  input?: string
+): string {
+  const keyBody = matchOn === 'input' ? stripPrompt(body, input) : body;
+  return contentHash(`${method.toUpperCase()} ${new URL(url).pathname}\n${canonicalJson(keyBody)}`);
+}
+
+/**
+ * Copy headers with credentials replaced by [REDACTED]
+ */
+export function redactHeaders(headers: Headers | Record<string, string>): Record<string, string> {
+  const entries = headers instanceof Headers ? [...headers.entries()] : Object.entries(headers);
+  return Object.fromEntries(
+    entries.map(([name, value]) => [name.toLowerCase(), SECRET_HEADER.test(name) ? REDACTED : value])
+  );
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Keep only the receipt input of a request body: the model, and either
+ * the caller's `input` or each non-system message reduced to its image
+ * blocks (string content, as in chat completions, is kept whole)
+ */
+function stripPrompt(body: unknown, input: string | undefined): unknown {
+  if (!isObject(body)) return body;
+  if (input !== undefined) return { model: body.model, input };
+  if (!Array.isArray(body.messages)) return body;
+
+  return {
+    model: body.model,
+    messages: body.messages
+      .filter((m) => !(isObject(m) && m.role === 'system'))
+      .map((m) =>
+        isObject(m) && Array.isArray(m.content)
+          ? m.content.filter((block) => isObject(block) && (block.type === 'image' || block.type === 'image_url'))
+          : m
+      ),
+  };
+}
+
+/**
+ * JSON with object keys sorted, so key order never changes the hash
+ */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, v) =>
+    isObject(v) && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+      : v
+  );
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null;
+}
@@ -2,8 +2,11 @@
  * Claude Vision Adapter for Receipt OCR
  * 
  * Supports dual mode:
- * - DEV: Returns mock data (fast, free, deterministic)
+ * - DEV: Returns mock data (fast, free, deterministic); fixtures keyed by
+ *   image hash can return other results or script failures (mockFixtures.ts)
  * - PROD: Calls Claude API (real OCR)
+ * - RECORD / REPLAY: PROD adapter whose HTTP calls are saved to, or served
+ *   from, cassettes (cassette.ts); REPLAY needs no API key or network
  * 
  * Usage:
  *   const adapter = createClaudeAdapter(config);
@@ -12,77 +15,106 @@
 
 import type {
   AppConfig,
+  CallIdentity,
   ClaudeAdapter,
   ExtractReceiptParams,
   ReceiptOcrResult,
-  OcrError,
+  ReceiptLineItem,
 } from './types';
-
-// ============================================================================
-// Helper: Simple Logger
-// ============================================================================
-
-function createLogger(config: AppConfig) {
-  const minLevel = config.LOG_LEVEL;
-  const levels = ['debug', 'info', 'warn', 'error'] as const;
-  const minIndex = levels.indexOf(minLevel);
-
-  function log(level: typeof levels[number], msg: string, ctx: any = {}) {
-    if (levels.indexOf(level) < minIndex) return;
-    
-    const payload = {
-      ts: new Date().toISOString(),
-      level,
-      msg,
-      ...ctx,
-    };
-
-    if (config.MODE === 'DEV') {
-      console.log(JSON.stringify(payload, null, 2));
-    } else {
-      console.log(JSON.stringify(payload));
-    }
-  }
-
-  return {
-    debug: (msg: string, ctx?: any) => log('debug', msg, ctx),
-    info: (msg: string, ctx?: any) => log('info', msg, ctx),
-    warn: (msg: string, ctx?: any) => log('warn', msg, ctx),
-    error: (msg: string, ctx?: any) => log('error', msg, ctx),
-  };
-}
+import {
+  AuthFailedError,
+  InvalidResponseError,
+  OcrError,
+  ProviderUnavailableError,
+  errorFromResponse,
+  toOcrError,
+} from './errors';
+import { validateReceiptOcrResult } from './validation';
+import { applyReconciliation, summarizeReconciliation } from './reconciliation';
+import { normalizeIssueDate } from './thaiDate';
+import {
+  CRITICAL_FIELDS,
+  FIELD_EVIDENCE_SCHEMA,
+  parseFieldEvidence,
+  parseReceiptFieldEvidence,
+} from './fieldEvidence';
+import { createLogger } from './logger';
+import type { Logger } from './logger';
+import { NOOP_TRACER, errorOutcome, usageAttributes } from './tracing';
+import type { Tracer } from './tracing';
+import { fetchWithRetry, parseRetryAfter } from './retry';
+import { assessFullTaxInvoice, normalizeBranch, normalizeThaiTaxId } from './taxInvoice';
+import { DOCUMENT_TYPES, applyDocumentTypeSign, isDocumentType } from './documentType';
+import { imageContentHash } from './hash';
+import { MockFixturePlayer } from './mockFixtures';
+import type { MockFixtureOptions } from './mockFixtures';
+import { DEFAULT_CASSETTE_DIR, createCassetteFetch } from './cassette';
+import type { FetchLike } from './cassette';
+import { prepareReceiptImage } from './imageIntake';
+import { abortedError, callSignal, throwIfAborted } from './deadline';
+import { CLAUDE_PROMPT_ID, PromptRegistry, defaultPromptRegistry } from './promptRegistry';
 
 // ============================================================================
 // DEV Mode: Mock Adapter
 // ============================================================================
 
 class MockClaudeAdapter implements ClaudeAdapter {
-  private logger: ReturnType<typeof createLogger>;
-
-  constructor(config: AppConfig) {
-    this.logger = createLogger(config);
+  private logger: Logger;
+  private fixtures: MockFixturePlayer;
+
+  constructor(config: AppConfig, options: MockFixtureOptions = {}) {
+    this.logger = config.LOGGER ?? createLogger(config);
+    this.fixtures = new MockFixturePlayer('claude', 200, {
+      ...options,
+      fixturesDir: options.fixturesDir ?? config.MOCK_FIXTURES_DIR,
+      latencyMs: options.latencyMs ?? config.MOCK_LATENCY_MS,
+    });
   }
 
   async extractReceiptFromImage(
     params: ExtractReceiptParams
   ): Promise<ReceiptOcrResult> {
+    const imageHash = imageContentHash(params.imageBase64);
     this.logger.debug('MockClaudeAdapter.extractReceiptFromImage called', {
       correlationId: params.correlationId,
       imageLength: params.imageBase64.length,
+      imageHash,
     });
 
-    // Simulate API latency (200ms)
-    await new Promise((resolve) => setTimeout(resolve, 200));
+    // Simulate API latency (200ms default) and any scripted failure
+    const mockResult = await this.fixtures.play(
+      imageHash,
+      params.correlationId,
+      () => this.defaultResult(),
+      callSignal(params)
+    );
 
-    // Return deterministic mock data
-    const mockResult: ReceiptOcrResult = {
+    this.logger.info('MockClaudeAdapter.extractReceiptFromImage success', {
+      correlationId: params.correlationId,
+      amountSatang: mockResult.amountSatang,
+    });
+
+    return mockResult;
+  }
+
+  /**
+   * Deterministic result for images without a fixture
+   */
+  private defaultResult(): ReceiptOcrResult {
+    return {
       amountSatang: 35000, // 350.00 Baht
       currency: 'THB',
       vatAmountSatang: 2280, // 22.80 Baht (7% VAT)
       vendorName: 'ร้านกาแฟดี (Mock Cafe)',
       issueDate: '2026-01-22',
-      rawText: 'Mock receipt text: Latte x2, Sandwich x1',
+      rawText: 'Mock receipt text: Latte x2, Sandwich x1, Croissant x1',
       confidence: 0.95,
+      fieldEvidence: {
+        amountSatang: { confidence: 0.98, sourceText: 'รวมทั้งสิ้น 350.00', region: { x: 0.1, y: 0.8, width: 0.8, height: 0.05 } },
+        vatAmountSatang: { confidence: 0.96, sourceText: 'VAT 7% 22.80', region: { x: 0.1, y: 0.75, width: 0.8, height: 0.05 } },
+        vendorName: { confidence: 0.99, sourceText: 'ร้านกาแฟดี', region: { x: 0.2, y: 0.05, width: 0.6, height: 0.08 } },
+        issueDate: { confidence: 0.97, sourceText: '22/01/2569', region: { x: 0.1, y: 0.15, width: 0.4, height: 0.04 } },
+      },
       lineItems: [
         {
           description: 'Latte',
@@ -96,36 +128,206 @@ class MockClaudeAdapter implements ClaudeAdapter {
           unitPriceSatang: 12000,
           totalSatang: 12000,
         },
+        {
+          description: 'Croissant',
+          quantity: 1,
+          unitPriceSatang: 7000,
+          totalSatang: 7000,
+        },
       ],
     };
-
-    this.logger.info('MockClaudeAdapter.extractReceiptFromImage success', {
-      correlationId: params.correlationId,
-      amountSatang: mockResult.amountSatang,
-    });
-
-    return mockResult;
   }
 }
 
+// ============================================================================
+// Tool Definition: record_receipt
+// ============================================================================
+
+/**
+ * Tool Claude is forced to call with the extracted receipt.
+ *
+ * The input schema mirrors ReceiptOcrResult (snake_case on the wire).
+ * Using tool_use instead of "return JSON only" means the API hands us an
+ * already-parsed object - no markdown fences to strip, no JSON.parse.
+ * 
+ * The prompt (prompts/record-receipt.v<N>.md) describes these fields:
+ * a schema change needs a new template version too.
+ */
+export const RECORD_RECEIPT_TOOL = {
+  name: 'record_receipt',
+  description:
+    'Record the structured data extracted from a Thai receipt image. All monetary amounts are integers in Satang.',
+  input_schema: {
+    type: 'object',
+    properties: {
+      document_type: {
+        type: 'string',
+        enum: DOCUMENT_TYPES,
+        description: 'Kind of document (see prompt for the Thai terms)',
+      },
+      total_amount_satang: {
+        type: 'integer',
+        description: 'Grand total in Satang (1 Baht = 100 Satang), as printed',
+      },
+      vat_amount_satang: {
+        type: ['integer', 'null'],
+        description: 'VAT amount in Satang, null if not shown',
+      },
+      subtotal_satang: {
+        type: ['integer', 'null'],
+        description: 'Subtotal (รวม / Subtotal) in Satang as printed, null if not shown',
+      },
+      service_charge_satang: {
+        type: ['integer', 'null'],
+        description: 'Service charge (ค่าบริการ) in Satang, null if none',
+      },
+      discount_satang: {
+        type: ['integer', 'null'],
+        description: 'Total discount (ส่วนลด) in Satang as a positive number, null if none',
+      },
+      vendor_name: {
+        type: ['string', 'null'],
+        description: 'Merchant/shop name',
+      },
+      issue_date: {
+        type: ['string', 'null'],
+        description: 'Issue date as YYYY-MM-DD in Christian Era',
+      },
+      seller_tax_id: {
+        type: ['string', 'null'],
+        description: "Seller's 13-digit tax ID (เลขประจำตัวผู้เสียภาษี), digits only",
+      },
+      seller_branch: {
+        type: ['string', 'null'],
+        description: "'สำนักงานใหญ่' for head office, otherwise the branch number (สาขา)",
+      },
+      tax_invoice_number: {
+        type: ['string', 'null'],
+        description: 'Tax invoice number (เลขที่ใบกำกับภาษี)',
+      },
+      buyer_name: {
+        type: ['string', 'null'],
+        description: 'Buyer name printed on the invoice (ชื่อผู้ซื้อ)',
+      },
+      buyer_tax_id: {
+        type: ['string', 'null'],
+        description: "Buyer's 13-digit tax ID, digits only",
+      },
+      confidence: {
+        type: 'number',
+        minimum: 0,
+        maximum: 1,
+        description: 'Overall extraction confidence',
+      },
+      raw_text: {
+        type: 'string',
+        description: 'Brief summary of the text on the receipt, with the date and time lines copied exactly as printed',
+      },
+      line_items: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            description: { type: 'string' },
+            quantity: { type: 'number' },
+            unit_price_satang: { type: 'integer' },
+            total_satang: { type: 'integer' },
+            evidence: FIELD_EVIDENCE_SCHEMA,
+          },
+          required: ['description', 'quantity', 'unit_price_satang', 'total_satang'],
+        },
+      },
+      field_evidence: {
+        type: 'object',
+        description: 'Per-field confidence, the printed text each value was read from, and its approximate region',
+        properties: Object.fromEntries(
+          CRITICAL_FIELDS.map(({ wire }) => [wire, FIELD_EVIDENCE_SCHEMA])
+        ),
+      },
+    },
+    required: [
+      'document_type',
+      'total_amount_satang',
+      'vat_amount_satang',
+      'subtotal_satang',
+      'service_charge_satang',
+      'discount_satang',
+      'vendor_name',
+      'issue_date',
+      'seller_tax_id',
+      'seller_branch',
+      'tax_invoice_number',
+      'buyer_name',
+      'buyer_tax_id',
+      'confidence',
+      'field_evidence',
+    ],
+  },
+} as const;
+
 // ============================================================================
 // PROD Mode: Real Claude API Adapter
 // ============================================================================
 
+/** Default Anthropic API origin (override with CLAUDE_BASE_URL) */
+export const DEFAULT_CLAUDE_BASE_URL = 'https://api.anthropic.com';
+
+/** Model used for extraction unless AppConfig.CLAUDE_MODEL or params.model says otherwise */
+export const DEFAULT_CLAUDE_MODEL = 'claude-3-5-sonnet-20241022';
+
+/** Output token cap unless AppConfig.CLAUDE_MAX_TOKENS is set */
+export const DEFAULT_CLAUDE_MAX_TOKENS = 1024;
+
 class RealClaudeAdapter implements ClaudeAdapter {
-  private logger: ReturnType<typeof createLogger>;
+  private logger: Logger;
   private apiKey: string;
+  private apiUrl: string;
+  private retryPolicy: AppConfig['RETRY'];
+  private fetch: FetchLike;
+  private imageIntake: AppConfig['IMAGE_INTAKE'];
+  private prompts: PromptRegistry;
+  private model: string;
+  private maxTokens: number;
+  private tracer: Tracer;
 
   constructor(config: AppConfig) {
-    this.logger = createLogger(config);
-
-    if (!config.CLAUDE_API_KEY) {
-      throw new Error(
-        'CLAUDE_API_KEY is required in PROD mode. Set it in .env or pass via config.'
+    this.logger = config.LOGGER ?? createLogger(config);
+    this.tracer = config.TRACER ?? NOOP_TRACER;
+    this.model = config.CLAUDE_MODEL ?? DEFAULT_CLAUDE_MODEL;
+    this.maxTokens = config.CLAUDE_MAX_TOKENS ?? DEFAULT_CLAUDE_MAX_TOKENS;
+    this.imageIntake = config.IMAGE_INTAKE;
+    this.prompts =
+      config.PROMPTS_DIR || config.PROMPT_VERSIONS
+        ? PromptRegistry.fromDirectory(config.PROMPTS_DIR, { pins: config.PROMPT_VERSIONS })
+        : defaultPromptRegistry();
+    this.retryPolicy = config.RETRY;
+    this.apiUrl = `${(config.CLAUDE_BASE_URL ?? DEFAULT_CLAUDE_BASE_URL).replace(/\/+$/, '')}/v1/messages`;
+    this.fetch =
+      config.MODE === 'RECORD' || config.MODE === 'REPLAY'
+        ? createCassetteFetch({
+            mode: config.MODE,
+            dir: config.CASSETTE_DIR ?? DEFAULT_CASSETTE_DIR,
+            provider: 'claude',
+            matchOn: config.CASSETTE_MATCH_ON,
+          })
+        : (input, init) => fetch(input, init);
+
+    // REPLAY answers from cassettes, so it runs without a key
+    if (!config.CLAUDE_API_KEY && config.MODE !== 'REPLAY') {
+      throw new AuthFailedError(
+        `CLAUDE_API_KEY is required in ${config.MODE} mode. Set it in .env or pass via config.`,
+        { provider: 'claude' }
       );
     }
 
-    this.apiKey = config.CLAUDE_API_KEY;
+    this.apiKey = config.CLAUDE_API_KEY ?? '';
+  }
+
+  callIdentity(params: ExtractReceiptParams): CallIdentity {
+    return {
+      promptFingerprint: this.prompts.render(CLAUDE_PROMPT_ID, params.promptVariables, params.clientId).fingerprint,
+      model: params.model ?? this.model,
+    };
   }
 
   async extractReceiptFromImage(
@@ -133,108 +335,165 @@ class RealClaudeAdapter implements ClaudeAdapter {
   ): Promise<ReceiptOcrResult> {
     this.logger.info('RealClaudeAdapter.extractReceiptFromImage request', {
       correlationId: params.correlationId,
+      model: params.model ?? this.model,
     });
 
-    const prompt = this.buildPrompt();
-    const requestBody = this.buildRequest(params, prompt);
+    const { correlationId } = params;
+    const signal = callSignal(params);
+    const span = this.tracer.startSpan('claude.extractReceiptFromImage', {
+      parent: params.traceParent,
+      attributes: {
+        'ocr.correlation_id': correlationId,
+        'ocr.provider': 'claude',
+        'ocr.model': params.model ?? this.model,
+      },
+    });
 
     try {
-      const response = await fetch('https://api.anthropic.com/v1/messages', {
-        method: 'POST',
-        headers: {
-          'content-type': 'application/json',
-          'x-api-key': this.apiKey,
-          'anthropic-version': '2023-06-01',
-        },
-        body: JSON.stringify(requestBody),
+      // Real format, size and orientation - rejects bad images before the paid call
+      const image = await prepareReceiptImage(params.imageBase64, { ...this.imageIntake, correlationId });
+      if (image.transforms.length > 0) {
+        this.logger.info('RealClaudeAdapter image normalised', {
+          correlationId,
+          sourceFormat: image.sourceFormat,
+          sourceBytes: image.sourceBytes,
+          bytes: image.bytes,
+          transforms: image.transforms,
+        });
+      }
+
+      const prompt = this.prompts.render(CLAUDE_PROMPT_ID, params.promptVariables, params.clientId);
+      const requestBody = this.buildRequest(
+        { ...params, imageBase64: image.imageBase64, imageFormat: image.imageFormat },
+        prompt.text
+      );
+
+      // Image preparation may have used up the deadline: don't start a paid call
+      throwIfAborted(signal, { correlationId, provider: 'claude' });
+      const response = await fetchWithRetry(
+        () =>
+          this.fetch(this.apiUrl, {
+            method: 'POST',
+            headers: {
+              'content-type': 'application/json',
+              'x-api-key': this.apiKey,
+              'anthropic-version': '2023-06-01',
+            },
+            body: JSON.stringify(requestBody),
+            signal,
+          }),
+        {
+          correlationId: params.correlationId,
+          provider: 'claude',
+          policy: this.retryPolicy,
+          logger: this.logger,
+          signal,
+        }
+      ).catch((error) => {
+        if (error instanceof OcrError) throw error;
+        throw new ProviderUnavailableError('Claude API unreachable', {
+          correlationId,
+          provider: 'claude',
+          cause: error,
+        });
       });
 
       if (!response.ok) {
         const errorText = await response.text();
+        // The body can echo request content: keep the start only (the logger redacts PII)
         this.logger.error('Claude API error', {
           correlationId: params.correlationId,
           status: response.status,
-          error: errorText,
+          error: errorText.slice(0, 500),
+        });
+        throw errorFromResponse(response.status, errorText, {
+          correlationId,
+          provider: 'claude',
+          retryAfterMs: parseRetryAfter(response.headers),
+        });
+      }
+
+      const data = await response.json().catch((error) => {
+        if (signal?.aborted) throw abortedError(signal, { correlationId, provider: 'claude' });
+        throw new InvalidResponseError('Claude returned a non-JSON body', {
+          correlationId,
+          provider: 'claude',
+          cause: error,
+        });
+      });
+      const result = normalizeIssueDate(this.parseResponse(data, params.correlationId, requestBody.model));
+      result.prompt = prompt.stamp;
+      if (result.dateNormalization!.overridden) {
+        this.logger.info('RealClaudeAdapter issueDate normalised', {
+          correlationId: params.correlationId,
+          ...result.dateNormalization,
+          issueDate: result.issueDate,
+        });
+      }
+
+      result.violations = validateReceiptOcrResult(result, {
+        closedPeriodEnd: params.closedPeriodEnd,
+      });
+      applyReconciliation(result);
+
+      if (result.violations.length > 0) {
+        this.logger.warn('RealClaudeAdapter result failed validation', {
+          correlationId: params.correlationId,
+          violations: result.violations.map((v) => `${v.field}:${v.rule}`),
         });
-        throw new Error(`Claude API error: ${response.status} - ${errorText}`);
       }
 
-      const data = await response.json();
-      const result = this.parseResponse(data, params.correlationId);
+      if (!result.reconciliation!.isConsistent) {
+        this.logger.warn('RealClaudeAdapter result does not reconcile', {
+          correlationId: params.correlationId,
+          vatPricing: result.reconciliation!.vatPricing,
+          failedChecks: summarizeReconciliation(result.reconciliation!),
+          subtotalTotalSwapped: result.reconciliation!.subtotalTotalSwapped,
+          confidence: result.confidence,
+        });
+      }
 
       this.logger.info('RealClaudeAdapter.extractReceiptFromImage success', {
         correlationId: params.correlationId,
         amountSatang: result.amountSatang,
         confidence: result.confidence,
+        inputTokens: result.usage?.inputTokens,
+        outputTokens: result.usage?.outputTokens,
+        prompt: `${prompt.stamp.id}@${prompt.stamp.version}`,
       });
+      span.setAttributes({ ...usageAttributes(result.usage), 'ocr.outcome': 'success' });
 
       return result;
     } catch (error) {
+      // e.g. the error body read cut off by the deadline
+      const ocrError =
+        signal?.aborted && !(error instanceof OcrError)
+          ? abortedError(signal, { correlationId, provider: 'claude' })
+          : toOcrError(error, { correlationId, provider: 'claude' });
       this.logger.error('RealClaudeAdapter.extractReceiptFromImage failed', {
-        correlationId: params.correlationId,
-        error: (error as Error).message,
+        correlationId,
+        error: ocrError.message,
+        errorType: ocrError.name,
+        status: ocrError.status,
+        retryable: ocrError.retryable,
       });
-      throw error;
+      span.recordError(ocrError);
+      span.setAttributes({ 'ocr.outcome': errorOutcome(ocrError), 'ocr.status': ocrError.status });
+      throw ocrError;
+    } finally {
+      span.end();
     }
   }
 
-  /**
-   * Build the prompt for Claude
-   * 
-   * Best practices:
-   * - Be specific about output format (JSON)
-   * - Request amounts in Satang (avoid decimals)
-   * - Provide Thai context (VAT, date formats)
-   * - Ask for confidence scores
-   */
-  private buildPrompt(): string {
-    return `You are a Thai accounting OCR assistant. Extract structured data from this receipt image.
-
-**Instructions:**
-1. Extract the following fields and return as JSON:
-   - total_amount_satang: Total amount in Satang (1 Baht = 100 Satang)
-   - vat_amount_satang: VAT amount in Satang (null if not shown)
-   - vendor_name: Merchant/shop name
-   - issue_date: Date in YYYY-MM-DD format (convert Buddhist Era to Christian Era if needed)
-   - line_items: Array of items (optional)
-
-2. Thai context:
-   - VAT is typically 7% in Thailand
-   - Dates may be in Buddhist Era (BE) - convert to CE by subtracting 543
-   - Common terms: รวม (total), ภาษี (tax), วันที่ (date)
-
-3. Quality:
-   - If a field is unclear, set to null
-   - Include a confidence score (0.0-1.0) for overall extraction
-
-**Output format (JSON only, no markdown):**
-{
-  "total_amount_satang": number,
-  "vat_amount_satang": number | null,
-  "vendor_name": string | null,
-  "issue_date": "YYYY-MM-DD" | null,
-  "confidence": number,
-  "raw_text": "brief text summary",
-  "line_items": [
-    {
-      "description": string,
-      "quantity": number,
-      "unit_price_satang": number,
-      "total_satang": number
-    }
-  ]
-}
-
-Return ONLY the JSON, no other text.`;
-  }
-
   /**
    * Build Claude API request body
    */
   private buildRequest(params: ExtractReceiptParams, prompt: string) {
     return {
-      model: 'claude-3-5-sonnet-20241022',
-      max_tokens: 1024,
+      model: params.model ?? this.model,
+      max_tokens: this.maxTokens,
+      tools: [RECORD_RECEIPT_TOOL],
+      tool_choice: { type: 'tool', name: RECORD_RECEIPT_TOOL.name },
       messages: [
         {
           role: 'user',
@@ -258,38 +517,162 @@ Return ONLY the JSON, no other text.`;
   }
 
   /**
-   * Parse Claude's response into ReceiptOcrResult
+   * Parse Claude's record_receipt tool call into ReceiptOcrResult
+   *
+   * Every required field is type-checked; anything missing or malformed
+   * raises InvalidResponseError rather than falling back to a default.
+   *
+   * @param requestedModel - Recorded in usage when the response omits its model
    */
-  private parseResponse(data: any, correlationId: string): ReceiptOcrResult {
-    const contentText = data.content?.[0]?.text || '{}';
-
-    // Claude may wrap JSON in markdown code blocks, remove them
-    const jsonText = contentText
-      .replace(/```json\s*/g, '')
-      .replace(/```\s*/g, '')
-      .trim();
+  private parseResponse(data: any, correlationId: string, requestedModel: string): ReceiptOcrResult {
+    const toolUse = Array.isArray(data?.content)
+      ? data.content.find(
+          (block: any) => block?.type === 'tool_use' && block.name === RECORD_RECEIPT_TOOL.name
+        )
+      : undefined;
+
+    if (!toolUse || typeof toolUse.input !== 'object' || toolUse.input === null) {
+      this.logger.error('Claude response has no record_receipt tool call', {
+        correlationId,
+        stopReason: data?.stop_reason,
+      });
+      throw new InvalidResponseError('Claude did not call record_receipt', {
+        correlationId,
+        provider: 'claude',
+      });
+    }
 
-    let parsed: any;
-    try {
-      parsed = JSON.parse(jsonText);
-    } catch (err) {
-      this.logger.error('Failed to parse Claude JSON', {
+    const input = toolUse.input;
+    const fail = (field: string, expected: string): never => {
+      this.logger.error('Invalid record_receipt field', {
         correlationId,
-        contentText,
+        field,
+        expected,
+        received: input[field],
       });
-      throw new Error('Claude returned invalid JSON');
+      throw new InvalidResponseError(
+        `record_receipt.${field} must be ${expected}`,
+        { correlationId, provider: 'claude', field }
+      );
+    };
+
+    const documentType = input.document_type;
+    if (!isDocumentType(documentType)) fail('document_type', `one of ${DOCUMENT_TYPES.join(', ')}`);
+
+    const amount = input.total_amount_satang;
+    if (!Number.isInteger(amount)) fail('total_amount_satang', 'an integer');
+
+    const vat = input.vat_amount_satang;
+    if (vat !== null && !Number.isInteger(vat)) fail('vat_amount_satang', 'an integer or null');
+
+    const vendor = input.vendor_name;
+    if (vendor !== null && typeof vendor !== 'string') fail('vendor_name', 'a string or null');
+
+    const date = input.issue_date;
+    if (date !== null && typeof date !== 'string') fail('issue_date', 'a string or null');
+
+    const confidence = input.confidence;
+    if (typeof confidence !== 'number' || confidence < 0 || confidence > 1) {
+      fail('confidence', 'a number between 0 and 1');
     }
 
-    return {
-      amountSatang: parsed.total_amount_satang || 0,
+    const rawText = input.raw_text;
+    if (rawText !== undefined && typeof rawText !== 'string') fail('raw_text', 'a string');
+
+    // Breakdown amounts: absent is treated as null
+    for (const field of ['subtotal_satang', 'service_charge_satang', 'discount_satang']) {
+      if (input[field] != null && !Number.isInteger(input[field])) {
+        fail(field, 'an integer or null');
+      }
+    }
+
+    // Tax invoice fields: absent is treated as null (taxInvoiceCheck flags it)
+    for (const field of [
+      'seller_tax_id',
+      'seller_branch',
+      'tax_invoice_number',
+      'buyer_name',
+      'buyer_tax_id',
+    ]) {
+      if (input[field] != null && typeof input[field] !== 'string') {
+        fail(field, 'a string or null');
+      }
+    }
+
+    const fieldEvidence = input.field_evidence;
+    if (fieldEvidence != null && (typeof fieldEvidence !== 'object' || Array.isArray(fieldEvidence))) {
+      fail('field_evidence', 'an object');
+    }
+
+    const result: ReceiptOcrResult = {
+      amountSatang: amount,
       currency: 'THB',
-      vatAmountSatang: parsed.vat_amount_satang ?? null,
-      vendorName: parsed.vendor_name ?? null,
-      issueDate: parsed.issue_date ?? null,
-      rawText: parsed.raw_text,
-      confidence: parsed.confidence ?? 0,
-      lineItems: parsed.line_items || [],
+      vatAmountSatang: vat,
+      subtotalSatang: input.subtotal_satang ?? null,
+      serviceChargeSatang: input.service_charge_satang ?? null,
+      discountSatang: input.discount_satang ?? null,
+      vendorName: vendor,
+      issueDate: date,
+      documentType,
+      sellerTaxId: normalizeThaiTaxId(input.seller_tax_id),
+      sellerBranch: normalizeBranch(input.seller_branch),
+      taxInvoiceNumber: input.tax_invoice_number ?? null,
+      buyerName: input.buyer_name ?? null,
+      buyerTaxId: normalizeThaiTaxId(input.buyer_tax_id),
+      rawText,
+      confidence,
+      fieldEvidence: parseReceiptFieldEvidence(fieldEvidence, (wire) =>
+        fail(`field_evidence.${wire}`, 'an evidence object with confidence between 0 and 1')
+      ),
+      lineItems: this.parseLineItems(input.line_items, fail),
     };
+    applyDocumentTypeSign(result);
+    result.taxInvoiceCheck = assessFullTaxInvoice(result);
+
+    // Billed tokens (pricing.ts turns them into Baht)
+    const usage = data.usage;
+    if (Number.isInteger(usage?.input_tokens) && Number.isInteger(usage?.output_tokens)) {
+      result.usage = {
+        provider: 'claude',
+        model: typeof data.model === 'string' ? data.model : requestedModel,
+        inputTokens: usage.input_tokens,
+        outputTokens: usage.output_tokens,
+      };
+    }
+
+    return result;
+  }
+
+  /**
+   * Map snake_case line items from the tool input
+   */
+  private parseLineItems(
+    raw: unknown,
+    fail: (field: string, expected: string) => never
+  ): ReceiptLineItem[] {
+    if (raw === undefined || raw === null) return [];
+    if (!Array.isArray(raw)) return fail('line_items', 'an array');
+
+    return raw.map((item: any, index) => {
+      const field = `line_items[${index}]`;
+      if (typeof item?.description !== 'string') fail(`${field}.description`, 'a string');
+      if (typeof item.quantity !== 'number') fail(`${field}.quantity`, 'a number');
+      if (!Number.isInteger(item.unit_price_satang)) fail(`${field}.unit_price_satang`, 'an integer');
+      if (!Number.isInteger(item.total_satang)) fail(`${field}.total_satang`, 'an integer');
+
+      const lineItem: ReceiptLineItem = {
+        description: item.description,
+        quantity: item.quantity,
+        unitPriceSatang: item.unit_price_satang,
+        totalSatang: item.total_satang,
+      };
+      if (item.evidence != null) {
+        const evidence = parseFieldEvidence(item.evidence);
+        if (!evidence) fail(`${field}.evidence`, 'an evidence object with confidence between 0 and 1');
+        lineItem.evidence = evidence!;
+      }
+      return lineItem;
+    });
   }
 }
 
@@ -300,7 +683,7 @@ Return ONLY the JSON, no other text.`;
 /**
  * Create a Claude adapter based on configuration
  * 
- * @param config - App configuration with MODE = 'DEV' | 'PROD'
+ * @param config - App configuration with MODE = 'DEV' | 'PROD' | 'RECORD' | 'REPLAY'
  * @returns ClaudeAdapter instance
  * 
  * @example
@@ -0,0 +1,111 @@
+/**
+ * Deadlines and Cancellation
+ *
+ * A receipt upload has a caller waiting on it; a hung provider request
+ * must not hold that worker forever. Every call takes two optional limits
+ * (ExtractReceiptParams / GroqParseOptions):
+ *
+ *   signal   - the caller's AbortSignal (client disconnected, job cancelled)
+ *   deadline - epoch ms by which the answer is needed
+ *
+ * The deadline is absolute, so HybridOcrStrategy hands the same value to
+ * the Groq attempts and the Claude fallback and they share what is left
+ * of it. callSignal() merges both limits into the one AbortSignal passed
+ * to fetch and to retry waits.
+ *
+ * Expiry surfaces as OcrTimeoutError (retryable: the provider may be
+ * faster next time), a caller abort as OcrCancelledError (permanent).
+ * AbortSignal.timeout() from the caller counts as a timeout.
+ *
+ * Usage:
+ *   const signal = callSignal(params);
+ *   await fetch(url, { ...init, signal });
+ *   ...
+ *   if (signal?.aborted) throw abortedError(signal, { correlationId, provider: 'claude' });
+ */
+
+import { OcrCancelledError, OcrError, OcrTimeoutError } from './errors';
+import type { OcrErrorContext } from './errors';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CallLimits {
+  /** Caller's cancellation */
+  signal?: AbortSignal;
+
+  /** Epoch ms by which the call must finish */
+  deadline?: number;
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * One AbortSignal for a call's signal and deadline
+ *
+ * Already aborted when the deadline has passed.
+ *
+ * @returns undefined when the call has neither
+ */
+export function callSignal(limits: CallLimits, now: () => number = Date.now): AbortSignal | undefined {
+  if (limits.deadline === undefined) return limits.signal;
+
+  const remaining = limits.deadline - now();
+  const timeout =
+    remaining > 0
+      ? AbortSignal.timeout(remaining)
+      : AbortSignal.abort(new DOMException('Deadline exceeded', 'TimeoutError'));
+  return limits.signal ? AbortSignal.any([limits.signal, timeout]) : timeout;
+}
+
+/**
+ * Typed error for an aborted signal: timeout or cancellation
+ */
+export function abortedError(signal: AbortSignal, context: Omit<OcrErrorContext, 'cause'>): OcrError {
+  const reason = signal.reason;
+  if (reason instanceof OcrError) return reason;
+
+  return reason instanceof DOMException && reason.name === 'TimeoutError'
+    ? new OcrTimeoutError('Deadline exceeded', { ...context, cause: reason })
+    : new OcrCancelledError('Cancelled by caller', { ...context, cause: reason });
+}
+
+/**
+ * Throw the typed error if the signal has fired (call before paid work)
+ */
+export function throwIfAborted(signal: AbortSignal | undefined, context: Omit<OcrErrorContext, 'cause'>): void {
+  if (signal?.aborted) throw abortedError(signal, context);
+}
+
+/**
+ * Settle with `promise`, or reject with the typed error as soon as the signal fires
+ *
+ * For work that takes no signal itself (mock latency, OCR text extraction).
+ * The work is not stopped - only no longer waited for.
+ */
+export function raceAbort<T>(
+  promise: Promise<T>,
+  signal: AbortSignal | undefined,
+  context: Omit<OcrErrorContext, 'cause'>
+): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(abortedError(signal, context));
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortedError(signal, context));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
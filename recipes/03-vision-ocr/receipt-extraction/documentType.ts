@@ -0,0 +1,51 @@
+/**
+ * Document Type Helpers
+ * 
+ * Providers classify each document (see DocumentType). These helpers keep
+ * the classification and the sign convention consistent across adapters:
+ * credit notes reduce a previous invoice, so their totals are negative.
+ */
+
+import type { DocumentType, ReceiptOcrResult } from './types';
+
+export const DOCUMENT_TYPES: readonly DocumentType[] = [
+  'receipt',
+  'abbreviated_tax_invoice',
+  'full_tax_invoice',
+  'credit_note',
+  'debit_note',
+  'cash_bill',
+];
+
+/**
+ * Document types that carry claimable input VAT (need full seller/buyer details)
+ */
+export const VAT_CLAIMABLE_DOCUMENT_TYPES: readonly DocumentType[] = [
+  'full_tax_invoice',
+  'credit_note',
+  'debit_note',
+];
+
+export function isDocumentType(value: unknown): value is DocumentType {
+  return typeof value === 'string' && (DOCUMENT_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Force credit note totals negative (and everything else positive)
+ * 
+ * Models print what they see: a credit note for ฿500 comes back as 50000.
+ * Line items, service charge and discount keep their printed (positive) values.
+ */
+export function applyDocumentTypeSign(result: ReceiptOcrResult): ReceiptOcrResult {
+  const sign = result.documentType === 'credit_note' ? -1 : 1;
+
+  result.amountSatang = sign * Math.abs(result.amountSatang);
+  if (result.vatAmountSatang !== null) {
+    result.vatAmountSatang = sign * Math.abs(result.vatAmountSatang);
+  }
+  if (result.subtotalSatang != null) {
+    result.subtotalSatang = sign * Math.abs(result.subtotalSatang);
+  }
+
+  return result;
+}
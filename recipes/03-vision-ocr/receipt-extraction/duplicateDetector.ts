@@ -0,0 +1,310 @@
+/**
+ * Duplicate Receipt Detection
+ *
+ * Catches the same receipt submitted twice: photographed again, or sent
+ * in by two employees. Unlike the result cache (identical bytes), this
+ * compares what was extracted:
+ *
+ *   signal                weight  when compared
+ *   tax-invoice-number    0.35    both sides have one (same seller)
+ *   amount                0.25    always (within toleranceSatang)
+ *   date                  0.15    both sides have issueDate (within toleranceDays)
+ *   vendor                0.10    both sides have vendorName (edit similarity)
+ *   image                 0.15    both sides have a perceptual hash (Hamming distance)
+ *
+ * score = weighted mean over the signals both sides have.
+ *
+ * Gates keep the everyday false positive (same coffee, same shop, every
+ * morning) out: amounts must agree, and the date, invoice number or image
+ * must too. Two different invoice numbers from the same seller are
+ * different documents, whatever else matches.
+ *
+ * A duplicate VAT claim is the expensive case: matches where both
+ * documents are VAT-claimable carry the VAT at risk.
+ *
+ * Perceptual hashes (e.g. a 64-bit dHash as 16 hex chars) are computed by
+ * the caller; this module only compares them.
+ */
+
+import { VAT_CLAIMABLE_DOCUMENT_TYPES } from './documentType';
+import type { ReceiptOcrResult } from './types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type DuplicateSignal = 'tax-invoice-number' | 'amount' | 'date' | 'vendor' | 'image';
+
+/**
+ * A receipt to compare (the new submission or one already on file)
+ */
+export interface DuplicateCandidate {
+  /** Submission / document ID */
+  id: string;
+
+  result: ReceiptOcrResult;
+
+  /** Compared only against submissions of the same client, when set on both */
+  clientId?: string;
+
+  /** Who submitted it (reported back, not compared) */
+  submittedBy?: string;
+
+  /** Perceptual hash of the image, hex */
+  perceptualHash?: string | null;
+}
+
+export interface DuplicateReason {
+  signal: DuplicateSignal;
+
+  /** 0.0 - 1.0 for this signal */
+  similarity: number;
+
+  /** Human-readable, e.g. "amount 856.00 vs 856.00 THB" */
+  detail: string;
+}
+
+export interface DuplicateMatch {
+  /** ID of the receipt already on file */
+  id: string;
+
+  submittedBy?: string;
+
+  /** Weighted similarity, 0.0 - 1.0 */
+  score: number;
+
+  /** Signals that matched, strongest first */
+  reasons: DuplicateReason[];
+
+  /** VAT in Satang claimed twice if both are VAT-claimable documents, else 0 */
+  vatAtRiskSatang: number;
+}
+
+export interface DuplicateDetectorOptions {
+  /** Amount difference still treated as equal (default: 100 = ฿1.00) */
+  toleranceSatang?: number;
+
+  /** Issue date difference still treated as equal (default: 0 - the same coffee is bought every day) */
+  toleranceDays?: number;
+
+  /** Vendor edit similarity counted as a match (default: 0.8) */
+  minVendorSimilarity?: number;
+
+  /** Hamming distance counted as the same image (default: 10 bits) */
+  maxImageDistance?: number;
+
+  /** Matches below this score are dropped (default: 0.6) */
+  minScore?: number;
+}
+
+const SIGNAL_WEIGHTS: Record<DuplicateSignal, number> = {
+  'tax-invoice-number': 0.35,
+  amount: 0.25,
+  date: 0.15,
+  vendor: 0.1,
+  image: 0.15,
+};
+
+const DEFAULT_OPTIONS: Required<DuplicateDetectorOptions> = {
+  toleranceSatang: 100,
+  toleranceDays: 0,
+  minVendorSimilarity: 0.8,
+  maxImageDistance: 10,
+  minScore: 0.6,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// Detector
+// ============================================================================
+
+export class DuplicateDetector {
+  private readonly options: Required<DuplicateDetectorOptions>;
+
+  constructor(options: DuplicateDetectorOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Receipts on file that look like the same document as `receipt`
+   *
+   * @returns Matches above minScore, highest score first
+   */
+  findDuplicates(receipt: DuplicateCandidate, existing: Iterable<DuplicateCandidate>): DuplicateMatch[] {
+    const matches: DuplicateMatch[] = [];
+
+    for (const other of existing) {
+      if (other.id === receipt.id) continue;
+      if (receipt.clientId && other.clientId && receipt.clientId !== other.clientId) continue;
+
+      const match = this.compare(receipt, other);
+      if (match && match.score >= this.options.minScore) {
+        matches.push(match);
+      }
+    }
+
+    return matches.sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Score one pair (null = ruled out by a gate)
+   */
+  compare(receipt: DuplicateCandidate, other: DuplicateCandidate): DuplicateMatch | null {
+    const a = receipt.result;
+    const b = other.result;
+    const scored: DuplicateReason[] = [];
+
+    // Gate 1: different invoice numbers from the same seller are different documents
+    const invoiceA = normalizeInvoiceNumber(a.taxInvoiceNumber);
+    const invoiceB = normalizeInvoiceNumber(b.taxInvoiceNumber);
+    const sameSeller = !a.sellerTaxId || !b.sellerTaxId || a.sellerTaxId === b.sellerTaxId;
+    if (invoiceA && invoiceB) {
+      if (invoiceA !== invoiceB && sameSeller) return null;
+      scored.push({
+        signal: 'tax-invoice-number',
+        similarity: invoiceA === invoiceB && sameSeller ? 1 : 0,
+        detail: `tax invoice ${a.taxInvoiceNumber} vs ${b.taxInvoiceNumber}`,
+      });
+    }
+
+    // Gate 2: amounts must agree (sign included: a credit note is not a copy of its invoice)
+    const amountDiff = Math.abs(a.amountSatang - b.amountSatang);
+    if (amountDiff > this.options.toleranceSatang) return null;
+    scored.push({
+      signal: 'amount',
+      similarity: amountDiff === 0 ? 1 : 1 - amountDiff / (this.options.toleranceSatang + 1),
+      detail: `amount ${formatBaht(a.amountSatang)} vs ${formatBaht(b.amountSatang)} THB`,
+    });
+
+    const days = dayDifference(a.issueDate, b.issueDate);
+    if (days !== null) {
+      scored.push({
+        signal: 'date',
+        similarity: days <= this.options.toleranceDays ? 1 - days / (this.options.toleranceDays + 1) : 0,
+        detail: `issued ${a.issueDate} vs ${b.issueDate}`,
+      });
+    }
+
+    if (a.vendorName && b.vendorName) {
+      const similarity = vendorSimilarity(a.vendorName, b.vendorName);
+      scored.push({
+        signal: 'vendor',
+        similarity: similarity >= this.options.minVendorSimilarity ? similarity : 0,
+        detail: `vendor "${a.vendorName}" vs "${b.vendorName}"`,
+      });
+    }
+
+    if (receipt.perceptualHash && other.perceptualHash) {
+      const distance = hammingDistance(receipt.perceptualHash, other.perceptualHash);
+      const bits = Math.min(receipt.perceptualHash.length, other.perceptualHash.length) * 4;
+      scored.push({
+        signal: 'image',
+        similarity: distance <= this.options.maxImageDistance ? 1 - distance / bits : 0,
+        detail: `image hash distance ${distance}/${bits} bits`,
+      });
+    }
+
+    // Gate 3: an equal amount alone is a coincidence - need the date, invoice number or image too
+    const corroborated = scored.some(
+      (r) => r.similarity > 0 && (r.signal === 'date' || r.signal === 'tax-invoice-number' || r.signal === 'image')
+    );
+    if (!corroborated) return null;
+
+    const totalWeight = scored.reduce((sum, r) => sum + SIGNAL_WEIGHTS[r.signal], 0);
+    const score = scored.reduce((sum, r) => sum + SIGNAL_WEIGHTS[r.signal] * r.similarity, 0) / totalWeight;
+
+    return {
+      id: other.id,
+      submittedBy: other.submittedBy,
+      score: Math.round(score * 1000) / 1000,
+      reasons: scored
+        .filter((r) => r.similarity > 0)
+        .sort((x, y) => SIGNAL_WEIGHTS[y.signal] * y.similarity - SIGNAL_WEIGHTS[x.signal] * x.similarity),
+      vatAtRiskSatang: isVatClaimable(a) && isVatClaimable(b) ? Math.abs(a.vatAmountSatang ?? 0) : 0,
+    };
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Number of differing bits between two hex hashes (compared over the shorter length)
+ */
+export function hammingDistance(hexA: string, hexB: string): number {
+  const length = Math.min(hexA.length, hexB.length);
+  let distance = 0;
+  for (let i = 0; i < length; i++) {
+    let xor = parseInt(hexA[i]!, 16) ^ parseInt(hexB[i]!, 16);
+    while (xor) {
+      distance += xor & 1;
+      xor >>= 1;
+    }
+  }
+  return distance;
+}
+
+/**
+ * Edit similarity of two vendor names after normalisation (1 = identical)
+ *
+ * Ignores case, spacing, punctuation and company suffixes, so
+ * "7-Eleven" and "7-ELEVEN สาขา" compare on what matters.
+ */
+export function vendorSimilarity(a: string, b: string): number {
+  const x = normalizeVendor(a);
+  const y = normalizeVendor(b);
+  if (x === y) return 1;
+  if (!x || !y) return 0;
+  return 1 - levenshtein(x, y) / Math.max(x.length, y.length);
+}
+
+function normalizeVendor(name: string): string {
+  // Strip suffixes before NFKC: it splits Thai SARA AM (ำ), so จำกัด would no longer match
+  return name
+    .toLowerCase()
+    .replace(/บริษัท|จำกัด|\(มหาชน\)|สาขา.*$|สำนักงานใหญ่|co\.?,?\s*ltd\.?|public company limited|limited/g, '')
+    .normalize('NFKC')
+    .replace(/[^\p{L}\p{M}\p{N}]/gu, '');
+}
+
+function normalizeInvoiceNumber(value: string | null | undefined): string | null {
+  const normalized = value?.toUpperCase().replace(/[\s\-/.#]/g, '') ?? '';
+  return normalized === '' ? null : normalized;
+}
+
+function isVatClaimable(result: ReceiptOcrResult): boolean {
+  return !!result.documentType && VAT_CLAIMABLE_DOCUMENT_TYPES.includes(result.documentType);
+}
+
+function dayDifference(a: string | null, b: string | null): number | null {
+  if (!a || !b) return null;
+  const x = Date.parse(`${a}T00:00:00Z`);
+  const y = Date.parse(`${b}T00:00:00Z`);
+  if (Number.isNaN(x) || Number.isNaN(y)) return null;
+  return Math.round(Math.abs(x - y) / DAY_MS);
+}
+
+function levenshtein(a: string, b: string): number {
+  const x = [...a];
+  const y = [...b];
+  let previous = Array.from({ length: y.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= x.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= y.length; j++) {
+      current[j] = Math.min(
+        previous[j]! + 1,
+        current[j - 1]! + 1,
+        previous[j - 1]! + (x[i - 1] === y[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[y.length]!;
+}
+
+function formatBaht(satang: number): string {
+  return (satang / 100).toFixed(2);
+}
@@ -0,0 +1,231 @@
+/**
+ * OCR Error Hierarchy
+ * 
+ * Every failure leaving an adapter or HybridOcrStrategy is an OcrError
+ * subclass carrying the same context:
+ * 
+ *   correlationId - which receipt
+ *   provider      - which OCR provider failed ('claude' | 'groq' | ...)
+ *   retryable     - whether the same call may succeed later
+ *   status        - provider HTTP status, if there was a response
+ *   cause         - the underlying error
+ * 
+ *   OcrError
+ *   ├── RateLimitedError         429              retryable
+ *   ├── AuthFailedError          401/403          permanent
+ *   ├── InvalidResponseError     bad schema/JSON  retryable (resample)
+ *   ├── ImageRejectedError       400/413 (image)  permanent
+ *   ├── OcrTimeoutError          deadline         retryable
+ *   ├── OcrCancelledError        caller aborted   permanent
+ *   └── ProviderUnavailableError 5xx/529/network  retryable
+ * 
+ * The API layer maps them with toHttpStatus(); fallback logic reads
+ * `retryable` instead of parsing messages.
+ */
+
+export type OcrProvider = 'claude' | 'groq' | 'paddle';
+
+const PROVIDER_NAMES: Record<OcrProvider, string> = {
+  claude: 'Claude',
+  groq: 'Groq',
+  paddle: 'PaddleOCR',
+};
+
+export interface OcrErrorContext {
+  correlationId?: string;
+  provider?: OcrProvider;
+  retryable?: boolean;
+  status?: number;
+  cause?: unknown;
+}
+
+// ============================================================================
+// Base Class
+// ============================================================================
+
+/**
+ * Custom error for OCR failures
+ */
+export class OcrError extends Error {
+  readonly correlationId?: string;
+  readonly provider?: OcrProvider;
+  readonly retryable: boolean;
+  readonly status?: number;
+
+  constructor(
+    message: string,
+    public context: OcrErrorContext
+  ) {
+    super(message, context.cause === undefined ? undefined : { cause: context.cause });
+    this.name = 'OcrError';
+    this.correlationId = context.correlationId;
+    this.provider = context.provider;
+    this.retryable = context.retryable ?? false;
+    this.status = context.status;
+  }
+}
+
+// ============================================================================
+// Subclasses
+// ============================================================================
+
+/**
+ * Provider throttled us (HTTP 429). Retry after `retryAfterMs` if known.
+ */
+export class RateLimitedError extends OcrError {
+  readonly retryAfterMs: number | null;
+
+  constructor(message: string, context: OcrErrorContext & { retryAfterMs?: number | null }) {
+    super(message, { status: 429, ...context, retryable: true });
+    this.name = 'RateLimitedError';
+    this.retryAfterMs = context.retryAfterMs ?? null;
+  }
+}
+
+/**
+ * API key missing, invalid or not permitted (HTTP 401/403)
+ */
+export class AuthFailedError extends OcrError {
+  constructor(message: string, context: OcrErrorContext) {
+    super(message, { ...context, retryable: false });
+    this.name = 'AuthFailedError';
+  }
+}
+
+/**
+ * Provider returned a response that does not match the expected schema
+ * (missing tool call, missing field, wrong type). Raised instead of
+ * defaulting to zero so parse failures never masquerade as ฿0.00 receipts.
+ * 
+ * Retryable by default: a second sample from the model may be valid.
+ */
+export class InvalidResponseError extends OcrError {
+  /** Offending field (snake_case, as named in the tool schema) */
+  public field?: string;
+
+  constructor(message: string, context: OcrErrorContext & { field?: string }) {
+    super(message, { retryable: true, ...context });
+    this.name = 'InvalidResponseError';
+    this.field = context.field;
+  }
+}
+
+/**
+ * Why an image was rejected before (or by) the provider
+ */
+export type ImageRejectionReason =
+  | 'empty'
+  | 'unknown-format'
+  | 'unsupported-format'
+  | 'corrupt'
+  | 'too-large'
+  | 'too-many-pixels';
+
+/**
+ * Image cannot be processed (corrupt, unsupported, too large).
+ * Permanent: no provider will do better with the same bytes.
+ */
+export class ImageRejectedError extends OcrError {
+  /** Set when rejected by image intake (see imageIntake.ts) */
+  public reason?: ImageRejectionReason;
+
+  constructor(message: string, context: OcrErrorContext & { reason?: ImageRejectionReason }) {
+    super(message, { ...context, retryable: false });
+    this.name = 'ImageRejectedError';
+    this.reason = context.reason;
+  }
+}
+
+/**
+ * Call did not finish before its deadline
+ */
+export class OcrTimeoutError extends OcrError {
+  constructor(message: string, context: OcrErrorContext) {
+    super(message, { ...context, retryable: true });
+    this.name = 'OcrTimeoutError';
+  }
+}
+
+/**
+ * Caller aborted the call (params.signal) - nobody is waiting for the answer
+ */
+export class OcrCancelledError extends OcrError {
+  constructor(message: string, context: OcrErrorContext) {
+    super(message, { ...context, retryable: false });
+    this.name = 'OcrCancelledError';
+  }
+}
+
+/**
+ * Provider is down or overloaded (5xx, 529, network error, circuit open)
+ */
+export class ProviderUnavailableError extends OcrError {
+  constructor(message: string, context: OcrErrorContext) {
+    super(message, { ...context, retryable: true });
+    this.name = 'ProviderUnavailableError';
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Build the typed error for a non-2xx provider response
+ * 
+ * @param bodyText - Response body, used only to tell image rejections
+ *                   apart from other 400s (never copied into the message)
+ */
+export function errorFromResponse(
+  status: number,
+  bodyText: string,
+  context: Omit<OcrErrorContext, 'status'> & { retryAfterMs?: number | null }
+): OcrError {
+  const name = context.provider ? PROVIDER_NAMES[context.provider] : 'OCR';
+  const label = `${name} API error: ${status}`;
+  const ctx = { ...context, status };
+
+  if (status === 429) {
+    return new RateLimitedError(`${label} (rate limited)`, ctx);
+  }
+  if (status === 401 || status === 403) {
+    return new AuthFailedError(`${label} (authentication failed)`, ctx);
+  }
+  if (status === 413 || (status === 400 && /image/i.test(bodyText))) {
+    return new ImageRejectedError(`${label} (image rejected)`, ctx);
+  }
+  if (status === 408) {
+    return new OcrTimeoutError(`${label} (request timeout)`, ctx);
+  }
+  if (status >= 500) {
+    return new ProviderUnavailableError(`${label} (provider unavailable)`, ctx);
+  }
+  return new OcrError(label, { ...ctx, retryable: false });
+}
+
+/**
+ * Normalise anything thrown by an adapter into an OcrError
+ * 
+ * Third-party or mock adapters may throw plain Errors; those become a
+ * non-retryable OcrError with the original as `cause`.
+ */
+export function toOcrError(error: unknown, context: Omit<OcrErrorContext, 'cause'>): OcrError {
+  if (error instanceof OcrError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  return new OcrError(message, { retryable: false, ...context, cause: error });
+}
+
+/**
+ * HTTP status our own API should answer with for an OCR failure
+ */
+export function toHttpStatus(error: unknown): number {
+  if (error instanceof ImageRejectedError) return 422;
+  if (error instanceof RateLimitedError) return 429;
+  if (error instanceof OcrTimeoutError) return 504;
+  if (error instanceof OcrCancelledError) return 499;
+  if (error instanceof ProviderUnavailableError) return 503;
+  if (error instanceof InvalidResponseError) return 502;
+  if (error instanceof AuthFailedError) return 502;
+  return 500;
+}
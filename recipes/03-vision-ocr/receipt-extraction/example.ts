@@ -6,6 +6,8 @@
  * Run:
  *   DEV:  APP_MODE=DEV bun run example.ts
  *   PROD: CLAUDE_API_KEY=sk-xxx APP_MODE=PROD bun run example.ts
+ *   RECORD: CLAUDE_API_KEY=sk-xxx APP_MODE=RECORD bun run example.ts   (saves cassettes/)
+ *   REPLAY: APP_MODE=REPLAY bun run example.ts                          (offline)
  */
 
 import { createClaudeAdapter } from './claudeAdapter';
@@ -18,9 +20,13 @@ import { join } from 'path';
 // ============================================================================
 
 const config: AppConfig = {
-  MODE: (process.env.APP_MODE as 'DEV' | 'PROD') || 'DEV',
+  MODE: (process.env.APP_MODE as AppConfig['MODE']) || 'DEV',
   CLAUDE_API_KEY: process.env.CLAUDE_API_KEY,
   LOG_LEVEL: 'info',
+  MOCK_FIXTURES_DIR: process.env.MOCK_FIXTURES_DIR,
+  CLAUDE_BASE_URL: process.env.CLAUDE_BASE_URL,
+  CLAUDE_MODEL: process.env.CLAUDE_MODEL,
+  CASSETTE_DIR: process.env.CASSETTE_DIR,
 };
 
 console.log(`Running in ${config.MODE} mode...\n`);
@@ -0,0 +1,153 @@
+/**
+ * Per-field Confidence and Evidence
+ *
+ * A single confidence score hides the field that matters: a receipt with
+ * a perfect vendor name and an unreadable VAT still scores 0.95 overall.
+ * Providers report confidence, source text and (vision only) a region per
+ * field; review decisions use the weakest critical field.
+ *
+ * Wire format (snake_case, shared by the Claude tool and the Groq JSON):
+ *   { "confidence": 0.9, "source_text": "รวมทั้งสิ้น 85.60",
+ *     "region": { "x": 0.1, "y": 0.8, "width": 0.8, "height": 0.05 } }
+ */
+
+import type {
+  CriticalField,
+  EvidenceRegion,
+  FieldEvidence,
+  ReceiptFieldEvidence,
+  ReceiptOcrResult,
+} from './types';
+
+/**
+ * Critical fields, in wire order (snake_case name → camelCase field)
+ */
+export const CRITICAL_FIELDS: ReadonlyArray<{ wire: string; field: CriticalField }> = [
+  { wire: 'total_amount_satang', field: 'amountSatang' },
+  { wire: 'vat_amount_satang', field: 'vatAmountSatang' },
+  { wire: 'vendor_name', field: 'vendorName' },
+  { wire: 'issue_date', field: 'issueDate' },
+];
+
+/**
+ * JSON schema for one evidence object (used by the record_receipt tool)
+ */
+export const FIELD_EVIDENCE_SCHEMA = {
+  type: 'object',
+  properties: {
+    confidence: { type: 'number', minimum: 0, maximum: 1 },
+    source_text: {
+      type: ['string', 'null'],
+      description: 'Text the value was read from, copied as printed',
+    },
+    region: {
+      type: ['object', 'null'],
+      description: 'Approximate bounding box as fractions of the image (0-1, origin top-left)',
+      properties: {
+        x: { type: 'number' },
+        y: { type: 'number' },
+        width: { type: 'number' },
+        height: { type: 'number' },
+      },
+      required: ['x', 'y', 'width', 'height'],
+    },
+  },
+  required: ['confidence', 'source_text'],
+} as const;
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Map one wire evidence object
+ *
+ * A malformed region is dropped (it is only a hint); a missing or
+ * out-of-range confidence makes the whole evidence unusable.
+ *
+ * @returns null if `raw` is not usable evidence
+ */
+export function parseFieldEvidence(raw: unknown): FieldEvidence | null {
+  if (typeof raw !== 'object' || raw === null) return null;
+
+  const { confidence, source_text: sourceText, region } = raw as Record<string, unknown>;
+  if (typeof confidence !== 'number' || Number.isNaN(confidence) || confidence < 0 || confidence > 1) {
+    return null;
+  }
+
+  const evidence: FieldEvidence = {
+    confidence,
+    sourceText: typeof sourceText === 'string' ? sourceText : null,
+  };
+  const parsedRegion = parseRegion(region);
+  if (parsedRegion) evidence.region = parsedRegion;
+
+  return evidence;
+}
+
+/**
+ * Map the wire `field_evidence` object keyed by snake_case field names
+ *
+ * @param onInvalid - Called with the wire field name of malformed entries
+ *                    (strict adapters throw, lenient ones ignore)
+ */
+export function parseReceiptFieldEvidence(
+  raw: unknown,
+  onInvalid: (wireField: string) => void = () => undefined
+): ReceiptFieldEvidence | undefined {
+  if (typeof raw !== 'object' || raw === null) return undefined;
+
+  const evidence: ReceiptFieldEvidence = {};
+  for (const { wire, field } of CRITICAL_FIELDS) {
+    const entry = (raw as Record<string, unknown>)[wire];
+    if (entry === undefined || entry === null) continue;
+
+    const parsed = parseFieldEvidence(entry);
+    if (parsed) {
+      evidence[field] = parsed;
+    } else {
+      onInvalid(wire);
+    }
+  }
+
+  return evidence;
+}
+
+/**
+ * The least confident critical field
+ *
+ * Fields without evidence count at the overall confidence, so a result
+ * with no evidence at all behaves like before (overall score only).
+ *
+ * @returns null if the result has neither evidence nor an overall confidence
+ */
+export function weakestCriticalField(
+  result: ReceiptOcrResult
+): { field: CriticalField; confidence: number } | null {
+  let weakest: { field: CriticalField; confidence: number } | null = null;
+
+  for (const { field } of CRITICAL_FIELDS) {
+    const confidence = result.fieldEvidence?.[field]?.confidence ?? result.confidence;
+    if (confidence === undefined) continue;
+    if (!weakest || confidence < weakest.confidence) {
+      weakest = { field, confidence };
+    }
+  }
+
+  return weakest;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function parseRegion(raw: unknown): EvidenceRegion | null {
+  if (typeof raw !== 'object' || raw === null) return null;
+
+  const box = raw as Record<string, unknown>;
+  const values = [box.x, box.y, box.width, box.height];
+  if (!values.every((v) => typeof v === 'number' && v >= 0 && v <= 1)) return null;
+
+  const [x, y, width, height] = values as [number, number, number, number];
+  return { x, y, width, height };
+}
@@ -0,0 +1,23 @@
+/**
+ * Content Hashing
+ *
+ * Stable keys for receipt content (mock fixtures, caches, duplicate checks).
+ * Images are hashed by their decoded bytes, so the same photo gives the
+ * same key however its base64 was wrapped.
+ */
+
+import { createHash } from 'node:crypto';
+
+/**
+ * SHA-256 hex digest of text (UTF-8) or bytes
+ */
+export function contentHash(data: string | Uint8Array): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * SHA-256 hex digest of a base64-encoded image's bytes
+ */
+export function imageContentHash(imageBase64: string): string {
+  return contentHash(Buffer.from(imageBase64, 'base64'));
+}
@@ -0,0 +1,282 @@
+/**
+ * Image Intake
+ *
+ * Runs before any paid call (RealClaudeAdapter, HybridOcrStrategy) so
+ * that what reaches the provider is something it accepts:
+ *
+ * 1. Sniff the real format from magic bytes (the caller's imageFormat
+ *    is ignored - a PNG labelled jpeg is rejected by the API)
+ * 2. Reject empty, unknown, corrupt or oversized input with a typed
+ *    ImageRejectedError (reason: 'corrupt', 'too-large', ...)
+ * 3. Convert formats the API does not take (HEIC, TIFF, BMP, AVIF) to
+ *    JPEG where this machine has the codec
+ * 4. Apply EXIF orientation so sideways phone photos arrive upright
+ * 5. Downscale to maxEdgePx and re-encode until under maxBytes
+ *
+ * Images that need none of 3-5 pass through byte-for-byte (only the
+ * header is decoded), so cache and cassette keys stay stable.
+ *
+ * Uses Bun.Image (libjpeg-turbo / libspng / libwebp, no native install).
+ * HEIC needs an OS codec (macOS / Windows); on Linux it is rejected with
+ * reason 'unsupported-format'.
+ */
+
+import { ImageRejectedError } from './errors';
+import type { ImageRejectionReason } from './errors';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Formats recognised by their magic bytes */
+export type SniffedImageFormat = 'jpeg' | 'png' | 'gif' | 'webp' | 'heic' | 'avif' | 'tiff' | 'bmp';
+
+/** Formats the Claude Messages API accepts */
+export type ApiImageFormat = 'jpeg' | 'png' | 'gif' | 'webp';
+
+export interface ImageIntakeOptions {
+  /** Reject input above this many bytes before decoding (default: 25 MB) */
+  maxInputBytes: number;
+
+  /** Largest encoded image sent to the provider (default: 5 MB, the API limit) */
+  maxBytes: number;
+
+  /** Longest edge sent to the provider (default: 1568, Claude's native resolution) */
+  maxEdgePx: number;
+
+  /** Reject images claiming more pixels than this (default: 50 MP) */
+  maxPixels: number;
+
+  /** JPEG quality for re-encoded images (default: 85) */
+  jpegQuality: number;
+}
+
+export interface IntakeImage {
+  imageBase64: string;
+  imageFormat: ApiImageFormat;
+  width: number;
+  height: number;
+
+  /** Format of the bytes as received */
+  sourceFormat: SniffedImageFormat;
+
+  /** Size as received / as sent */
+  sourceBytes: number;
+  bytes: number;
+
+  /** What was done, e.g. ['converted heic to jpeg', 'resized 4032x3024 to 1568x1176'] */
+  transforms: string[];
+}
+
+export const DEFAULT_IMAGE_INTAKE_OPTIONS: ImageIntakeOptions = {
+  maxInputBytes: 25 * 1024 * 1024,
+  maxBytes: 5 * 1024 * 1024,
+  maxEdgePx: 1568,
+  maxPixels: 50_000_000,
+  jpegQuality: 85,
+};
+
+const API_FORMATS: readonly SniffedImageFormat[] = ['jpeg', 'png', 'gif', 'webp'];
+
+/** Lower JPEG qualities tried when an image is still over maxBytes */
+const FALLBACK_QUALITIES = [70, 55, 40];
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Validate and normalise a receipt image
+ *
+ * @throws ImageRejectedError - with `reason` set; never retryable
+ */
+export async function prepareReceiptImage(
+  imageBase64: string,
+  options: Partial<ImageIntakeOptions> & { correlationId?: string } = {}
+): Promise<IntakeImage> {
+  const { correlationId, ...overrides } = options;
+  const opts = { ...DEFAULT_IMAGE_INTAKE_OPTIONS, ...overrides };
+  const reject = (reason: ImageRejectionReason, message: string, cause?: unknown) =>
+    new ImageRejectedError(message, { correlationId, reason, cause });
+
+  const source = Buffer.from(imageBase64, 'base64');
+  if (source.length === 0) {
+    throw reject('empty', 'Image is empty');
+  }
+  if (source.length > opts.maxInputBytes) {
+    throw reject('too-large', `Image is ${formatMb(source.length)}, limit is ${formatMb(opts.maxInputBytes)}`);
+  }
+
+  const sourceFormat = sniffImageFormat(source);
+  if (!sourceFormat) {
+    throw reject('unknown-format', 'Image format not recognised (expected JPEG, PNG, WebP, GIF, HEIC, TIFF, BMP or AVIF)');
+  }
+
+  const { width, height } = await run(
+    () => new Bun.Image(source, { maxPixels: opts.maxPixels }).metadata(),
+    sourceFormat,
+    reject
+  );
+
+  const orientation = sourceFormat === 'jpeg' ? readExifOrientation(source) : 1;
+  const longEdge = Math.max(width, height);
+  const needsConversion = !API_FORMATS.includes(sourceFormat);
+  const needsRotation = orientation !== 1;
+  const needsResize = longEdge > opts.maxEdgePx;
+
+  if (!needsConversion && !needsRotation && !needsResize && source.length <= opts.maxBytes) {
+    return {
+      imageBase64: source.toString('base64'),
+      imageFormat: sourceFormat as ApiImageFormat,
+      width,
+      height,
+      sourceFormat,
+      sourceBytes: source.length,
+      bytes: source.length,
+      transforms: [],
+    };
+  }
+
+  // PNG stays PNG (crisp text in screenshots and scans) unless it is too big
+  const transforms: string[] = [];
+  let imageFormat: ApiImageFormat = sourceFormat === 'png' ? 'png' : 'jpeg';
+  if (needsConversion) transforms.push(`converted ${sourceFormat} to jpeg`);
+  if (needsRotation) transforms.push(`applied EXIF orientation ${orientation}`);
+
+  const pipeline = (quality: number, format: ApiImageFormat) => {
+    const image = new Bun.Image(source, { maxPixels: opts.maxPixels, autoOrient: true });
+    if (needsResize) image.resize(opts.maxEdgePx, opts.maxEdgePx, { fit: 'inside', withoutEnlargement: true });
+    return format === 'png' ? image.png() : image.jpeg({ quality });
+  };
+
+  let image = pipeline(opts.jpegQuality, imageFormat);
+  let output = await run(() => image.bytes(), sourceFormat, reject);
+
+  const lowerQualities = FALLBACK_QUALITIES.filter((q) => q < opts.jpegQuality);
+  const retries = imageFormat === 'png' ? [opts.jpegQuality, ...lowerQualities] : lowerQualities;
+  for (const quality of retries) {
+    if (output.length <= opts.maxBytes) break;
+    if (imageFormat === 'png') {
+      transforms.push('re-encoded png as jpeg (over maxBytes)');
+      imageFormat = 'jpeg';
+    }
+    image = pipeline(quality, 'jpeg');
+    output = await run(() => image.bytes(), sourceFormat, reject);
+  }
+  if (output.length > opts.maxBytes) {
+    throw reject('too-large', `Image is still ${formatMb(output.length)} after downscaling, limit is ${formatMb(opts.maxBytes)}`);
+  }
+
+  if (needsResize) {
+    transforms.push(`resized ${width}x${height} to ${image.width}x${image.height}`);
+  }
+
+  return {
+    imageBase64: Buffer.from(output).toString('base64'),
+    imageFormat,
+    width: image.width,
+    height: image.height,
+    sourceFormat,
+    sourceBytes: source.length,
+    bytes: output.length,
+    transforms,
+  };
+}
+
+/**
+ * Detect the image format from its first bytes
+ *
+ * @returns null if the bytes match no known image format
+ */
+export function sniffImageFormat(bytes: Uint8Array): SniffedImageFormat | null {
+  const ascii = (start: number, end: number) => String.fromCharCode(...bytes.subarray(start, end));
+
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'jpeg';
+  if (ascii(0, 8) === '\x89PNG\r\n\x1a\n') return 'png';
+  if (ascii(0, 6) === 'GIF87a' || ascii(0, 6) === 'GIF89a') return 'gif';
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') return 'webp';
+  if (ascii(0, 4) === 'II*\0' || ascii(0, 4) === 'MM\0*') return 'tiff';
+  if (ascii(0, 2) === 'BM') return 'bmp';
+
+  // ISO-BMFF: ....ftyp<brand>
+  if (ascii(4, 8) === 'ftyp') {
+    const brand = ascii(8, 12);
+    if (brand === 'avif' || brand === 'avis') return 'avif';
+    if (['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'].includes(brand)) return 'heic';
+  }
+
+  return null;
+}
+
+/**
+ * EXIF Orientation tag (1-8) of a JPEG; 1 (upright) when absent
+ */
+export function readExifOrientation(jpeg: Uint8Array): number {
+  const view = new DataView(jpeg.buffer, jpeg.byteOffset, jpeg.byteLength);
+  let offset = 2;
+
+  while (offset + 4 <= jpeg.length && jpeg[offset] === 0xff) {
+    const marker = jpeg[offset + 1]!;
+    const length = view.getUint16(offset + 2);
+    if (marker === 0xda) break; // start of scan: no more metadata
+
+    const exif = offset + 4;
+    if (
+      marker === 0xe1 &&
+      exif + 14 <= jpeg.length &&
+      String.fromCharCode(...jpeg.subarray(exif, exif + 6)) === 'Exif\0\0'
+    ) {
+      const tiff = exif + 6;
+      const little = view.getUint16(tiff) === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, little);
+      if (ifd + 2 > jpeg.length) return 1;
+
+      const entries = view.getUint16(ifd, little);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 12 > jpeg.length) return 1;
+        if (view.getUint16(entry, little) === 0x0112) {
+          const value = view.getUint16(entry + 8, little);
+          return value >= 1 && value <= 8 ? value : 1;
+        }
+      }
+      return 1;
+    }
+
+    offset += 2 + length;
+  }
+
+  return 1;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Run a Bun.Image terminal, mapping codec errors to ImageRejectedError
+ */
+async function run<T>(
+  terminal: () => Promise<T>,
+  format: SniffedImageFormat,
+  reject: (reason: ImageRejectionReason, message: string, cause?: unknown) => ImageRejectedError
+): Promise<T> {
+  try {
+    return await terminal();
+  } catch (error) {
+    switch ((error as { code?: string }).code) {
+      case 'ERR_IMAGE_TOO_MANY_PIXELS':
+        throw reject('too-many-pixels', 'Image dimensions exceed maxPixels', error);
+      case 'ERR_IMAGE_FORMAT_UNSUPPORTED':
+        throw reject('unsupported-format', `Cannot convert ${format} on this machine`, error);
+      case 'ERR_IMAGE_UNKNOWN_FORMAT':
+        throw reject('unknown-format', 'Image format not recognised', error);
+      default:
+        throw reject('corrupt', `Image could not be decoded as ${format}`, error);
+    }
+  }
+}
+
+function formatMb(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
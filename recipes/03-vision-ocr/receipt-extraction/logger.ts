@@ -0,0 +1,161 @@
+/**
+ * Structured Logger
+ *
+ * Shared by the Claude adapters, the retry helper and the Groq recipe
+ * (adapters, SimpleReceiptDetector, HybridOcrStrategy) so every log line
+ * has the same shape: { ts, level, msg, ...bindings, ...context }.
+ *
+ * Pass your own Logger (AppConfig.LOGGER, GroqConfig.logger,
+ * HybridStrategyConfig.logger) to route lines into the app's logging;
+ * child() binds fields such as correlationId and clientId once per receipt.
+ *
+ * Receipts carry personal data - buyer national IDs on full tax invoices,
+ * phone numbers, card numbers on POS slips - and OCR text and provider
+ * errors end up in log context. Every string is passed through redactPii()
+ * before it reaches the sink, so none of it is written to stdout or a log
+ * store:
+ *
+ *   Thai national ID (13 digits, first digit 1-8)  → [REDACTED:national-id]
+ *   Card number (14-19 digits, Luhn-valid)          → [REDACTED:card]
+ *   Thai phone number (0X / +66)                    → [REDACTED:phone]
+ *
+ * Juristic-person tax IDs (first digit 0) are public and stay readable.
+ */
+
+import type { AppConfig, LogContext } from './types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type LogLevel = AppConfig['LOG_LEVEL'];
+
+export interface Logger {
+  debug(msg: string, ctx?: LogContext): void;
+  info(msg: string, ctx?: LogContext): void;
+  warn(msg: string, ctx?: LogContext): void;
+  error(msg: string, ctx?: LogContext): void;
+
+  /** Logger that adds `bindings` to every line (call context wins on clashes) */
+  child(bindings: LogContext): Logger;
+}
+
+export interface LogRecord extends LogContext {
+  ts: string;
+  level: LogLevel;
+  msg: string;
+}
+
+/** Where finished (already redacted) records go */
+export type LogSink = (record: LogRecord) => void;
+
+export interface LoggerOptions {
+  /** Default: jsonSink(), pretty-printed in DEV mode */
+  sink?: LogSink;
+
+  /** Default: true. Turn off only for sinks that never leave the machine */
+  redact?: boolean;
+
+  /** Fields on every line */
+  bindings?: LogContext;
+}
+
+const LEVELS: readonly LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+export function createLogger(
+  config: Pick<AppConfig, 'MODE' | 'LOG_LEVEL'>,
+  options: LoggerOptions = {}
+): Logger {
+  const minIndex = LEVELS.indexOf(config.LOG_LEVEL);
+  const sink = options.sink ?? jsonSink({ pretty: config.MODE === 'DEV' });
+  const redact = options.redact ?? true;
+
+  function build(bindings: LogContext): Logger {
+    function log(level: LogLevel, msg: string, ctx: LogContext = {}) {
+      if (LEVELS.indexOf(level) < minIndex) return;
+
+      const record: LogRecord = {
+        ts: new Date().toISOString(),
+        level,
+        msg,
+        ...bindings,
+        ...ctx,
+      };
+      sink(redact ? (redactValue(record, 0) as LogRecord) : record);
+    }
+
+    return {
+      debug: (msg, ctx) => log('debug', msg, ctx),
+      info: (msg, ctx) => log('info', msg, ctx),
+      warn: (msg, ctx) => log('warn', msg, ctx),
+      error: (msg, ctx) => log('error', msg, ctx),
+      child: (more) => build({ ...bindings, ...withoutUndefined(more) }),
+    };
+  }
+
+  return build(withoutUndefined(options.bindings ?? {}));
+}
+
+/**
+ * One JSON object per line on stdout (or `write`)
+ */
+export function jsonSink(options: { pretty?: boolean; write?: (line: string) => void } = {}): LogSink {
+  const write = options.write ?? ((line: string) => console.log(line));
+  return (record) => write(options.pretty ? JSON.stringify(record, null, 2) : JSON.stringify(record));
+}
+
+/**
+ * Mask national IDs, card numbers and phone numbers in free text
+ */
+export function redactPii(text: string): string {
+  return text
+    .replace(CARD_PATTERN, (match) => (luhnValid(match.replace(/\D/g, '')) ? '[REDACTED:card]' : match))
+    .replace(NATIONAL_ID_PATTERN, '[REDACTED:national-id]')
+    .replace(PHONE_PATTERN, '[REDACTED:phone]');
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** 14-19 digits, optionally grouped; 13 digits is a tax ID (public for companies) */
+const CARD_PATTERN = /(?<![\d-])\d(?:[ -]?\d){13,18}(?![\d-])/g;
+
+/** 1-2345-67890-12-3, with or without separators; 0... is a company */
+const NATIONAL_ID_PATTERN = /(?<![\d-])[1-8][ -]?\d{4}[ -]?\d{5}[ -]?\d{2}[ -]?\d(?![\d-])/g;
+
+/** Mobile 08X-XXX-XXXX (10 digits), landline 02-XXX-XXXX (9 digits), +66 forms */
+const PHONE_PATTERN = /(?<![\d-])(?:\+66[ -]?|0)(?:[689]\d[ -]?\d{3}[ -]?\d{4}|[2-7][ -]?\d{3}[ -]?\d{4})(?![\d-])/g;
+
+function luhnValid(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+function redactValue(value: unknown, depth: number): unknown {
+  if (typeof value === 'string') return redactPii(value);
+  if (depth > 5 || value === null || typeof value !== 'object') return value;
+  if (Array.isArray(value)) return value.map((item) => redactValue(item, depth + 1));
+  if (value instanceof Error) return redactPii(`${value.name}: ${value.message}`);
+  if (Object.getPrototypeOf(value) !== Object.prototype) return value; // Date, URL, ...
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [key, redactValue(item, depth + 1)])
+  );
+}
+
+function withoutUndefined(ctx: LogContext): LogContext {
+  return Object.fromEntries(Object.entries(ctx).filter(([, value]) => value !== undefined));
+}
@@ -0,0 +1,243 @@
+/**
+ * Prometheus Metrics
+ *
+ * A small registry of counters, gauges and histograms rendered in the
+ * Prometheus text exposition format (0.0.4), so a Bun server can expose
+ * them at /metrics for Prometheus to scrape and Grafana to chart:
+ *
+ *   const registry = new MetricsRegistry();
+ *   const strategy = new HybridOcrStrategy(claude, groq, { metricsRegistry: registry });
+ *
+ *   Bun.serve({
+ *     routes: { '/metrics': metricsHandler(registry) },
+ *     fetch: app.fetch,
+ *   });
+ *
+ * Gauges that mirror live state (circuit breakers) take a `collect`
+ * callback that runs on every scrape instead of being updated on change.
+ *
+ * Label values are whatever the caller passes: keep them bounded
+ * (provider, route, outcome, client) - never correlation IDs or amounts.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type Labels = Record<string, string>;
+
+export interface MetricOptions {
+  /** Prometheus metric name, e.g. 'ocr_receipts_total' */
+  name: string;
+  help: string;
+
+  /** Labels every sample carries; missing values render as "" */
+  labelNames?: string[];
+}
+
+export interface Counter {
+  inc(labels?: Labels, value?: number): void;
+}
+
+export interface Gauge {
+  set(labels: Labels, value: number): void;
+}
+
+export interface Histogram {
+  observe(labels: Labels, value: number): void;
+}
+
+export interface GaugeOptions extends MetricOptions {
+  /** Called before each render to set the current values */
+  collect?: (gauge: Gauge) => void;
+}
+
+export interface HistogramOptions extends MetricOptions {
+  /** Upper bounds, ascending (default: DEFAULT_LATENCY_BUCKETS); +Inf is added */
+  buckets?: number[];
+}
+
+/** Seconds: 50 ms (cache, Groq) to 30 s (Claude ladder with retries) */
+export const DEFAULT_LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+type MetricType = 'counter' | 'gauge' | 'histogram';
+
+interface Metric {
+  type: MetricType;
+  options: MetricOptions;
+  render(): string[];
+}
+
+export class MetricsRegistry {
+  private metrics = new Map<string, Metric>();
+
+  /**
+   * Counter (only goes up); registering an existing name returns it
+   */
+  counter(options: MetricOptions): Counter {
+    return this.register('counter', options, () => {
+      const values = new Map<string, number>();
+      const counter: Counter & Metric = {
+        type: 'counter',
+        options,
+        inc: (labels = {}, value = 1) => {
+          if (value < 0) throw new Error(`Counter ${options.name} cannot decrease`);
+          const key = labelKey(options, labels);
+          values.set(key, (values.get(key) ?? 0) + value);
+        },
+        render: () => [...values].map(([key, value]) => sample(options.name, key, value)),
+      };
+      return counter;
+    });
+  }
+
+  /**
+   * Gauge (set to the current value); registering an existing name returns it
+   */
+  gauge(options: GaugeOptions): Gauge {
+    return this.register('gauge', options, () => {
+      const values = new Map<string, number>();
+      const gauge: Gauge & Metric = {
+        type: 'gauge',
+        options,
+        set: (labels, value) => {
+          values.set(labelKey(options, labels), value);
+        },
+        render: () => {
+          options.collect?.(gauge);
+          return [...values].map(([key, value]) => sample(options.name, key, value));
+        },
+      };
+      return gauge;
+    });
+  }
+
+  /**
+   * Histogram with cumulative buckets, _sum and _count; registering an existing name returns it
+   */
+  histogram(options: HistogramOptions): Histogram {
+    return this.register('histogram', options, () => {
+      const buckets = options.buckets ?? DEFAULT_LATENCY_BUCKETS;
+      const series = new Map<string, { counts: number[]; sum: number; count: number }>();
+      const histogram: Histogram & Metric = {
+        type: 'histogram',
+        options,
+        observe: (labels, value) => {
+          const key = labelKey(options, labels);
+          let entry = series.get(key);
+          if (!entry) {
+            entry = { counts: buckets.map(() => 0), sum: 0, count: 0 };
+            series.set(key, entry);
+          }
+          buckets.forEach((bound, i) => {
+            if (value <= bound) entry!.counts[i]!++;
+          });
+          entry.sum += value;
+          entry.count++;
+        },
+        render: () =>
+          [...series].flatMap(([key, entry]) => [
+            ...buckets.map((bound, i) =>
+              sample(`${options.name}_bucket`, withLabel(key, 'le', formatValue(bound)), entry.counts[i]!)
+            ),
+            sample(`${options.name}_bucket`, withLabel(key, 'le', '+Inf'), entry.count),
+            sample(`${options.name}_sum`, key, entry.sum),
+            sample(`${options.name}_count`, key, entry.count),
+          ]),
+      };
+      return histogram;
+    });
+  }
+
+  /**
+   * Every metric in the text exposition format
+   */
+  render(): string {
+    const lines: string[] = [];
+    for (const metric of this.metrics.values()) {
+      lines.push(`# HELP ${metric.options.name} ${escapeHelp(metric.options.help)}`);
+      lines.push(`# TYPE ${metric.options.name} ${metric.type}`);
+      lines.push(...metric.render());
+    }
+    return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+  }
+
+  private register<T>(type: MetricType, options: MetricOptions, create: () => T & Metric): T {
+    if (!/^[a-zA-Z_:][a-zA-Z0-9_:]*$/.test(options.name)) {
+      throw new Error(`Invalid metric name: ${options.name}`);
+    }
+
+    const existing = this.metrics.get(options.name);
+    if (existing) {
+      if (existing.type !== type) {
+        throw new Error(`Metric ${options.name} is already registered as a ${existing.type}`);
+      }
+      return existing as unknown as T;
+    }
+
+    const metric = create();
+    this.metrics.set(options.name, metric);
+    return metric;
+  }
+}
+
+// ============================================================================
+// HTTP
+// ============================================================================
+
+/**
+ * GET /metrics handler for Bun.serve (routes or your own fetch)
+ */
+export function metricsHandler(registry: MetricsRegistry): (request: Request) => Response {
+  return (request) => {
+    if (request.method !== 'GET' && request.method !== 'HEAD') {
+      return new Response('Method Not Allowed', { status: 405, headers: { allow: 'GET, HEAD' } });
+    }
+    return new Response(request.method === 'HEAD' ? null : registry.render(), {
+      headers: { 'content-type': PROMETHEUS_CONTENT_TYPE },
+    });
+  };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Rendered label set, in labelNames order - also the series key */
+function labelKey(options: MetricOptions, labels: Labels): string {
+  const names = options.labelNames ?? [];
+  for (const name of Object.keys(labels)) {
+    if (!names.includes(name)) throw new Error(`Unknown label ${name} for metric ${options.name}`);
+  }
+  return names.map((name) => `${name}="${escapeLabelValue(labels[name] ?? '')}"`).join(',');
+}
+
+function withLabel(key: string, name: string, value: string): string {
+  const label = `${name}="${value}"`;
+  return key ? `${key},${label}` : label;
+}
+
+function sample(name: string, key: string, value: number): string {
+  return `${name}${key ? `{${key}}` : ''} ${formatValue(value)}`;
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function escapeHelp(help: string): string {
+  return help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+}
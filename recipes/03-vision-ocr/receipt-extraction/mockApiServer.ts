@@ -0,0 +1,307 @@
+/**
+ * Local Stand-in for the Anthropic and Groq APIs
+ *
+ * A Bun HTTP server that speaks both wire formats, so RealClaudeAdapter
+ * and GroqTextAdapter can be tested end to end (request shape, status
+ * handling, retry-after parsing) without network access or API keys.
+ *
+ * Routes:
+ *   POST /v1/messages                  Anthropic Messages API (image + tool_use)
+ *   POST /openai/v1/chat/completions   Groq chat completions (OpenAI format)
+ *
+ * Replies are scripted per API and consumed in order; when the queue is
+ * empty a default success reply is built from the request. Every request
+ * is recorded for assertions.
+ *
+ * Usage (tests):
+ *   const server = startMockApiServer();
+ *   server.enqueue('anthropic', { status: 429, headers: { 'retry-after': '0' } });
+ *   const adapter = new RealClaudeAdapter({ ...config, CLAUDE_BASE_URL: server.url });
+ *   ...
+ *   server.stop();
+ *
+ * Usage (manual DEV):
+ *   bun run mockApiServer.ts   # listens on MOCK_API_PORT (default 4010)
+ *   CLAUDE_BASE_URL=http://localhost:4010 bun run example.ts
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type MockApi = 'anthropic' | 'groq';
+
+export interface MockApiReply {
+  /** Default: 200 */
+  status?: number;
+
+  headers?: Record<string, string>;
+
+  /** JSON-encoded unless it is a string (lets tests send invalid JSON) */
+  body?: unknown;
+
+  /** Wait before answering */
+  delayMs?: number;
+}
+
+export interface RecordedRequest {
+  api: MockApi;
+  method: string;
+  path: string;
+  headers: Record<string, string>;
+
+  /** Parsed JSON body (undefined if it was not JSON) */
+  body: any;
+}
+
+export interface MockApiServer {
+  /** Origin, e.g. http://localhost:54321 */
+  readonly url: string;
+
+  /** Value for GroqConfig.baseUrl */
+  readonly groqBaseUrl: string;
+
+  /** Requests received so far, in order */
+  readonly requests: RecordedRequest[];
+
+  /** Script the next replies for an API */
+  enqueue(api: MockApi, ...replies: Array<MockApiReply | ((request: RecordedRequest) => MockApiReply)>): void;
+
+  /** Drop scripted replies and recorded requests */
+  reset(): void;
+
+  stop(): void;
+}
+
+// ============================================================================
+// Wire-format helpers
+// ============================================================================
+
+/**
+ * Default record_receipt input returned when nothing is scripted
+ */
+export const DEFAULT_RECEIPT_INPUT = {
+  document_type: 'abbreviated_tax_invoice',
+  total_amount_satang: 8560,
+  vat_amount_satang: 560,
+  subtotal_satang: 8000,
+  service_charge_satang: null,
+  discount_satang: null,
+  vendor_name: '7-ELEVEN',
+  issue_date: '2026-01-22',
+  seller_tax_id: null,
+  seller_branch: '12345',
+  tax_invoice_number: null,
+  buyer_name: null,
+  buyer_tax_id: null,
+  confidence: 0.93,
+  raw_text: '7-ELEVEN สาขา 12345 รวม 80.00 ภาษี 7% 5.60 รวมทั้งสิ้น 85.60 วันที่ 22/01/2569 เวลา 14:35',
+  line_items: [
+    { description: 'กาแฟ', quantity: 1, unit_price_satang: 4500, total_satang: 4500 },
+    { description: 'ขนมปัง', quantity: 1, unit_price_satang: 3500, total_satang: 3500 },
+  ],
+  field_evidence: {
+    total_amount_satang: { confidence: 0.95, source_text: 'รวมทั้งสิ้น 85.60' },
+    vat_amount_satang: { confidence: 0.94, source_text: 'ภาษี 7% 5.60' },
+    vendor_name: { confidence: 0.97, source_text: '7-ELEVEN' },
+    issue_date: { confidence: 0.93, source_text: 'วันที่ 22/01/2569' },
+  },
+};
+
+/**
+ * Anthropic Messages response carrying one tool_use block
+ */
+export function anthropicToolUseBody(input: unknown, toolName = 'record_receipt', model = 'mock') {
+  return {
+    id: 'msg_mock',
+    type: 'message',
+    role: 'assistant',
+    model,
+    content: [{ type: 'tool_use', id: 'toolu_mock', name: toolName, input }],
+    stop_reason: 'tool_use',
+    usage: { input_tokens: 1500, output_tokens: 300 },
+  };
+}
+
+/**
+ * Anthropic error envelope, e.g. anthropicErrorBody('rate_limit_error', '...')
+ */
+export function anthropicErrorBody(type: string, message: string) {
+  return { type: 'error', error: { type, message } };
+}
+
+/**
+ * Groq (OpenAI) chat completion with `content` as the assistant message
+ */
+export function groqCompletionBody(content: unknown, model = 'mock') {
+  return {
+    id: 'chatcmpl-mock',
+    object: 'chat.completion',
+    model,
+    choices: [
+      {
+        index: 0,
+        message: {
+          role: 'assistant',
+          content: typeof content === 'string' ? content : JSON.stringify(content),
+        },
+        finish_reason: 'stop',
+      },
+    ],
+    usage: { prompt_tokens: 400, completion_tokens: 150, total_tokens: 550 },
+  };
+}
+
+/**
+ * Groq (OpenAI) error envelope
+ */
+export function groqErrorBody(type: string, message: string) {
+  return { error: { type, message } };
+}
+
+// ============================================================================
+// Server
+// ============================================================================
+
+const ROUTES: Record<string, MockApi> = {
+  '/v1/messages': 'anthropic',
+  '/openai/v1/chat/completions': 'groq',
+};
+
+/**
+ * Start the stand-in server
+ *
+ * @param port - Default 0 (any free port)
+ */
+export function startMockApiServer(port = 0): MockApiServer {
+  const requests: RecordedRequest[] = [];
+  const queues: Record<MockApi, Array<MockApiReply | ((request: RecordedRequest) => MockApiReply)>> = {
+    anthropic: [],
+    groq: [],
+  };
+
+  const server = Bun.serve({
+    port,
+    async fetch(req) {
+      const path = new URL(req.url).pathname;
+      const api = ROUTES[path];
+      if (!api) {
+        return Response.json({ error: { type: 'not_found_error', message: `No route ${path}` } }, { status: 404 });
+      }
+
+      const text = await req.text();
+      let body: any;
+      try {
+        body = JSON.parse(text);
+      } catch {
+        body = undefined;
+      }
+
+      const request: RecordedRequest = {
+        api,
+        method: req.method,
+        path,
+        headers: Object.fromEntries(req.headers),
+        body,
+      };
+      requests.push(request);
+
+      const scripted = queues[api].shift();
+      const reply = scripted
+        ? typeof scripted === 'function' ? scripted(request) : scripted
+        : api === 'anthropic' ? defaultAnthropicReply(request) : defaultGroqReply(request);
+
+      if (reply.delayMs) {
+        await new Promise((resolve) => setTimeout(resolve, reply.delayMs));
+      }
+
+      const status = reply.status ?? 200;
+      const payload = typeof reply.body === 'string' ? reply.body : JSON.stringify(reply.body ?? {});
+      return new Response(payload, {
+        status,
+        headers: { 'content-type': 'application/json', ...reply.headers },
+      });
+    },
+  });
+
+  const url = `http://${server.hostname}:${server.port}`;
+
+  return {
+    url,
+    groqBaseUrl: `${url}/openai/v1`,
+    requests,
+    enqueue(api, ...replies) {
+      queues[api].push(...replies);
+    },
+    reset() {
+      requests.length = 0;
+      queues.anthropic.length = 0;
+      queues.groq.length = 0;
+    },
+    stop() {
+      server.stop(true);
+    },
+  };
+}
+
+// ============================================================================
+// Default replies (validate the request like the real API would)
+// ============================================================================
+
+function defaultAnthropicReply(request: RecordedRequest): MockApiReply {
+  const { headers, body } = request;
+
+  if (!headers['x-api-key']) {
+    return { status: 401, body: anthropicErrorBody('authentication_error', 'x-api-key header is required') };
+  }
+  if (!headers['anthropic-version']) {
+    return { status: 400, body: anthropicErrorBody('invalid_request_error', 'anthropic-version header is required') };
+  }
+
+  const content = body?.messages?.[0]?.content;
+  const hasImage = Array.isArray(content) && content.some(
+    (block: any) => block?.type === 'image' && block.source?.type === 'base64' && typeof block.source.data === 'string'
+  );
+  if (typeof body?.model !== 'string' || !hasImage) {
+    return {
+      status: 400,
+      body: anthropicErrorBody('invalid_request_error', 'model and a base64 image block are required'),
+    };
+  }
+
+  const toolName = body.tool_choice?.name ?? body.tools?.[0]?.name;
+  if (!toolName) {
+    return {
+      body: {
+        ...anthropicToolUseBody(null),
+        content: [{ type: 'text', text: JSON.stringify(DEFAULT_RECEIPT_INPUT) }],
+        stop_reason: 'end_turn',
+      },
+    };
+  }
+  return { body: anthropicToolUseBody(DEFAULT_RECEIPT_INPUT, toolName, body.model) };
+}
+
+function defaultGroqReply(request: RecordedRequest): MockApiReply {
+  const { headers, body } = request;
+
+  if (!headers['authorization']?.startsWith('Bearer ')) {
+    return { status: 401, body: groqErrorBody('invalid_api_key', 'Invalid API Key') };
+  }
+  if (typeof body?.model !== 'string' || !Array.isArray(body.messages) || body.messages.length === 0) {
+    return { status: 400, body: groqErrorBody('invalid_request_error', 'model and messages are required') };
+  }
+
+  const { raw_text: _rawText, ...receipt } = DEFAULT_RECEIPT_INPUT;
+  return { body: groqCompletionBody(receipt, body.model) };
+}
+
+// ============================================================================
+// Standalone
+// ============================================================================
+
+if (import.meta.main) {
+  const server = startMockApiServer(Number(process.env.MOCK_API_PORT ?? 4010));
+  console.log(`Mock Anthropic API: ${server.url}/v1/messages`);
+  console.log(`Mock Groq API:      ${server.groqBaseUrl}/chat/completions`);
+}
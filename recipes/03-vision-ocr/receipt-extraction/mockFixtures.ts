@@ -0,0 +1,206 @@
+/**
+ * Mock Fixtures
+ *
+ * Lets the DEV-mode mocks (MockClaudeAdapter, MockGroqAdapter) return a
+ * result per input and script provider failures, so fallback paths can be
+ * exercised without an API key.
+ *
+ * Fixtures are looked up by content hash (see hash.ts): the image bytes
+ * for Claude, the OCR text for Groq. File layout:
+ *
+ *   fixtures/
+ *     <sha256>.json
+ *
+ * Fixture file:
+ *   {
+ *     "description": "7-Eleven slip, 429 then success",
+ *     "scenario": ["rate-limited", "success"],
+ *     "latencyMs": 50,
+ *     "retryAfterMs": 1000,
+ *     "result": { "amountSatang": 8560, "currency": "THB", ... }
+ *   }
+ *
+ * A scenario list is played one entry per call; the last entry repeats.
+ * Inputs without a fixture get the mock's default result.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { ReceiptOcrResult } from './types';
+import {
+  InvalidResponseError,
+  OcrTimeoutError,
+  errorFromResponse,
+} from './errors';
+import type { OcrProvider } from './errors';
+import { raceAbort } from './deadline';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * What the mock does on a call
+ *
+ * - success:        return the fixture result
+ * - rate-limited:   HTTP 429 → RateLimitedError (with retryAfterMs)
+ * - overloaded:     HTTP 529 → ProviderUnavailableError
+ * - invalid-json:   unparseable body → InvalidResponseError
+ * - timeout:        no answer within latencyMs → OcrTimeoutError
+ * - low-confidence: the fixture result with confidence forced down
+ */
+export type MockScenario =
+  | 'success'
+  | 'rate-limited'
+  | 'overloaded'
+  | 'invalid-json'
+  | 'timeout'
+  | 'low-confidence';
+
+export interface MockFixture {
+  /** Free text for humans reading the fixture directory */
+  description?: string;
+
+  /** One scenario, or one per call (last repeats). Default: success */
+  scenario?: MockScenario | MockScenario[];
+
+  /** Simulated latency for this input */
+  latencyMs?: number;
+
+  /** retry-after sent with rate-limited */
+  retryAfterMs?: number;
+
+  /** Confidence used by low-confidence (default: 0.4) */
+  lowConfidence?: number;
+
+  /** Result to return (default: the mock's built-in result) */
+  result?: ReceiptOcrResult;
+}
+
+export interface MockFixtureOptions {
+  /** Directory of <sha256>.json fixtures */
+  fixturesDir?: string;
+
+  /** In-memory fixtures keyed by content hash (take precedence over files) */
+  fixtures?: Record<string, MockFixture>;
+
+  /** Latency when the fixture does not set one */
+  latencyMs?: number;
+
+  /** Injectable for tests */
+  sleep?: (ms: number) => Promise<void>;
+}
+
+const DEFAULT_LOW_CONFIDENCE = 0.4;
+
+// ============================================================================
+// Player
+// ============================================================================
+
+/**
+ * Looks up fixtures and plays their scenarios
+ *
+ * One player per mock adapter: call counts (for scenario lists) are
+ * tracked per content hash.
+ */
+export class MockFixturePlayer {
+  private readonly provider: OcrProvider;
+  private readonly options: MockFixtureOptions;
+  private readonly defaultLatencyMs: number;
+  private readonly fileCache = new Map<string, MockFixture | null>();
+  private readonly calls = new Map<string, number>();
+
+  constructor(provider: OcrProvider, defaultLatencyMs: number, options: MockFixtureOptions = {}) {
+    this.provider = provider;
+    this.defaultLatencyMs = defaultLatencyMs;
+    this.options = options;
+  }
+
+  /**
+   * Play the fixture for a content hash
+   *
+   * @param defaultResult - Built-in result when there is no fixture (or it has no result)
+   * @param signal - Call's signal (callSignal): cuts the simulated latency short
+   * @throws The typed OcrError the real adapter would throw for the scenario
+   */
+  async play(
+    hash: string,
+    correlationId: string,
+    defaultResult: () => ReceiptOcrResult,
+    signal?: AbortSignal
+  ): Promise<ReceiptOcrResult> {
+    const fixture = (await this.find(hash)) ?? {};
+    const scenario = this.nextScenario(hash, fixture);
+    const latencyMs = fixture.latencyMs ?? this.options.latencyMs ?? this.defaultLatencyMs;
+    const sleep = this.options.sleep ?? defaultSleep;
+    const context = { correlationId, provider: this.provider };
+
+    await raceAbort(sleep(latencyMs), signal, context);
+
+    switch (scenario) {
+      case 'rate-limited':
+        throw errorFromResponse(429, 'rate_limit_error (mock)', {
+          ...context,
+          retryAfterMs: fixture.retryAfterMs ?? null,
+        });
+      case 'overloaded':
+        throw errorFromResponse(529, 'overloaded_error (mock)', { ...context, retryAfterMs: null });
+      case 'invalid-json':
+        throw new InvalidResponseError('Mock returned invalid JSON', context);
+      case 'timeout':
+        throw new OcrTimeoutError(`Mock did not answer within ${latencyMs}ms`, context);
+      case 'low-confidence':
+        return withConfidence(
+          structuredClone(fixture.result ?? defaultResult()),
+          fixture.lowConfidence ?? DEFAULT_LOW_CONFIDENCE
+        );
+      case 'success':
+        return structuredClone(fixture.result ?? defaultResult());
+    }
+  }
+
+  /**
+   * Find a fixture: in-memory first, then <fixturesDir>/<hash>.json
+   */
+  async find(hash: string): Promise<MockFixture | null> {
+    const inline = this.options.fixtures?.[hash];
+    if (inline) return inline;
+
+    const dir = this.options.fixturesDir;
+    if (!dir) return null;
+
+    if (!this.fileCache.has(hash)) {
+      const text = await readFile(join(dir, `${hash}.json`), 'utf8').catch(() => null);
+      this.fileCache.set(hash, text === null ? null : (JSON.parse(text) as MockFixture));
+    }
+    return this.fileCache.get(hash) ?? null;
+  }
+
+  private nextScenario(hash: string, fixture: MockFixture): MockScenario {
+    const call = this.calls.get(hash) ?? 0;
+    this.calls.set(hash, call + 1);
+
+    const { scenario = 'success' } = fixture;
+    if (!Array.isArray(scenario)) return scenario;
+    return scenario[Math.min(call, scenario.length - 1)] ?? 'success';
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Cap the overall and per-field confidence
+ */
+function withConfidence(result: ReceiptOcrResult, confidence: number): ReceiptOcrResult {
+  result.confidence = Math.min(result.confidence ?? confidence, confidence);
+  for (const evidence of Object.values(result.fieldEvidence ?? {})) {
+    evidence.confidence = Math.min(evidence.confidence, confidence);
+  }
+  return result;
+}
+
+function defaultSleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,94 @@
+/**
+ * Token Pricing
+ *
+ * Turns the token counts a provider reports (ReceiptOcrResult.usage) into
+ * what the call cost, so HybridOcrStrategy measures spend and savings
+ * instead of assuming ฿0.50 per Claude call and ฿0.05 per Groq call.
+ *
+ *   cost (USD) = input tokens × input price + output tokens × output price
+ *   cost (THB) = cost (USD) × usdToThb
+ *
+ * Providers bill in USD per million tokens. The table below is a snapshot
+ * of list prices - override it (and the exchange rate) from config rather
+ * than editing it when prices change:
+ *
+ *   new HybridOcrStrategy(claude, groq, {
+ *     pricing: { usdToThb: 35.2, prices: { 'llama-3.3-70b-versatile': { inputUsdPerMTok: 0.59, outputUsdPerMTok: 0.79 } } },
+ *   });
+ */
+
+import type { TokenUsage } from './types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ModelPrice {
+  /** USD per million input (prompt) tokens, images included */
+  inputUsdPerMTok: number;
+
+  /** USD per million output (completion) tokens */
+  outputUsdPerMTok: number;
+}
+
+/** Prices keyed by the model ID the provider reports */
+export type PriceTable = Record<string, ModelPrice>;
+
+export interface PricingConfig {
+  prices: PriceTable;
+
+  /** Baht per US dollar */
+  usdToThb: number;
+}
+
+export interface UsageCost {
+  usd: number;
+  thb: number;
+}
+
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  // Anthropic
+  'claude-3-5-sonnet-20241022': { inputUsdPerMTok: 3, outputUsdPerMTok: 15 },
+  'claude-3-5-haiku-20241022': { inputUsdPerMTok: 0.8, outputUsdPerMTok: 4 },
+  'claude-3-opus-20240229': { inputUsdPerMTok: 15, outputUsdPerMTok: 75 },
+
+  // Groq
+  'mixtral-8x7b-32768': { inputUsdPerMTok: 0.24, outputUsdPerMTok: 0.24 },
+  'llama-3.3-70b-versatile': { inputUsdPerMTok: 0.59, outputUsdPerMTok: 0.79 },
+  'llama-3.1-8b-instant': { inputUsdPerMTok: 0.05, outputUsdPerMTok: 0.08 },
+};
+
+export const DEFAULT_USD_TO_THB = 36;
+
+export const DEFAULT_PRICING: PricingConfig = {
+  prices: DEFAULT_PRICE_TABLE,
+  usdToThb: DEFAULT_USD_TO_THB,
+};
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Merge overrides into the defaults (price entries are merged per model)
+ */
+export function resolvePricing(overrides: Partial<PricingConfig> = {}): PricingConfig {
+  return {
+    prices: { ...DEFAULT_PRICE_TABLE, ...overrides.prices },
+    usdToThb: overrides.usdToThb ?? DEFAULT_USD_TO_THB,
+  };
+}
+
+/**
+ * Cost of one call
+ *
+ * @returns null when the model has no price (the caller decides how to estimate)
+ */
+export function costOfUsage(usage: TokenUsage, pricing: PricingConfig = DEFAULT_PRICING): UsageCost | null {
+  const price = pricing.prices[usage.model];
+  if (!price) return null;
+
+  const usd =
+    (usage.inputTokens * price.inputUsdPerMTok + usage.outputTokens * price.outputUsdPerMTok) / 1_000_000;
+  return { usd, thb: usd * pricing.usdToThb };
+}
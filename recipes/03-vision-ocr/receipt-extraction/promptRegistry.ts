@@ -0,0 +1,228 @@
+/**
+ * Prompt Registry
+ *
+ * Versioned prompt templates for the real adapters, loaded from files
+ * instead of string literals in the adapters:
+ *
+ *   prompts/
+ *     record-receipt.v1.md          RealClaudeAdapter (record_receipt tool)
+ *     record-receipt.v2.md
+ *     receipt-json.v1.md            GroqTextAdapter (JSON reply)
+ *     receipt-json.v2.md
+ *     clients/<clientId>/<id>.v<N>.md   per-client overrides
+ *
+ * Which template a call uses: the client's override if it has one, else
+ * the pinned version (pins), else the highest version. Old versions stay
+ * on disk so a regression can be pinned back while it is investigated.
+ *
+ * Templates take {{variables}} and {{#variable}}...{{/variable}} sections
+ * (kept only when the variable is set and not empty; arrays are joined
+ * with ", "). Values are inserted once and never re-scanned, so OCR text
+ * containing braces is safe.
+ *
+ * Every result records the prompt that produced it (result.prompt:
+ * { id, version, clientId? }). Never edit a released template in place:
+ * add <id>.v<N+1>.md - cached results and accuracy reports key on the
+ * version.
+ */
+
+import { existsSync, readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { contentHash } from './hash';
+import type { PromptStamp } from './types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface PromptTemplate {
+  id: string;
+  version: number;
+  text: string;
+
+  /** Set for a client override */
+  clientId?: string;
+}
+
+/**
+ * Variables the shipped templates use; custom templates may add their own
+ */
+export interface PromptVariables {
+  /** Client's company name, expected as the buyer on full tax invoices */
+  clientName?: string;
+
+  /** Expected VAT rate in percent (default: 7) */
+  vatRatePercent?: number;
+
+  /** Vendor names the client regularly buys from, spelt as in the ledger */
+  knownVendors?: string[];
+
+  [name: string]: string | number | string[] | undefined;
+}
+
+export interface RenderedPrompt {
+  text: string;
+  stamp: PromptStamp;
+
+  /**
+   * id@version plus a hash of the rendered text: differs whenever the
+   * template, client override or variables differ (result cache key part)
+   */
+  fingerprint: string;
+}
+
+export interface PromptRegistryOptions {
+  /** Version to use per prompt id instead of the highest one */
+  pins?: Record<string, number>;
+
+  /** Applied under each call's variables (default: DEFAULT_PROMPT_VARIABLES) */
+  defaults?: PromptVariables;
+}
+
+/** Shipped templates (overridable with AppConfig.PROMPTS_DIR / GroqConfig.prompts) */
+export const DEFAULT_PROMPTS_DIR = join(import.meta.dir, 'prompts');
+
+export const DEFAULT_PROMPT_VARIABLES: PromptVariables = {
+  vatRatePercent: 7,
+};
+
+/** Template ids used by the adapters */
+export const CLAUDE_PROMPT_ID = 'record-receipt';
+export const GROQ_PROMPT_ID = 'receipt-json';
+
+const FILE_NAME = /^(.+)\.v(\d+)\.md$/;
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+export class PromptRegistry {
+  private readonly templates: PromptTemplate[] = [];
+  private readonly pins: Record<string, number>;
+  private readonly defaults: PromptVariables;
+
+  constructor(options: PromptRegistryOptions = {}) {
+    this.pins = options.pins ?? {};
+    this.defaults = options.defaults ?? DEFAULT_PROMPT_VARIABLES;
+  }
+
+  /**
+   * Load <id>.v<N>.md files, and clients/<clientId>/<id>.v<N>.md overrides
+   */
+  static fromDirectory(dir: string = DEFAULT_PROMPTS_DIR, options: PromptRegistryOptions = {}): PromptRegistry {
+    const registry = new PromptRegistry(options);
+    registry.loadFiles(dir);
+
+    const clientsDir = join(dir, 'clients');
+    if (existsSync(clientsDir)) {
+      for (const entry of readdirSync(clientsDir, { withFileTypes: true })) {
+        if (entry.isDirectory()) registry.loadFiles(join(clientsDir, entry.name), entry.name);
+      }
+    }
+    return registry;
+  }
+
+  /**
+   * Add a template (replaces the same id, version and client)
+   */
+  register(template: PromptTemplate): this {
+    const index = this.templates.findIndex(
+      (t) => t.id === template.id && t.version === template.version && t.clientId === template.clientId
+    );
+    if (index >= 0) this.templates.splice(index, 1);
+    this.templates.push(template);
+    return this;
+  }
+
+  /**
+   * Template a call uses: client override > pinned version > highest version
+   *
+   * @throws Error if there is no template with this id
+   */
+  get(id: string, clientId?: string): PromptTemplate {
+    const latest = (candidates: PromptTemplate[]) =>
+      candidates.reduce<PromptTemplate | undefined>((best, t) => (!best || t.version > best.version ? t : best), undefined);
+
+    const override = clientId ? latest(this.templates.filter((t) => t.id === id && t.clientId === clientId)) : undefined;
+    if (override) return override;
+
+    const shared = this.templates.filter((t) => t.id === id && !t.clientId);
+    const pinned = this.pins[id];
+    const template = pinned === undefined ? latest(shared) : shared.find((t) => t.version === pinned);
+    if (!template) {
+      throw new Error(
+        pinned === undefined ? `Unknown prompt "${id}"` : `Prompt "${id}" has no version ${pinned} (pinned)`
+      );
+    }
+    return template;
+  }
+
+  /**
+   * Render the template a call uses
+   *
+   * @throws Error if the template uses a variable that is not set
+   */
+  render(id: string, variables: PromptVariables = {}, clientId?: string): RenderedPrompt {
+    const template = this.get(id, clientId);
+    const text = renderTemplate(template, { ...this.defaults, ...definedOnly(variables) });
+    const stamp: PromptStamp = { id: template.id, version: template.version };
+    if (template.clientId) stamp.clientId = template.clientId;
+
+    return {
+      text,
+      stamp,
+      fingerprint: `${template.id}@${template.version}${template.clientId ? `/${template.clientId}` : ''}#${contentHash(text).slice(0, 16)}`,
+    };
+  }
+
+  private loadFiles(dir: string, clientId?: string): void {
+    for (const file of readdirSync(dir)) {
+      const match = FILE_NAME.exec(file);
+      if (!match) continue;
+      this.register({
+        id: match[1]!,
+        version: Number(match[2]),
+        text: readFileSync(join(dir, file), 'utf8').replace(/\n$/, ''),
+        clientId,
+      });
+    }
+  }
+}
+
+let defaultRegistry: PromptRegistry | undefined;
+
+/**
+ * Registry over DEFAULT_PROMPTS_DIR (loaded once)
+ */
+export function defaultPromptRegistry(): PromptRegistry {
+  defaultRegistry ??= PromptRegistry.fromDirectory(DEFAULT_PROMPTS_DIR);
+  return defaultRegistry;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function renderTemplate(template: PromptTemplate, variables: PromptVariables): string {
+  // Sections first (a tag alone on its line takes the line with it), then values in one pass
+  const withSections = template.text.replace(
+    /\{\{#(\w+)\}\}\n?([\s\S]*?)\{\{\/\1\}\}\n?/g,
+    (_match, name: string, body: string) => (isSet(variables[name]) ? body : '')
+  );
+
+  return withSections.replace(/\{\{(\w+)\}\}/g, (_match, name: string) => {
+    const value = variables[name];
+    if (!isSet(value)) {
+      throw new Error(`Prompt ${template.id} v${template.version} needs variable "${name}"`);
+    }
+    return Array.isArray(value) ? value.join(', ') : String(value);
+  });
+}
+
+function isSet(value: PromptVariables[string]): boolean {
+  return value !== undefined && value !== '' && !(Array.isArray(value) && value.length === 0);
+}
+
+function definedOnly(variables: PromptVariables): PromptVariables {
+  return Object.fromEntries(Object.entries(variables).filter(([, v]) => v !== undefined));
+}
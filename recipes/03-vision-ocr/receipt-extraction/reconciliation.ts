@@ -0,0 +1,192 @@
+/**
+ * Arithmetic Reconciliation
+ *
+ * Cross-checks the amounts a provider extracted against each other:
+ *
+ * - VAT ≈ grand total × 7/107 (Thai VAT at 7%)
+ * - line items + service charge - discount ≈ subtotal
+ * - grand total ≈ subtotal (VAT-inclusive) or subtotal + VAT (VAT-exclusive)
+ *
+ * Models regularly swap subtotal and grand total; the report flags it
+ * rather than silently correcting the ledger amount.
+ *
+ * Like the validator, reconciliation never throws. An inconsistent result
+ * gets a lower confidence so it goes to review instead of being accepted.
+ *
+ * Usage:
+ *   applyReconciliation(result);
+ *   if (!result.reconciliation!.isConsistent) sendToReview(result);
+ */
+
+import type {
+  ReceiptOcrResult,
+  ReconciliationCheck,
+  ReconciliationCheckName,
+  ReconciliationReport,
+  VatPricing,
+} from './types';
+
+/**
+ * Thai VAT rate (7%): VAT is 7/107 of a VAT-inclusive amount
+ */
+const VAT_RATE = 0.07;
+
+/**
+ * Allowed difference between printed and recomputed amounts.
+ * Shops round VAT per line or to the Baht, so a few Satang drift is normal.
+ */
+export const DEFAULT_RECONCILIATION_TOLERANCE_SATANG = 100;
+
+/**
+ * Confidence multiplier per failed check (0.95 → 0.57 after one failure)
+ */
+export const RECONCILIATION_CONFIDENCE_PENALTY = 0.6;
+
+export interface ReconciliationOptions {
+  /** Default: DEFAULT_RECONCILIATION_TOLERANCE_SATANG */
+  toleranceSatang?: number;
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Reconcile the amounts of an OCR result
+ *
+ * Works on absolute values, so credit notes (negative totals) reconcile
+ * the same way as invoices. Checks whose inputs are missing are skipped.
+ */
+export function reconcileReceipt(
+  result: ReceiptOcrResult,
+  options: ReconciliationOptions = {}
+): ReconciliationReport {
+  const tolerance = options.toleranceSatang ?? DEFAULT_RECONCILIATION_TOLERANCE_SATANG;
+  const near = (a: number, b: number) => Math.abs(a - b) <= tolerance;
+
+  const total = Math.abs(result.amountSatang);
+  const vat = result.vatAmountSatang === null ? null : Math.abs(result.vatAmountSatang);
+  const subtotal = result.subtotalSatang == null ? null : Math.abs(result.subtotalSatang);
+  const items = result.lineItems ?? [];
+  const itemsNet = items.length > 0
+    ? items.reduce((sum, item) => sum + Math.abs(item.totalSatang), 0)
+      + Math.abs(result.serviceChargeSatang ?? 0)
+      - Math.abs(result.discountSatang ?? 0)
+    : null;
+
+  // Swap: the "subtotal" is really the grand total (subtotal = total + VAT)
+  const swapped =
+    subtotal !== null && vat !== null && vat > 0 &&
+    subtotal > total && near(subtotal, total + vat) && !near(total, subtotal + vat);
+
+  const grandTotal = swapped ? subtotal! : total;
+  const printedSubtotal = swapped ? total : subtotal;
+  const vatPricing = detectVatPricing(grandTotal, vat, printedSubtotal, itemsNet, near);
+
+  const checks: ReconciliationCheck[] = [];
+  const check = (name: ReconciliationCheckName, expected: number, actual: number, label: string) => {
+    const discrepancy = actual - expected;
+    const passed = Math.abs(discrepancy) <= tolerance;
+    checks.push({
+      name,
+      expectedSatang: expected,
+      actualSatang: actual,
+      discrepancySatang: discrepancy,
+      passed,
+      message: passed
+        ? `${label} reconciles`
+        : `${label}: expected ${expected}, got ${actual} (off by ${discrepancy} Satang)`,
+    });
+  };
+
+  if (vat !== null && vat > 0) {
+    check('vat-rate', Math.round((grandTotal * VAT_RATE) / (1 + VAT_RATE)), vat, 'VAT at 7% of total');
+  }
+
+  if (itemsNet !== null) {
+    const expectedBase = printedSubtotal
+      ?? (vatPricing === 'exclusive' ? grandTotal - (vat ?? 0) : grandTotal);
+    check('line-items', expectedBase, itemsNet, 'Line items + service charge - discount');
+  }
+
+  if (subtotal !== null) {
+    const expectedTotal = printedSubtotal! + (vatPricing === 'inclusive' || vatPricing === 'none' ? 0 : vat ?? 0);
+    check('subtotal-total', expectedTotal, total, swapped ? 'Total (looks swapped with subtotal)' : 'Total vs subtotal');
+  }
+
+  const failed = checks.filter((c) => !c.passed);
+  const isConsistent = failed.length === 0 && !swapped;
+  const originalConfidence = result.confidence;
+
+  return {
+    isConsistent,
+    vatPricing,
+    checks,
+    discrepancySatang: failed.reduce((max, c) => Math.max(max, Math.abs(c.discrepancySatang)), 0),
+    subtotalTotalSwapped: swapped,
+    originalConfidence,
+    adjustedConfidence: isConsistent
+      ? originalConfidence
+      : roundConfidence(
+          (originalConfidence ?? 1) * RECONCILIATION_CONFIDENCE_PENALTY ** Math.max(1, failed.length)
+        ),
+  };
+}
+
+/**
+ * Reconcile a result in place
+ *
+ * Attaches the report and replaces `confidence` with the adjusted value
+ * (the provider's own score stays in reconciliation.originalConfidence).
+ */
+export function applyReconciliation(
+  result: ReceiptOcrResult,
+  options?: ReconciliationOptions
+): ReceiptOcrResult {
+  const report = reconcileReceipt(result, options);
+  result.reconciliation = report;
+  if (!report.isConsistent) {
+    result.confidence = report.adjustedConfidence;
+  }
+  return result;
+}
+
+/**
+ * One-line summary of the failed checks, for logs and attempt errors
+ */
+export function summarizeReconciliation(report: ReconciliationReport): string {
+  return report.checks
+    .filter((c) => !c.passed)
+    .map((c) => `${c.name} (off by ${c.discrepancySatang})`)
+    .join(', ');
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Decide whether VAT is included in the printed prices
+ *
+ * A printed subtotal is the strongest signal; otherwise compare the
+ * line items against the total with and without VAT.
+ */
+function detectVatPricing(
+  total: number,
+  vat: number | null,
+  subtotal: number | null,
+  itemsNet: number | null,
+  near: (a: number, b: number) => boolean
+): VatPricing {
+  if (vat === null || vat === 0) return 'none';
+
+  const base = subtotal ?? itemsNet;
+  if (base === null) return 'unknown';
+  if (near(total, base + vat)) return 'exclusive';
+  if (near(total, base)) return 'inclusive';
+  return 'unknown';
+}
+
+function roundConfidence(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,281 @@
+/**
+ * Result Cache
+ *
+ * Clients often upload the same photo twice; without a cache every upload
+ * pays for a Claude call (~฿0.50). CachedClaudeAdapter wraps any
+ * ClaudeAdapter and answers repeats from a store:
+ *
+ *   key = sha256(image bytes, prompt fingerprint, model)
+ *
+ * The fingerprint (promptRegistry.ts) covers the template version, the
+ * client's override and the variables, so a prompt or model change never
+ * serves results extracted under the old one. Both come from the wrapped
+ * adapter (callIdentity), so its own prompt registry, pins and model are
+ * what the key follows. Only clean extractions are cached (no violations, reconciled):
+ * errors and rejected results reach the provider again, so a retry still
+ * gets a fresh sample.
+ *
+ * Hits carry `result.cache` ({ key, storedAt }) so HybridOcrStrategy can
+ * record them at zero cost. Validation is re-run on every hit: the
+ * closed period and "today" may differ from when the result was stored.
+ *
+ * Stores:
+ *   MemoryCacheStore - per process (tests, single instance)
+ *   SqliteCacheStore - bun:sqlite file, survives restarts, shared by workers
+ *
+ * Usage:
+ *   const claude = new CachedClaudeAdapter(createClaudeAdapter(config), {
+ *     store: new SqliteCacheStore('ocr-cache.sqlite'),
+ *     ttlMs: 30 * 24 * 60 * 60 * 1000,
+ *   });
+ */
+
+import { Database } from 'bun:sqlite';
+import { contentHash, imageContentHash } from './hash';
+import { validateReceiptOcrResult } from './validation';
+import { DEFAULT_CLAUDE_MODEL } from './claudeAdapter';
+import { CLAUDE_PROMPT_ID, defaultPromptRegistry } from './promptRegistry';
+import type { PromptRegistry } from './promptRegistry';
+import type { ClaudeAdapter, ExtractReceiptParams, ReceiptOcrResult } from './types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CacheEntry {
+  result: ReceiptOcrResult;
+
+  /** Epoch ms */
+  storedAt: number;
+
+  /** Epoch ms, or null = never expires */
+  expiresAt: number | null;
+}
+
+/**
+ * Pluggable storage for cached results
+ */
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | null>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export interface ResultCacheOptions {
+  store: CacheStore;
+
+  /** Time to live in ms; null = keep forever (default: DEFAULT_RESULT_CACHE_TTL_MS) */
+  ttlMs?: number | null;
+
+  /** Injectable for tests */
+  now?: () => number;
+}
+
+export interface CachedClaudeAdapterOptions extends ResultCacheOptions {
+  /** Fixed prompt part of the key (default: fingerprint of the prompt each call renders) */
+  promptVersion?: string;
+
+  /** For a wrapped adapter without callIdentity: the registry it renders from (default: defaultPromptRegistry()) */
+  prompts?: PromptRegistry;
+
+  /** For a wrapped adapter without callIdentity: its model (default: DEFAULT_CLAUDE_MODEL); params.model wins */
+  model?: string;
+}
+
+/** 30 days: long enough to catch re-uploads in the same closing period */
+export const DEFAULT_RESULT_CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// Cache
+// ============================================================================
+
+/**
+ * Key for a cached result
+ *
+ * @param inputHash - Content hash of what the provider reads (image bytes or OCR text)
+ */
+export function resultCacheKey(inputHash: string, promptVersion: string, model: string): string {
+  return contentHash(`${inputHash}\n${promptVersion}\n${model}`);
+}
+
+/**
+ * TTL handling on top of a CacheStore (shared by the Claude and Groq decorators)
+ */
+export class ResultCache {
+  private readonly store: CacheStore;
+  private readonly ttlMs: number | null;
+  private readonly now: () => number;
+
+  constructor(options: ResultCacheOptions) {
+    this.store = options.store;
+    this.ttlMs = options.ttlMs === undefined ? DEFAULT_RESULT_CACHE_TTL_MS : options.ttlMs;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Cached result tagged with `cache`, or null on a miss or expired entry
+   */
+  async get(key: string): Promise<ReceiptOcrResult | null> {
+    const entry = await this.store.get(key);
+    if (!entry) return null;
+
+    if (entry.expiresAt !== null && entry.expiresAt <= this.now()) {
+      await this.store.delete(key);
+      return null;
+    }
+
+    const result = structuredClone(entry.result);
+    result.cache = { key, storedAt: new Date(entry.storedAt).toISOString() };
+    return result;
+  }
+
+  /**
+   * Store a result; results with violations or failed reconciliation are skipped
+   */
+  async set(key: string, result: ReceiptOcrResult): Promise<void> {
+    if ((result.violations?.length ?? 0) > 0 || result.reconciliation?.isConsistent === false) return;
+
+    const storedAt = this.now();
+    const { cache: _cache, ...fresh } = result;
+    await this.store.set(key, {
+      result: structuredClone(fresh),
+      storedAt,
+      expiresAt: this.ttlMs === null ? null : storedAt + this.ttlMs,
+    });
+  }
+}
+
+// ============================================================================
+// Claude Decorator
+// ============================================================================
+
+/**
+ * ClaudeAdapter that serves repeated images from the cache
+ */
+export class CachedClaudeAdapter implements ClaudeAdapter {
+  private readonly inner: ClaudeAdapter;
+  private readonly cache: ResultCache;
+  private readonly promptVersion?: string;
+  private readonly prompts: PromptRegistry;
+  private readonly model: string;
+
+  constructor(inner: ClaudeAdapter, options: CachedClaudeAdapterOptions) {
+    this.inner = inner;
+    this.cache = new ResultCache(options);
+    this.promptVersion = options.promptVersion;
+    this.prompts = options.prompts ?? defaultPromptRegistry();
+    this.model = options.model ?? DEFAULT_CLAUDE_MODEL;
+  }
+
+  async extractReceiptFromImage(params: ExtractReceiptParams): Promise<ReceiptOcrResult> {
+    const identity = this.inner.callIdentity?.(params) ?? {
+      promptFingerprint: this.prompts.render(CLAUDE_PROMPT_ID, params.promptVariables, params.clientId).fingerprint,
+      model: params.model ?? this.model,
+    };
+    const key = resultCacheKey(
+      imageContentHash(params.imageBase64),
+      this.promptVersion ?? identity.promptFingerprint,
+      identity.model
+    );
+
+    const cached = await this.cache.get(key);
+    if (cached) {
+      cached.violations = validateReceiptOcrResult(cached, { closedPeriodEnd: params.closedPeriodEnd });
+      return cached;
+    }
+
+    const result = await this.inner.extractReceiptFromImage(params);
+    await this.cache.set(key, result);
+    return result;
+  }
+}
+
+// ============================================================================
+// Stores
+// ============================================================================
+
+/**
+ * In-process store (lost on restart)
+ */
+export class MemoryCacheStore implements CacheStore {
+  private readonly entries = new Map<string, CacheEntry>();
+
+  async get(key: string): Promise<CacheEntry | null> {
+    return this.entries.get(key) ?? null;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.set(key, entry);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+/**
+ * SQLite-backed store (bun:sqlite)
+ *
+ * @param path - Database file, or ':memory:'
+ */
+export class SqliteCacheStore implements CacheStore {
+  private readonly db: Database;
+
+  constructor(path: string) {
+    this.db = new Database(path, { create: true });
+    this.db.run(`CREATE TABLE IF NOT EXISTS ocr_result_cache (
+      key TEXT PRIMARY KEY,
+      result TEXT NOT NULL,
+      stored_at INTEGER NOT NULL,
+      expires_at INTEGER
+    )`);
+  }
+
+  async get(key: string): Promise<CacheEntry | null> {
+    const row = this.db
+      .query<{ result: string; stored_at: number; expires_at: number | null }, [string]>(
+        'SELECT result, stored_at, expires_at FROM ocr_result_cache WHERE key = ?'
+      )
+      .get(key);
+    if (!row) return null;
+
+    return {
+      result: JSON.parse(row.result) as ReceiptOcrResult,
+      storedAt: row.stored_at,
+      expiresAt: row.expires_at,
+    };
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.db.run(
+      `INSERT INTO ocr_result_cache (key, result, stored_at, expires_at) VALUES (?, ?, ?, ?)
+       ON CONFLICT(key) DO UPDATE SET result = excluded.result,
+         stored_at = excluded.stored_at, expires_at = excluded.expires_at`,
+      [key, JSON.stringify(entry.result), entry.storedAt, entry.expiresAt]
+    );
+  }
+
+  async delete(key: string): Promise<void> {
+    this.db.run('DELETE FROM ocr_result_cache WHERE key = ?', [key]);
+  }
+
+  /**
+   * Drop expired entries (call from a periodic job)
+   *
+   * @returns Number of rows removed
+   */
+  purgeExpired(now: number = Date.now()): number {
+    return this.db.run(
+      'DELETE FROM ocr_result_cache WHERE expires_at IS NOT NULL AND expires_at <= ?',
+      [now]
+    ).changes;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
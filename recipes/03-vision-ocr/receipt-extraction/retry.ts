@@ -0,0 +1,231 @@
+/**
+ * Retry with Exponential Backoff
+ *
+ * Reusable retry policy for provider HTTP calls (Claude, Groq).
+ *
+ * - Retries overload/transient statuses (429, 500, 502, 503, 504, 529)
+ *   and network errors (fetch throwing)
+ * - Honours `retry-after` / `retry-after-ms` response headers
+ * - Full jitter so a month-end batch doesn't retry in lock-step
+ * - Never retries 400/401 (bad request / bad key won't fix themselves)
+ * - Stops at once when options.signal fires, also mid-wait (see deadline.ts)
+ *
+ * Usage:
+ *   const response = await fetchWithRetry(
+ *     () => fetch(url, init),
+ *     { correlationId, provider: 'claude', logger }
+ *   );
+ *   if (!response.ok) { ...final failure... }
+ */
+
+import type { LogContext } from './types';
+import { OcrError } from './errors';
+import type { OcrProvider } from './errors';
+import { abortedError, raceAbort } from './deadline';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RetryPolicy {
+  /** Total attempts, including the first one */
+  maxAttempts: number;
+
+  /** Backoff for the first retry (doubles every attempt) */
+  baseDelayMs: number;
+
+  /** Upper bound for any single wait, including Retry-After */
+  maxDelayMs: number;
+
+  /** HTTP statuses worth retrying */
+  retryableStatuses: number[];
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+  retryableStatuses: [429, 500, 502, 503, 504, 529],
+};
+
+/**
+ * Statuses that are never retried, even if listed in retryableStatuses
+ */
+const NEVER_RETRY = new Set([400, 401]);
+
+/**
+ * Minimal logger shape (satisfied by createLogger)
+ */
+export interface RetryLogger {
+  info(msg: string, ctx?: LogContext): void;
+  warn(msg: string, ctx?: LogContext): void;
+}
+
+export interface RetryOptions {
+  correlationId: string;
+
+  /** Provider for log lines and errors */
+  provider: OcrProvider;
+
+  policy?: Partial<RetryPolicy>;
+  logger?: RetryLogger;
+
+  /** Call's signal (callSignal): aborts waits and skips further attempts */
+  signal?: AbortSignal;
+
+  /** Injectable for tests */
+  sleep?: (ms: number) => Promise<void>;
+  random?: () => number;
+  now?: () => number;
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Call `send` until it returns a non-retryable response or attempts run out
+ *
+ * @returns The last response (may still be non-2xx - caller decides)
+ * @throws The last network error if every attempt threw, a
+ *         non-retryable OcrError thrown by `send` straight away, or
+ *         OcrTimeoutError / OcrCancelledError once the signal fires
+ */
+export async function fetchWithRetry(
+  send: () => Promise<Response>,
+  options: RetryOptions
+): Promise<Response> {
+  const policy = { ...DEFAULT_RETRY_POLICY, ...options.policy };
+  const sleep = options.sleep ?? defaultSleep;
+  const random = options.random ?? Math.random;
+  const now = options.now ?? Date.now;
+  const { correlationId, provider, logger, signal } = options;
+  const abortContext = { correlationId, provider };
+  const wait = (ms: number) => raceAbort(sleep(ms), signal, abortContext);
+
+  for (let attempt = 1; ; attempt++) {
+    const isLast = attempt >= policy.maxAttempts;
+    const startTime = now();
+
+    let response: Response;
+    try {
+      if (signal?.aborted) throw signal.reason;
+      response = await send();
+    } catch (error) {
+      // An aborted fetch throws the signal's reason: no retry can beat the deadline
+      if (signal?.aborted) throw abortedError(signal, abortContext);
+
+      const delayMs = computeBackoffDelay(attempt, policy, random);
+
+      logger?.warn(`${provider} request attempt failed (network)`, {
+        correlationId,
+        provider,
+        attempt,
+        maxAttempts: policy.maxAttempts,
+        durationMs: now() - startTime,
+        error: (error as Error).message,
+        retryInMs: isLast ? null : delayMs,
+      });
+
+      // Typed permanent failures (e.g. a cassette miss) will not fix themselves
+      if (isLast || (error instanceof OcrError && !error.retryable)) throw error;
+      await wait(delayMs);
+      continue;
+    }
+
+    const retryable = isRetryableStatus(response.status, policy);
+    const ctx = {
+      correlationId,
+      provider,
+      attempt,
+      maxAttempts: policy.maxAttempts,
+      durationMs: now() - startTime,
+      status: response.status,
+    };
+
+    if (!retryable || isLast) {
+      logger?.info(`${provider} request attempt completed`, ctx);
+      return response;
+    }
+
+    const retryAfterMs = parseRetryAfter(response.headers, now());
+    if (retryAfterMs !== null && retryAfterMs > policy.maxDelayMs) {
+      // Provider asked for a longer pause than we are willing to block for
+      logger?.warn(`${provider} retry-after exceeds maxDelayMs, giving up`, {
+        ...ctx,
+        retryAfterMs,
+      });
+      return response;
+    }
+
+    const delayMs = retryAfterMs ?? computeBackoffDelay(attempt, policy, random);
+    logger?.warn(`${provider} request attempt failed (retryable)`, {
+      ...ctx,
+      retryInMs: delayMs,
+      retryAfterHeader: retryAfterMs !== null,
+    });
+
+    // Free the connection before waiting
+    await response.body?.cancel().catch(() => undefined);
+    await wait(delayMs);
+  }
+}
+
+/**
+ * Whether a response status should be retried under a policy
+ */
+export function isRetryableStatus(status: number, policy: RetryPolicy = DEFAULT_RETRY_POLICY): boolean {
+  return !NEVER_RETRY.has(status) && policy.retryableStatuses.includes(status);
+}
+
+/**
+ * Exponential backoff with full jitter
+ *
+ * attempt 1 → [0, base), attempt 2 → [0, 2×base), ... capped at maxDelayMs
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  policy: RetryPolicy,
+  random: () => number = Math.random
+): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.floor(random() * ceiling);
+}
+
+/**
+ * Read the wait requested by the provider
+ *
+ * Supports `retry-after-ms` (milliseconds), `retry-after` in seconds,
+ * and `retry-after` as an HTTP date.
+ *
+ * @returns Milliseconds to wait, or null if no usable header
+ */
+export function parseRetryAfter(headers: Headers, now: number = Date.now()): number | null {
+  const ms = headers.get('retry-after-ms');
+  if (ms !== null && ms.trim() !== '' && Number.isFinite(Number(ms))) {
+    return Math.max(0, Number(ms));
+  }
+
+  const value = headers.get('retry-after');
+  if (value === null || value.trim() === '') return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - now);
+  }
+
+  return null;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function defaultSleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
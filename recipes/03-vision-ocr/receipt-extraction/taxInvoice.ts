@@ -0,0 +1,109 @@
+/**
+ * Thai Tax Invoice Helpers
+ * 
+ * - Tax ID normalisation and mod-11 checksum
+ * - Branch normalisation (สำนักงานใหญ่ → '00000', สาขา 12 → '00012')
+ * - Full tax invoice assessment (can input VAT be claimed?)
+ * 
+ * Thai tax IDs (and national IDs) are 13 digits; the last digit is a
+ * check digit: sum(d[i] × (13 - i)) for i = 0..11, check = (11 - sum % 11) % 10
+ */
+
+import type { ReceiptOcrResult, TaxInvoiceCheck } from './types';
+import { VAT_CLAIMABLE_DOCUMENT_TYPES } from './documentType';
+
+/** Branch code the Revenue Department uses for head office */
+export const HEAD_OFFICE_BRANCH = '00000';
+
+// ============================================================================
+// Tax ID
+// ============================================================================
+
+/**
+ * Strip separators from a printed tax ID ("0-1055-12345-67-8" → "0105512345678")
+ * 
+ * @returns Digits only, or null if nothing usable was printed. The result
+ *          is not length-checked - use isValidThaiTaxId for that.
+ */
+export function normalizeThaiTaxId(raw: unknown): string | null {
+  if (typeof raw !== 'string') return null;
+
+  const digits = raw.replace(/[\s\-.]/g, '');
+  return /^\d+$/.test(digits) ? digits : null;
+}
+
+/**
+ * Validate a 13-digit Thai tax ID with the mod-11 check digit
+ */
+export function isValidThaiTaxId(id: string): boolean {
+  if (!/^\d{13}$/.test(id)) return false;
+
+  let sum = 0;
+  for (let i = 0; i < 12; i++) {
+    sum += Number(id[i]) * (13 - i);
+  }
+
+  return (11 - (sum % 11)) % 10 === Number(id[12]);
+}
+
+// ============================================================================
+// Branch
+// ============================================================================
+
+/**
+ * Normalise a printed branch to the 5-digit Revenue Department code
+ * 
+ * @example
+ *   normalizeBranch('สำนักงานใหญ่') // '00000'
+ *   normalizeBranch('สาขาที่ 12')    // '00012'
+ *   normalizeBranch('Head Office')  // '00000'
+ */
+export function normalizeBranch(raw: unknown): string | null {
+  if (typeof raw !== 'string' || raw.trim() === '') return null;
+
+  if (/สำนักงานใหญ่|head\s*office/i.test(raw)) return HEAD_OFFICE_BRANCH;
+
+  const digits = raw.match(/\d+/)?.[0];
+  if (!digits || digits.length > 5) return raw.trim();
+
+  return digits.padStart(5, '0');
+}
+
+// ============================================================================
+// Full Tax Invoice Assessment
+// ============================================================================
+
+/**
+ * Check whether an OCR result is a valid full tax invoice
+ * 
+ * Anything short of that (abbreviated tax invoice, plain receipt,
+ * bad tax ID) means the input VAT cannot be claimed.
+ */
+export function assessFullTaxInvoice(result: ReceiptOcrResult): TaxInvoiceCheck {
+  const issues: string[] = [];
+
+  // Credit/debit notes adjust a full tax invoice and need the same details
+  if (result.documentType && !VAT_CLAIMABLE_DOCUMENT_TYPES.includes(result.documentType)) {
+    issues.push(`documentType: ${result.documentType} is not a full tax invoice`);
+  }
+
+  const checkTaxId = (field: 'sellerTaxId' | 'buyerTaxId') => {
+    const id = result[field];
+    if (!id) issues.push(`${field}: missing`);
+    else if (!isValidThaiTaxId(id)) issues.push(`${field}: checksum failed`);
+  };
+
+  checkTaxId('sellerTaxId');
+  if (!result.sellerBranch) issues.push('sellerBranch: missing');
+  if (!result.vendorName) issues.push('vendorName: missing');
+  if (!result.taxInvoiceNumber) issues.push('taxInvoiceNumber: missing');
+  if (!result.buyerName) issues.push('buyerName: missing');
+  checkTaxId('buyerTaxId');
+  if (!result.issueDate) issues.push('issueDate: missing');
+  if (result.vatAmountSatang === null) issues.push('vatAmountSatang: not shown separately');
+
+  return {
+    isValidFullTaxInvoice: issues.length === 0,
+    issues,
+  };
+}
@@ -6,9 +6,47 @@
  *   PROD mode: CLAUDE_API_KEY=sk-xxx APP_MODE=PROD bun test test.ts
  */
 
-import { describe, test, expect } from 'bun:test';
-import { createClaudeAdapter } from './claudeAdapter';
-import type { AppConfig } from './types';
+import { describe, test, expect, spyOn, mock, afterEach, afterAll, beforeEach } from 'bun:test';
+import { mkdtemp, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createClaudeAdapter, MockClaudeAdapter, RealClaudeAdapter } from './claudeAdapter';
+import {
+  InvalidResponseError,
+  AuthFailedError,
+  RateLimitedError,
+  ImageRejectedError,
+  ProviderUnavailableError,
+  OcrTimeoutError,
+  OcrError,
+} from './types';
+import { errorFromResponse, OcrCancelledError, toHttpStatus } from './errors';
+import {
+  assessFullTaxInvoice,
+  isValidThaiTaxId,
+  normalizeBranch,
+  normalizeThaiTaxId,
+} from './taxInvoice';
+import { validateReceiptOcrResult } from './validation';
+import { fetchWithRetry, parseRetryAfter } from './retry';
+import { applyReconciliation, reconcileReceipt } from './reconciliation';
+import { normalizeIssueDate, parseThaiDate, parseThaiTime } from './thaiDate';
+import { weakestCriticalField } from './fieldEvidence';
+import { imageContentHash } from './hash';
+import { CassetteMissError, cassetteKey } from './cassette';
+import { CachedClaudeAdapter, MemoryCacheStore, SqliteCacheStore } from './resultCache';
+import { DuplicateDetector, hammingDistance, vendorSimilarity } from './duplicateDetector';
+import { prepareReceiptImage, readExifOrientation, sniffImageFormat } from './imageIntake';
+import { costOfUsage, DEFAULT_PRICING, resolvePricing } from './pricing';
+import { defaultPromptRegistry, DEFAULT_PROMPTS_DIR, PromptRegistry } from './promptRegistry';
+import { abortedError, callSignal } from './deadline';
+import { createLogger, redactPii } from './logger';
+import type { LogRecord } from './logger';
+import { createBatchTracer, createOtlpTracer, NOOP_TRACER, toOtlpJson } from './tracing';
+import type { FinishedSpan } from './tracing';
+import { metricsHandler, MetricsRegistry, PROMETHEUS_CONTENT_TYPE } from './metrics';
+import { anthropicErrorBody, anthropicToolUseBody, DEFAULT_RECEIPT_INPUT, startMockApiServer } from './mockApiServer';
+import type { AppConfig, ReceiptOcrResult } from './types';
 
 // ============================================================================
 // Test Helpers
@@ -69,7 +107,7 @@ describe('ClaudeAdapter - DEV Mode', () => {
 
     expect(result.lineItems).toBeDefined();
     expect(result.lineItems!.length).toBeGreaterThan(0);
-    expect(result.lineItems![0].description).toBeDefined();
+    expect(result.lineItems![0]!.description).toBeDefined();
   });
 
   test('should simulate latency', async () => {
@@ -130,6 +168,309 @@ describe('ClaudeAdapter - PROD Mode', () => {
   });
 });
 
+// ============================================================================
+// record_receipt Tool Parsing Tests (stubbed fetch, no API key needed)
+// ============================================================================
+
+describe('RealClaudeAdapter - record_receipt tool', () => {
+  const config: AppConfig = {
+    MODE: 'PROD',
+    CLAUDE_API_KEY: 'sk-test',
+    LOG_LEVEL: 'error',
+  };
+
+  function stubClaudeResponse(body: unknown) {
+    return spyOn(globalThis, 'fetch').mockResolvedValue(
+      new Response(JSON.stringify(body), { status: 200 })
+    );
+  }
+
+  function toolUseResponse(input: Record<string, unknown>) {
+    return {
+      content: [
+        {
+          type: 'tool_use',
+          id: 'toolu_01',
+          name: 'record_receipt',
+          input: { document_type: 'receipt', ...input },
+        },
+      ],
+      stop_reason: 'tool_use',
+    };
+  }
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  test('should force record_receipt and map the tool input', async () => {
+    const fetchSpy = stubClaudeResponse(
+      toolUseResponse({
+        total_amount_satang: 8560,
+        vat_amount_satang: 560,
+        vendor_name: '7-ELEVEN',
+        issue_date: '2026-01-22',
+        confidence: 0.93,
+        line_items: [
+          { description: 'กาแฟ', quantity: 1, unit_price_satang: 4500, total_satang: 4500 },
+        ],
+      })
+    );
+
+    const adapter = new RealClaudeAdapter(config);
+    const result = await adapter.extractReceiptFromImage({
+      correlationId: 'tool-001',
+      imageBase64: createMockImage(),
+    });
+
+    const requestBody = JSON.parse(fetchSpy.mock.calls[0]![1]!.body as string);
+    expect(requestBody.tool_choice).toEqual({ type: 'tool', name: 'record_receipt' });
+    expect(requestBody.tools[0].name).toBe('record_receipt');
+
+    expect(result.amountSatang).toBe(8560);
+    expect(result.vatAmountSatang).toBe(560);
+    expect(result.lineItems![0]!.unitPriceSatang).toBe(4500);
+  });
+
+  test('should extract full tax invoice fields and flag a bad seller tax ID', async () => {
+    stubClaudeResponse(
+      toolUseResponse({
+        total_amount_satang: 107000,
+        vat_amount_satang: 7000,
+        document_type: 'full_tax_invoice',
+        vendor_name: 'บริษัท ตัวอย่าง จำกัด',
+        issue_date: '2026-01-22',
+        seller_tax_id: '0-1055-56123-45-4', // check digit should be 3
+        seller_branch: 'สำนักงานใหญ่',
+        tax_invoice_number: 'INV-2026-0001',
+        buyer_name: 'บริษัท ลูกค้า จำกัด',
+        buyer_tax_id: '0107536000013',
+        confidence: 0.92,
+      })
+    );
+
+    const adapter = new RealClaudeAdapter(config);
+    const result = await adapter.extractReceiptFromImage({
+      correlationId: 'tool-tax',
+      imageBase64: createMockImage(),
+    });
+
+    expect(result.sellerTaxId).toBe('0105556123454');
+    expect(result.sellerBranch).toBe('00000');
+    expect(result.buyerTaxId).toBe('0107536000013');
+    expect(result.taxInvoiceCheck).toEqual({
+      isValidFullTaxInvoice: false,
+      issues: ['sellerTaxId: checksum failed'],
+    });
+    expect(result.violations).toContainEqual(
+      expect.objectContaining({ field: 'sellerTaxId', rule: 'tax-id-checksum' })
+    );
+  });
+
+  test('should make credit note totals negative', async () => {
+    stubClaudeResponse(
+      toolUseResponse({
+        document_type: 'credit_note',
+        total_amount_satang: 53500,
+        vat_amount_satang: 3500,
+        vendor_name: 'บริษัท ตัวอย่าง จำกัด',
+        issue_date: '2026-01-22',
+        confidence: 0.9,
+      })
+    );
+
+    const adapter = new RealClaudeAdapter(config);
+    const result = await adapter.extractReceiptFromImage({
+      correlationId: 'tool-cn',
+      imageBase64: createMockImage(),
+    });
+
+    expect(result.documentType).toBe('credit_note');
+    expect(result.amountSatang).toBe(-53500);
+    expect(result.vatAmountSatang).toBe(-3500);
+    expect(result.violations).toEqual([]);
+  });
+
+  test('should make totals of other document types positive', async () => {
+    stubClaudeResponse(
+      toolUseResponse({
+        document_type: 'debit_note',
+        total_amount_satang: -53500,
+        vat_amount_satang: -3500,
+        vendor_name: 'บริษัท ตัวอย่าง จำกัด',
+        issue_date: '2026-01-22',
+        confidence: 0.9,
+      })
+    );
+
+    const adapter = new RealClaudeAdapter(config);
+    const result = await adapter.extractReceiptFromImage({
+      correlationId: 'tool-dn',
+      imageBase64: createMockImage(),
+    });
+
+    expect(result.documentType).toBe('debit_note');
+    expect(result.amountSatang).toBe(53500);
+    expect(result.vatAmountSatang).toBe(3500);
+  });
+
+  test('should map per-field evidence and line item evidence', async () => {
+    stubClaudeResponse(
+      toolUseResponse({
+        total_amount_satang: 4500,
+        vat_amount_satang: 294,
+        vendor_name: '7-ELEVEN',
+        issue_date: '2026-01-22',
+        confidence: 0.9,
+        line_items: [
+          {
+            description: 'กาแฟ',
+            quantity: 1,
+            unit_price_satang: 4500,
+            total_satang: 4500,
+            evidence: { confidence: 0.8, source_text: 'กาแฟ 45.00' },
+          },
+        ],
+        field_evidence: {
+          total_amount_satang: {
+            confidence: 0.98,
+            source_text: 'รวมทั้งสิ้น 45.00',
+            region: { x: 0.1, y: 0.8, width: 0.8, height: 0.05 },
+          },
+          vat_amount_satang: { confidence: 0.45, source_text: 'ภาษี 2.94', region: { x: 2, y: 0, width: 1, height: 1 } },
+        },
+      })
+    );
+
+    const adapter = new RealClaudeAdapter(config);
+    const result = await adapter.extractReceiptFromImage({
+      correlationId: 'tool-evidence',
+      imageBase64: createMockImage(),
+    });
+
+    expect(result.fieldEvidence).toEqual({
+      amountSatang: {
+        confidence: 0.98,
+        sourceText: 'รวมทั้งสิ้น 45.00',
+        region: { x: 0.1, y: 0.8, width: 0.8, height: 0.05 },
+      },
+      vatAmountSatang: { confidence: 0.45, sourceText: 'ภาษี 2.94' }, // off-image region dropped
+    });
+    expect(result.lineItems![0]!.evidence).toEqual({ confidence: 0.8, sourceText: 'กาแฟ 45.00' });
+    expect(weakestCriticalField(result)).toEqual({ field: 'vatAmountSatang', confidence: 0.45 });
+  });
+
+  test('should reject field evidence without a usable confidence', async () => {
+    stubClaudeResponse(
+      toolUseResponse({
+        total_amount_satang: 4500,
+        vat_amount_satang: null,
+        vendor_name: '7-ELEVEN',
+        issue_date: null,
+        confidence: 0.9,
+        field_evidence: { vendor_name: { confidence: 'high', source_text: '7-ELEVEN' } },
+      })
+    );
+
+    const adapter = new RealClaudeAdapter(config);
+    const error = await adapter
+      .extractReceiptFromImage({ correlationId: 'tool-evidence-bad', imageBase64: createMockImage() })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(InvalidResponseError);
+    expect(error.field).toBe('field_evidence.vendor_name');
+  });
+
+  test('should reject an unknown document_type', async () => {
+    stubClaudeResponse(
+      toolUseResponse({
+        document_type: 'invoice',
+        total_amount_satang: 10000,
+        vat_amount_satang: null,
+        vendor_name: null,
+        issue_date: null,
+        confidence: 0.5,
+      })
+    );
+
+    const adapter = new RealClaudeAdapter(config);
+    const error = await adapter
+      .extractReceiptFromImage({ correlationId: 'tool-dt', imageBase64: createMockImage() })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(InvalidResponseError);
+    expect(error.field).toBe('document_type');
+  });
+
+  test('should throw InvalidResponseError when total is missing', async () => {
+    stubClaudeResponse(
+      toolUseResponse({
+        vat_amount_satang: null,
+        vendor_name: 'Shop',
+        issue_date: null,
+        confidence: 0.4,
+      })
+    );
+
+    const adapter = new RealClaudeAdapter(config);
+    const promise = adapter.extractReceiptFromImage({
+      correlationId: 'tool-002',
+      imageBase64: createMockImage(),
+    });
+
+    await expect(promise).rejects.toBeInstanceOf(InvalidResponseError);
+    await expect(promise).rejects.toThrow('total_amount_satang');
+  });
+
+  test('should throw AuthFailedError on 401 without retrying', async () => {
+    const fetchSpy = spyOn(globalThis, 'fetch').mockResolvedValue(
+      new Response('{"error":{"type":"authentication_error"}}', { status: 401 })
+    );
+
+    const adapter = new RealClaudeAdapter(config);
+    const error = await adapter
+      .extractReceiptFromImage({ correlationId: 'tool-401', imageBase64: createMockImage() })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(AuthFailedError);
+    expect(error).toMatchObject({
+      correlationId: 'tool-401',
+      provider: 'claude',
+      status: 401,
+      retryable: false,
+    });
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+  });
+
+  test('should wrap network failures in ProviderUnavailableError', async () => {
+    spyOn(globalThis, 'fetch').mockRejectedValue(new TypeError('fetch failed'));
+
+    const adapter = new RealClaudeAdapter({ ...config, RETRY: { maxAttempts: 1 } });
+    const error = await adapter
+      .extractReceiptFromImage({ correlationId: 'tool-net', imageBase64: createMockImage() })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(ProviderUnavailableError);
+    expect(error.retryable).toBe(true);
+    expect(error.cause).toBeInstanceOf(TypeError);
+  });
+
+  test('should throw InvalidResponseError when no tool call is returned', async () => {
+    stubClaudeResponse({
+      content: [{ type: 'text', text: '```json\n{"total_amount_satang": 100}\n```' }],
+      stop_reason: 'end_turn',
+    });
+
+    const adapter = new RealClaudeAdapter(config);
+    const promise = adapter.extractReceiptFromImage({
+      correlationId: 'tool-003',
+      imageBase64: createMockImage(),
+    });
+
+    await expect(promise).rejects.toThrow('record_receipt');
+  });
+});
+
 // ============================================================================
 // Data Validation Tests
 // ============================================================================
@@ -176,3 +517,1479 @@ describe('ReceiptOcrResult Validation', () => {
     }
   });
 });
+
+// ============================================================================
+// Schema Validator Tests
+// ============================================================================
+
+describe('validateReceiptOcrResult', () => {
+  const valid: ReceiptOcrResult = {
+    amountSatang: 8560,
+    currency: 'THB',
+    vatAmountSatang: 560,
+    vendorName: '7-ELEVEN',
+    issueDate: '2026-01-22',
+    confidence: 0.9,
+    lineItems: [
+      { description: 'กาแฟ', quantity: 2, unitPriceSatang: 2250, totalSatang: 4500 },
+    ],
+  };
+
+  test('should accept a well-formed result', () => {
+    expect(validateReceiptOcrResult(valid)).toEqual([]);
+  });
+
+  test('should report field, rule and offending value', () => {
+    const violations = validateReceiptOcrResult({
+      ...valid,
+      amountSatang: 85.6,
+      vatAmountSatang: -560,
+      issueDate: '22/01/2569',
+    });
+
+    expect(violations).toContainEqual(
+      expect.objectContaining({ field: 'amountSatang', rule: 'integer', value: 85.6 })
+    );
+    expect(violations).toContainEqual(
+      expect.objectContaining({ field: 'vatAmountSatang', rule: 'non-negative', value: -560 })
+    );
+    expect(violations).toContainEqual(
+      expect.objectContaining({ field: 'issueDate', rule: 'iso-date', value: '22/01/2569' })
+    );
+  });
+
+  test('should flag a zero total and impossible calendar dates', () => {
+    const violations = validateReceiptOcrResult({
+      ...valid,
+      amountSatang: 0,
+      vatAmountSatang: null,
+      issueDate: '2026-02-30',
+    });
+
+    expect(violations.map((v) => v.rule)).toEqual(['positive', 'iso-date']);
+  });
+
+  test('should check line item arithmetic', () => {
+    const violations = validateReceiptOcrResult({
+      ...valid,
+      lineItems: [
+        { description: 'Latte', quantity: 2, unitPriceSatang: 8000, totalSatang: 12000 },
+      ],
+    });
+
+    expect(violations).toHaveLength(1);
+    expect(violations[0]).toMatchObject({
+      field: 'lineItems[0].totalSatang',
+      rule: 'line-item-arithmetic',
+      value: 12000,
+    });
+  });
+});
+
+// ============================================================================
+// Retry Policy Tests
+// ============================================================================
+
+describe('fetchWithRetry', () => {
+  function scripted(...statuses: Array<number | Error | Response>) {
+    let calls = 0;
+    const send = async () => {
+      const next = statuses[Math.min(calls++, statuses.length - 1)]!;
+      if (next instanceof Error) throw next;
+      if (next instanceof Response) return next;
+      return new Response('{}', { status: next });
+    };
+    return { send, calls: () => calls };
+  }
+
+  function options(sleeps: number[]) {
+    return {
+      correlationId: 'retry-001',
+      provider: 'claude' as const,
+      policy: { maxAttempts: 3, baseDelayMs: 100 },
+      sleep: async (ms: number) => { sleeps.push(ms); },
+      random: () => 0.5,
+    };
+  }
+
+  test('should retry 529 and 500 with exponential backoff', async () => {
+    const sleeps: number[] = [];
+    const api = scripted(529, 500, 200);
+
+    const response = await fetchWithRetry(api.send, options(sleeps));
+
+    expect(response.status).toBe(200);
+    expect(api.calls()).toBe(3);
+    expect(sleeps).toEqual([50, 100]); // 0.5 × 100, 0.5 × 200
+  });
+
+  test('should honour retry-after on 429', async () => {
+    const sleeps: number[] = [];
+    const api = scripted(
+      new Response('{}', { status: 429, headers: { 'retry-after': '2' } }),
+      200
+    );
+
+    await fetchWithRetry(api.send, options(sleeps));
+
+    expect(sleeps).toEqual([2000]);
+  });
+
+  test('should never retry 400 or 401', async () => {
+    for (const status of [400, 401]) {
+      const api = scripted(status, 200);
+      const response = await fetchWithRetry(api.send, {
+        ...options([]),
+        policy: { retryableStatuses: [400, 401, 429] },
+      });
+
+      expect(response.status).toBe(status);
+      expect(api.calls()).toBe(1);
+    }
+  });
+
+  test('should retry network errors and rethrow the last one', async () => {
+    const api = scripted(new TypeError('fetch failed'));
+
+    await expect(fetchWithRetry(api.send, options([]))).rejects.toThrow('fetch failed');
+    expect(api.calls()).toBe(3);
+  });
+
+  test('should return the last response when attempts run out', async () => {
+    const api = scripted(529);
+    const response = await fetchWithRetry(api.send, options([]));
+
+    expect(response.status).toBe(529);
+    expect(api.calls()).toBe(3);
+  });
+
+  test('should parse retry-after seconds, milliseconds and HTTP dates', () => {
+    const now = Date.parse('2026-01-22T00:00:00Z');
+
+    expect(parseRetryAfter(new Headers({ 'retry-after': '3' }), now)).toBe(3000);
+    expect(parseRetryAfter(new Headers({ 'retry-after-ms': '250' }), now)).toBe(250);
+    expect(
+      parseRetryAfter(new Headers({ 'retry-after': 'Thu, 22 Jan 2026 00:00:05 GMT' }), now)
+    ).toBe(5000);
+    expect(parseRetryAfter(new Headers(), now)).toBeNull();
+  });
+});
+
+// ============================================================================
+// Error Taxonomy Tests
+// ============================================================================
+
+describe('OCR error taxonomy', () => {
+  const ctx = { correlationId: 'err-001', provider: 'claude' as const };
+
+  test('should map provider statuses to typed errors', () => {
+    expect(errorFromResponse(429, '', { ...ctx, retryAfterMs: 2000 })).toBeInstanceOf(RateLimitedError);
+    expect(errorFromResponse(401, '', ctx)).toBeInstanceOf(AuthFailedError);
+    expect(errorFromResponse(400, 'Could not process image', ctx)).toBeInstanceOf(ImageRejectedError);
+    expect(errorFromResponse(529, '', ctx)).toBeInstanceOf(ProviderUnavailableError);
+
+    const badRequest = errorFromResponse(400, 'max_tokens too large', ctx);
+    expect(badRequest.constructor).toBe(OcrError);
+    expect(badRequest.retryable).toBe(false);
+  });
+
+  test('should carry correlationId, provider, status and retryAfter', () => {
+    const error = errorFromResponse(429, '', { ...ctx, retryAfterMs: 2000 }) as RateLimitedError;
+
+    expect(error.correlationId).toBe('err-001');
+    expect(error.provider).toBe('claude');
+    expect(error.status).toBe(429);
+    expect(error.retryable).toBe(true);
+    expect(error.retryAfterMs).toBe(2000);
+  });
+
+  test('should map errors to HTTP statuses for the API layer', () => {
+    expect(toHttpStatus(new ImageRejectedError('bad image', ctx))).toBe(422);
+    expect(toHttpStatus(new RateLimitedError('slow down', ctx))).toBe(429);
+    expect(toHttpStatus(new ProviderUnavailableError('down', ctx))).toBe(503);
+    expect(toHttpStatus(new Error('unknown'))).toBe(500);
+  });
+});
+
+// ============================================================================
+// Thai Tax Invoice Tests
+// ============================================================================
+
+describe('Thai tax invoice helpers', () => {
+  test('should validate tax IDs with the mod-11 checksum', () => {
+    expect(isValidThaiTaxId('0105556123453')).toBe(true);
+    expect(isValidThaiTaxId('3105500123452')).toBe(true);
+    expect(isValidThaiTaxId('0105556123454')).toBe(false);
+    expect(isValidThaiTaxId('010555612345')).toBe(false);
+  });
+
+  test('should normalise printed tax IDs and branches', () => {
+    expect(normalizeThaiTaxId('0-1055-56123-45-3')).toBe('0105556123453');
+    expect(normalizeThaiTaxId('N/A')).toBeNull();
+    expect(normalizeBranch('สำนักงานใหญ่')).toBe('00000');
+    expect(normalizeBranch('สาขาที่ 12')).toBe('00012');
+    expect(normalizeBranch(null)).toBeNull();
+  });
+
+  test('should flag documents that are not valid full tax invoices', () => {
+    const abbreviated: ReceiptOcrResult = {
+      amountSatang: 8560,
+      currency: 'THB',
+      vatAmountSatang: 560,
+      vendorName: '7-ELEVEN',
+      issueDate: '2026-01-22',
+      sellerTaxId: '0107536000013',
+      sellerBranch: '12345',
+      taxInvoiceNumber: 'ABB-001',
+      buyerName: null,
+      buyerTaxId: null,
+    };
+
+    const check = assessFullTaxInvoice(abbreviated);
+    expect(check.isValidFullTaxInvoice).toBe(false);
+    expect(check.issues).toEqual(['buyerName: missing', 'buyerTaxId: missing']);
+
+    expect(
+      assessFullTaxInvoice({ ...abbreviated, documentType: 'abbreviated_tax_invoice' }).issues
+    ).toContain('documentType: abbreviated_tax_invoice is not a full tax invoice');
+
+    const full = assessFullTaxInvoice({
+      ...abbreviated,
+      buyerName: 'บริษัท ลูกค้า จำกัด',
+      buyerTaxId: '0105556123453',
+    });
+    expect(full).toEqual({ isValidFullTaxInvoice: true, issues: [] });
+  });
+});
+
+// ============================================================================
+// Reconciliation Tests
+// ============================================================================
+
+describe('reconcileReceipt', () => {
+  const base: ReceiptOcrResult = {
+    amountSatang: 8560,
+    currency: 'THB',
+    vatAmountSatang: 560,
+    vendorName: '7-ELEVEN',
+    issueDate: '2026-01-22',
+    confidence: 0.95,
+  };
+
+  test('should reconcile a VAT-exclusive receipt with a printed subtotal', () => {
+    const report = reconcileReceipt({
+      ...base,
+      subtotalSatang: 8000,
+      lineItems: [
+        { description: 'กาแฟ', quantity: 1, unitPriceSatang: 4500, totalSatang: 4500 },
+        { description: 'ขนมปัง', quantity: 1, unitPriceSatang: 3500, totalSatang: 3500 },
+      ],
+    });
+
+    expect(report.isConsistent).toBe(true);
+    expect(report.vatPricing).toBe('exclusive');
+    expect(report.checks.map((c) => c.name)).toEqual(['vat-rate', 'line-items', 'subtotal-total']);
+    expect(report.adjustedConfidence).toBe(0.95);
+  });
+
+  test('should detect VAT-inclusive pricing from line items, service charge and discount', () => {
+    const report = reconcileReceipt({
+      ...base,
+      amountSatang: 10700,
+      vatAmountSatang: 700,
+      serviceChargeSatang: 1000,
+      discountSatang: 300,
+      lineItems: [{ description: 'ข้าวผัด', quantity: 2, unitPriceSatang: 5000, totalSatang: 10000 }],
+    });
+
+    expect(report.vatPricing).toBe('inclusive');
+    expect(report.isConsistent).toBe(true);
+  });
+
+  test('should flag swapped subtotal and total', () => {
+    const report = reconcileReceipt({ ...base, amountSatang: 8000, subtotalSatang: 8560 });
+
+    expect(report.subtotalTotalSwapped).toBe(true);
+    expect(report.isConsistent).toBe(false);
+    expect(report.vatPricing).toBe('exclusive');
+    expect(report.checks.find((c) => c.name === 'vat-rate')!.passed).toBe(true);
+  });
+
+  test('should report the VAT discrepancy and lower the confidence', () => {
+    const result = applyReconciliation({ ...base, vatAmountSatang: 1200 });
+    const report = result.reconciliation!;
+
+    expect(report.isConsistent).toBe(false);
+    expect(report.discrepancySatang).toBe(640);
+    expect(report.originalConfidence).toBe(0.95);
+    expect(result.confidence).toBe(0.57);
+  });
+
+  test('should reconcile credit notes on absolute amounts', () => {
+    const report = reconcileReceipt({
+      ...base,
+      documentType: 'credit_note',
+      amountSatang: -8560,
+      vatAmountSatang: -560,
+      subtotalSatang: -8000,
+    });
+
+    expect(report.isConsistent).toBe(true);
+  });
+
+  test('should skip checks when no VAT, subtotal or items are printed', () => {
+    const report = reconcileReceipt({ ...base, vatAmountSatang: null });
+
+    expect(report.vatPricing).toBe('none');
+    expect(report.checks).toEqual([]);
+    expect(report.isConsistent).toBe(true);
+  });
+});
+
+// ============================================================================
+// Thai Date Tests
+// ============================================================================
+
+describe('Thai date normalisation', () => {
+  const now = new Date('2026-10-18T03:00:00Z');
+
+  test('should parse numeric BE and CE dates', () => {
+    expect(parseThaiDate('วันที่ 22/01/2569', { now })).toEqual({
+      isoDate: '2026-01-22',
+      era: 'BE',
+      source: '22/01/2569',
+    });
+    expect(parseThaiDate('2569-01-22', { now })!.isoDate).toBe('2026-01-22');
+    expect(parseThaiDate('Date: 22-01-2026', { now })!.era).toBe('CE');
+    expect(parseThaiDate('01/22/2026', { now })!.isoDate).toBe('2026-01-22'); // MM/DD
+  });
+
+  test('should parse Thai month names, abbreviations and Thai digits', () => {
+    expect(parseThaiDate('22 มกราคม 2569', { now })!.isoDate).toBe('2026-01-22');
+    expect(parseThaiDate('5 ก.พ. 69', { now })!.isoDate).toBe('2026-02-05');
+    expect(parseThaiDate('๑๕ มี.ค. ๒๕๖๙', { now })!.isoDate).toBe('2026-03-15');
+    expect(parseThaiDate('22 Jan 26', { now })!.isoDate).toBe('2026-01-22');
+  });
+
+  test('should resolve two-digit years to the closest past reading', () => {
+    expect(parseThaiDate('22/01/69', { now })).toMatchObject({ isoDate: '2026-01-22', era: 'BE' });
+    expect(parseThaiDate('22/01/26', { now })).toMatchObject({ isoDate: '2026-01-22', era: 'CE' });
+  });
+
+  test('should prefer the labelled date and ignore amounts', () => {
+    const text = 'ครบกำหนด 28/02/2569\nรวม 85.60\nวันที่ 22/01/2569';
+    expect(parseThaiDate(text, { now })!.isoDate).toBe('2026-01-22');
+    expect(parseThaiDate('รวม 85.60 ภาษี 5.60', { now })).toBeNull();
+  });
+
+  test('should parse times', () => {
+    expect(parseThaiTime('วันที่ 22/01/2569\nเวลา 14:35')).toBe('14:35');
+    expect(parseThaiTime('เวลา 9.05 น.')).toBe('09:05');
+    expect(parseThaiTime('รวม 85.60')).toBeNull();
+  });
+
+  test('should override the model date with the printed date', () => {
+    const result = normalizeIssueDate(
+      {
+        amountSatang: 8560,
+        currency: 'THB',
+        vatAmountSatang: 560,
+        vendorName: '7-ELEVEN',
+        issueDate: '2569-01-22', // BE year left in place by the model
+        rawText: '7-ELEVEN\nวันที่ 22/01/2569\nเวลา 14:35',
+      },
+      { now }
+    );
+
+    expect(result.issueDate).toBe('2026-01-22');
+    expect(result.issueTime).toBe('14:35');
+    expect(result.dateNormalization).toEqual({
+      llmDate: '2569-01-22',
+      textDate: '2026-01-22',
+      source: 'raw-text',
+      era: 'BE',
+      overridden: true,
+    });
+  });
+
+  test('should reject future dates and dates in a closed period', () => {
+    const result: ReceiptOcrResult = {
+      amountSatang: 8560,
+      currency: 'THB',
+      vatAmountSatang: 560,
+      vendorName: '7-ELEVEN',
+      issueDate: '2026-10-19',
+    };
+
+    expect(validateReceiptOcrResult(result, { now }).map((v) => v.rule)).toEqual(['future-date']);
+    expect(
+      validateReceiptOcrResult({ ...result, issueDate: '2026-09-30' }, { now, closedPeriodEnd: '2026-09-30' })
+        .map((v) => v.rule)
+    ).toEqual(['closed-period']);
+  });
+});
+
+// ============================================================================
+// Mock Fixture Tests
+// ============================================================================
+
+describe('MockClaudeAdapter fixtures', () => {
+  const config: AppConfig = { MODE: 'DEV', LOG_LEVEL: 'error' };
+  const image = createMockImage();
+  const hash = imageContentHash(image);
+  const fixtureResult: ReceiptOcrResult = {
+    amountSatang: 8560,
+    currency: 'THB',
+    vatAmountSatang: 560,
+    vendorName: '7-ELEVEN',
+    issueDate: '2026-01-22',
+    confidence: 0.93,
+    fieldEvidence: { vatAmountSatang: { confidence: 0.9, sourceText: 'ภาษี 5.60' } },
+  };
+
+  test('should return the fixture for the image hash with its latency', async () => {
+    const delays: number[] = [];
+    const adapter = new MockClaudeAdapter(config, {
+      fixtures: { [hash]: { latencyMs: 5, result: fixtureResult } },
+      sleep: async (ms) => { delays.push(ms); },
+    });
+
+    const result = await adapter.extractReceiptFromImage({ correlationId: 'fx-1', imageBase64: image });
+    const other = await adapter.extractReceiptFromImage({ correlationId: 'fx-2', imageBase64: 'b3RoZXI=' });
+
+    expect(result.vendorName).toBe('7-ELEVEN');
+    expect(other.amountSatang).toBe(35000); // no fixture: built-in result
+    expect(delays).toEqual([5, 200]);
+  });
+
+  test('should play scripted failures in order, then repeat the last scenario', async () => {
+    const adapter = new MockClaudeAdapter(config, {
+      latencyMs: 0,
+      fixtures: {
+        [hash]: {
+          scenario: ['rate-limited', 'overloaded', 'invalid-json', 'timeout', 'success'],
+          retryAfterMs: 1500,
+          result: fixtureResult,
+        },
+      },
+    });
+    const call = () =>
+      adapter.extractReceiptFromImage({ correlationId: 'fx-seq', imageBase64: image }).catch((e) => e);
+
+    const rateLimited = await call();
+    expect(rateLimited).toBeInstanceOf(RateLimitedError);
+    expect(rateLimited.retryAfterMs).toBe(1500);
+    expect(await call()).toBeInstanceOf(ProviderUnavailableError);
+    expect(await call()).toBeInstanceOf(InvalidResponseError);
+    expect(await call()).toBeInstanceOf(OcrTimeoutError);
+    expect((await call()).amountSatang).toBe(8560);
+    expect((await call()).amountSatang).toBe(8560);
+  });
+
+  test('should force confidence down for low-confidence without touching the fixture', async () => {
+    const adapter = new MockClaudeAdapter(config, {
+      latencyMs: 0,
+      fixtures: { [hash]: { scenario: 'low-confidence', lowConfidence: 0.3, result: fixtureResult } },
+    });
+
+    const result = await adapter.extractReceiptFromImage({ correlationId: 'fx-low', imageBase64: image });
+
+    expect(result.confidence).toBe(0.3);
+    expect(result.fieldEvidence!.vatAmountSatang!.confidence).toBe(0.3);
+    expect(fixtureResult.confidence).toBe(0.93);
+  });
+
+  test('should load <hash>.json from MOCK_FIXTURES_DIR', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'ocr-fixtures-'));
+    await writeFile(join(dir, `${hash}.json`), JSON.stringify({ latencyMs: 0, result: fixtureResult }));
+
+    try {
+      const adapter = new MockClaudeAdapter({ ...config, MOCK_FIXTURES_DIR: dir });
+      const result = await adapter.extractReceiptFromImage({ correlationId: 'fx-file', imageBase64: image });
+      expect(result.vendorName).toBe('7-ELEVEN');
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+// ============================================================================
+// Local API Server Tests
+// ============================================================================
+
+describe('RealClaudeAdapter against the local API server', () => {
+  const server = startMockApiServer();
+  const config: AppConfig = {
+    MODE: 'PROD',
+    CLAUDE_API_KEY: 'sk-test',
+    CLAUDE_BASE_URL: `${server.url}/`,
+    LOG_LEVEL: 'error',
+    RETRY: { baseDelayMs: 1, maxDelayMs: 10 },
+  };
+
+  afterEach(() => server.reset());
+  afterAll(() => server.stop());
+
+  test('should send the Messages request and parse the tool_use reply', async () => {
+    const adapter = new RealClaudeAdapter(config);
+    const result = await adapter.extractReceiptFromImage({ correlationId: 'srv-1', imageBase64: createMockImage() });
+
+    expect(result.amountSatang).toBe(8560);
+    expect(result.issueDate).toBe('2026-01-22');
+    expect(result.usage).toEqual({
+      provider: 'claude',
+      model: 'claude-3-5-sonnet-20241022',
+      inputTokens: 1500,
+      outputTokens: 300,
+    });
+    expect(result.prompt).toEqual({ id: 'record-receipt', version: 2 });
+    expect(server.requests).toHaveLength(1);
+    const [request] = server.requests;
+    expect(request!.path).toBe('/v1/messages');
+    expect(request!.headers['x-api-key']).toBe('sk-test');
+    expect(request!.headers['anthropic-version']).toBe('2023-06-01');
+    expect(request!.body.tool_choice.name).toBe('record_receipt');
+    // createMockImage() is a PNG: the media type comes from the bytes, not the jpeg default
+    expect(request!.body.messages[0].content[1].source.media_type).toBe('image/png');
+  });
+
+  test('should use the configured model, with a per-call override', async () => {
+    const adapter = new RealClaudeAdapter({ ...config, CLAUDE_MODEL: 'claude-3-5-haiku-20241022', CLAUDE_MAX_TOKENS: 2048 });
+
+    const configured = await adapter.extractReceiptFromImage({ correlationId: 'srv-model-1', imageBase64: createMockImage() });
+    const overridden = await adapter.extractReceiptFromImage({
+      correlationId: 'srv-model-2',
+      imageBase64: createMockImage(),
+      model: 'claude-3-opus-20240229',
+    });
+
+    expect(server.requests.map((r) => [r.body.model, r.body.max_tokens])).toEqual([
+      ['claude-3-5-haiku-20241022', 2048],
+      ['claude-3-opus-20240229', 2048],
+    ]);
+    expect(configured.usage?.model).toBe('claude-3-5-haiku-20241022');
+    expect(overridden.usage?.model).toBe('claude-3-opus-20240229');
+  });
+
+  test('should honour retry-after on 429 and then succeed', async () => {
+    server.enqueue('anthropic', {
+      status: 429,
+      headers: { 'retry-after': '0' },
+      body: anthropicErrorBody('rate_limit_error', 'Slow down'),
+    });
+    const adapter = new RealClaudeAdapter(config);
+
+    const result = await adapter.extractReceiptFromImage({ correlationId: 'srv-2', imageBase64: createMockImage() });
+
+    expect(result.vendorName).toBe('7-ELEVEN');
+    expect(server.requests).toHaveLength(2);
+  });
+
+  test('should surface retry-after once retries run out', async () => {
+    const limited = { status: 429, headers: { 'retry-after': '3' }, body: anthropicErrorBody('rate_limit_error', 'Slow down') };
+    server.enqueue('anthropic', limited, limited);
+    const adapter = new RealClaudeAdapter({ ...config, RETRY: { maxAttempts: 2, baseDelayMs: 1, maxDelayMs: 1 } });
+
+    const error = await adapter
+      .extractReceiptFromImage({ correlationId: 'srv-3', imageBase64: createMockImage() })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(RateLimitedError);
+    expect(error.retryAfterMs).toBe(3000);
+  });
+
+  test('should map 401 to AuthFailedError without retrying', async () => {
+    server.enqueue('anthropic', { status: 401, body: anthropicErrorBody('authentication_error', 'invalid x-api-key') });
+    const adapter = new RealClaudeAdapter(config);
+
+    const error = await adapter
+      .extractReceiptFromImage({ correlationId: 'srv-4', imageBase64: createMockImage() })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(AuthFailedError);
+    expect(server.requests).toHaveLength(1);
+  });
+
+  test('should reject a reply without the tool call', async () => {
+    server.enqueue(
+      'anthropic',
+      { body: anthropicToolUseBody(DEFAULT_RECEIPT_INPUT, 'something_else') },
+      { body: '{not json' }
+    );
+    const adapter = new RealClaudeAdapter(config);
+    const call = () =>
+      adapter.extractReceiptFromImage({ correlationId: 'srv-5', imageBase64: createMockImage() }).catch((e) => e);
+
+    expect(await call()).toBeInstanceOf(InvalidResponseError);
+    expect(await call()).toBeInstanceOf(InvalidResponseError);
+  });
+});
+
+// ============================================================================
+// Cassette Tests
+// ============================================================================
+
+describe('RECORD / REPLAY cassettes', () => {
+  const server = startMockApiServer();
+  let dir: string;
+
+  const configFor = (MODE: AppConfig['MODE'], extra: Partial<AppConfig> = {}): AppConfig => ({
+    MODE,
+    CLAUDE_BASE_URL: server.url,
+    CASSETTE_DIR: dir,
+    LOG_LEVEL: 'error',
+    RETRY: { baseDelayMs: 1, maxDelayMs: 10 },
+    ...extra,
+  });
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'ocr-cassettes-'));
+  });
+  afterEach(async () => {
+    server.reset();
+    await rm(dir, { recursive: true, force: true });
+  });
+  afterAll(() => server.stop());
+
+  test('should record with the key redacted and replay offline without a key', async () => {
+    const params = { correlationId: 'cas-1', imageBase64: createMockImage() };
+    const recorded = await createClaudeAdapter(configFor('RECORD', { CLAUDE_API_KEY: 'sk-secret' }))
+      .extractReceiptFromImage(params);
+
+    const [file] = await readdir(join(dir, 'claude'));
+    const text = await readFile(join(dir, 'claude', file!), 'utf8');
+    expect(text).not.toContain('sk-secret');
+    expect(JSON.parse(text).request.headers['x-api-key']).toBe('[REDACTED]');
+
+    const replayed = await createClaudeAdapter(configFor('REPLAY')).extractReceiptFromImage(params);
+
+    expect(replayed).toEqual(recorded);
+    expect(server.requests).toHaveLength(1);
+  });
+
+  test('should not record retryable failures', async () => {
+    server.enqueue('anthropic', { status: 529, body: anthropicErrorBody('overloaded_error', 'Overloaded') });
+
+    await createClaudeAdapter(configFor('RECORD', { CLAUDE_API_KEY: 'sk-secret' }))
+      .extractReceiptFromImage({ correlationId: 'cas-2', imageBase64: createMockImage() });
+
+    expect(server.requests).toHaveLength(2);
+    expect(await readdir(join(dir, 'claude'))).toHaveLength(1);
+  });
+
+  test('should fail a REPLAY miss at once with CassetteMissError', async () => {
+    const error = await createClaudeAdapter(configFor('REPLAY'))
+      .extractReceiptFromImage({ correlationId: 'cas-3', imageBase64: createMockImage() })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(CassetteMissError);
+    expect(error.retryable).toBe(false);
+    expect(server.requests).toHaveLength(0);
+  });
+
+  test("should ignore prompt text when matching on 'input'", () => {
+    const request = (prompt: string, image: string) => ({
+      model: 'claude-sonnet-4-20250514',
+      max_tokens: 1024,
+      system: prompt,
+      messages: [
+        {
+          role: 'user',
+          content: [
+            { type: 'image', source: { type: 'base64', media_type: 'image/png', data: image } },
+            { type: 'text', text: prompt },
+          ],
+        },
+      ],
+    });
+    const url = 'https://api.anthropic.com/v1/messages';
+    const key = (prompt: string, image: string, matchOn: 'request' | 'input') =>
+      cassetteKey('POST', url, request(prompt, image), matchOn);
+
+    expect(key('v1', 'AAA', 'input')).toBe(key('v2', 'AAA', 'input'));
+    expect(key('v1', 'AAA', 'input')).not.toBe(key('v1', 'BBB', 'input'));
+    expect(key('v1', 'AAA', 'request')).not.toBe(key('v2', 'AAA', 'request'));
+    expect(cassetteKey('POST', 'http://localhost:4010/v1/messages', request('v1', 'AAA'))).toBe(
+      key('v1', 'AAA', 'request')
+    );
+  });
+});
+
+// ============================================================================
+// Result Cache Tests
+// ============================================================================
+
+describe('CachedClaudeAdapter', () => {
+  const config: AppConfig = { MODE: 'DEV', LOG_LEVEL: 'error' };
+
+  function countingAdapter(result?: ReceiptOcrResult) {
+    const mock = new MockClaudeAdapter(config, { latencyMs: 0 });
+    const counter = {
+      calls: 0,
+      async extractReceiptFromImage(params: Parameters<MockClaudeAdapter['extractReceiptFromImage']>[0]) {
+        counter.calls++;
+        return result ? structuredClone(result) : mock.extractReceiptFromImage(params);
+      },
+    };
+    return counter;
+  }
+
+  test('should serve a repeated image from the cache, tagged as a hit', async () => {
+    const inner = countingAdapter();
+    const cached = new CachedClaudeAdapter(inner, { store: new MemoryCacheStore() });
+    const params = { correlationId: 'cache-1', imageBase64: createMockImage() };
+
+    const first = await cached.extractReceiptFromImage(params);
+    const second = await cached.extractReceiptFromImage({ ...params, correlationId: 'cache-2' });
+
+    expect(inner.calls).toBe(1);
+    expect(first.cache).toBeUndefined();
+    expect(second.cache?.key).toHaveLength(64);
+    expect(second.amountSatang).toBe(first.amountSatang);
+  });
+
+  test('should key on prompt version and model', async () => {
+    const inner = countingAdapter();
+    const store = new MemoryCacheStore();
+    const params = { correlationId: 'cache-3', imageBase64: createMockImage() };
+
+    await new CachedClaudeAdapter(inner, { store, promptVersion: 'v1' }).extractReceiptFromImage(params);
+    await new CachedClaudeAdapter(inner, { store, promptVersion: 'v2' }).extractReceiptFromImage(params);
+    await new CachedClaudeAdapter(inner, { store, promptVersion: 'v2', model: 'other' }).extractReceiptFromImage(params);
+    await new CachedClaudeAdapter(inner, { store, promptVersion: 'v1' }).extractReceiptFromImage(params);
+    await new CachedClaudeAdapter(inner, { store, promptVersion: 'v1' }).extractReceiptFromImage({ ...params, model: 'other' });
+
+    expect(inner.calls).toBe(4);
+    expect(store.size).toBe(4);
+  });
+
+  test("should key on the wrapped adapter's own prompt and model", async () => {
+    let identity = { promptFingerprint: 'record-receipt@2#aaaa', model: 'claude-3-5-haiku-20241022' };
+    const inner = Object.assign(countingAdapter(), { callIdentity: () => identity });
+    // The decorator's own model option only applies to adapters without callIdentity
+    const cached = new CachedClaudeAdapter(inner, { store: new MemoryCacheStore(), model: 'ignored' });
+    const params = { correlationId: 'cache-identity', imageBase64: createMockImage() };
+
+    await cached.extractReceiptFromImage(params);
+    await cached.extractReceiptFromImage(params);
+    identity = { ...identity, model: 'claude-3-5-sonnet-20241022' };
+    await cached.extractReceiptFromImage(params);
+    identity = { ...identity, promptFingerprint: 'record-receipt@1#bbbb' };
+    await cached.extractReceiptFromImage(params);
+
+    expect(inner.calls).toBe(3);
+
+    const real = createClaudeAdapter({
+      MODE: 'PROD',
+      CLAUDE_API_KEY: 'sk-test',
+      CLAUDE_MODEL: 'claude-3-5-haiku-20241022',
+      PROMPT_VERSIONS: { 'record-receipt': 1 },
+      LOG_LEVEL: 'error',
+    });
+    const realIdentity = real.callIdentity!(params);
+    expect(realIdentity.model).toBe('claude-3-5-haiku-20241022');
+    expect(realIdentity.promptFingerprint).toStartWith('record-receipt@1#');
+  });
+
+  test('should expire entries after the TTL', async () => {
+    const inner = countingAdapter();
+    let now = Date.parse('2026-01-22T00:00:00Z');
+    const cached = new CachedClaudeAdapter(inner, { store: new MemoryCacheStore(), ttlMs: 1000, now: () => now });
+    const params = { correlationId: 'cache-4', imageBase64: createMockImage() };
+
+    await cached.extractReceiptFromImage(params);
+    now += 999;
+    await cached.extractReceiptFromImage(params);
+    now += 1;
+    await cached.extractReceiptFromImage(params);
+
+    expect(inner.calls).toBe(2);
+  });
+
+  test('should not cache results that failed validation', async () => {
+    const inner = countingAdapter({
+      amountSatang: 1000,
+      currency: 'THB',
+      vatAmountSatang: 5000,
+      vendorName: 'Broken',
+      issueDate: '2026-01-22',
+      violations: [{ field: 'vatAmountSatang', rule: 'range', value: 5000, message: 'VAT exceeds total' }],
+    });
+    const cached = new CachedClaudeAdapter(inner, { store: new MemoryCacheStore() });
+    const params = { correlationId: 'cache-5', imageBase64: createMockImage() };
+
+    await cached.extractReceiptFromImage(params);
+    await cached.extractReceiptFromImage(params);
+
+    expect(inner.calls).toBe(2);
+  });
+
+  test('should persist entries in SQLite across instances', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'ocr-cache-'));
+    const path = join(dir, 'cache.sqlite');
+    const params = { correlationId: 'cache-6', imageBase64: createMockImage() };
+
+    try {
+      const writer = new SqliteCacheStore(path);
+      await new CachedClaudeAdapter(countingAdapter(), { store: writer }).extractReceiptFromImage(params);
+      writer.close();
+
+      const reader = new SqliteCacheStore(path);
+      const inner = countingAdapter();
+      const result = await new CachedClaudeAdapter(inner, { store: reader }).extractReceiptFromImage(params);
+
+      expect(inner.calls).toBe(0);
+      expect(result.amountSatang).toBe(35000);
+      expect(result.cache).toBeDefined();
+      expect(reader.purgeExpired(Date.now() + 31 * 24 * 60 * 60 * 1000)).toBe(1);
+      reader.close();
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+// ============================================================================
+// Duplicate Detection Tests
+// ============================================================================
+
+describe('DuplicateDetector', () => {
+  const detector = new DuplicateDetector();
+  const invoice: ReceiptOcrResult = {
+    amountSatang: 107000,
+    currency: 'THB',
+    vatAmountSatang: 7000,
+    vendorName: 'บริษัท ตัวอย่าง จำกัด',
+    issueDate: '2026-01-22',
+    documentType: 'full_tax_invoice',
+    sellerTaxId: '0105551234567',
+    taxInvoiceNumber: 'INV-2026/0042',
+  };
+
+  test('should flag the same tax invoice submitted by two employees', () => {
+    const matches = detector.findDuplicates(
+      { id: 'new', result: { ...invoice, vendorName: 'ตัวอย่าง', taxInvoiceNumber: 'INV 2026 0042' } },
+      [
+        { id: 'old', submittedBy: 'somchai', result: invoice },
+        { id: 'other', result: { ...invoice, amountSatang: 53500, taxInvoiceNumber: null } },
+      ]
+    );
+
+    expect(matches).toHaveLength(1);
+    expect(matches[0]!.id).toBe('old');
+    expect(matches[0]!.submittedBy).toBe('somchai');
+    expect(matches[0]!.score).toBe(1);
+    expect(matches[0]!.reasons.map(r => r.signal)).toEqual(['tax-invoice-number', 'amount', 'date', 'vendor']);
+    expect(matches[0]!.vatAtRiskSatang).toBe(7000);
+  });
+
+  test('should tolerate small amount and date misreads', () => {
+    const [match] = new DuplicateDetector({ toleranceDays: 1 }).findDuplicates(
+      { id: 'new', result: { ...invoice, amountSatang: 106950, issueDate: '2026-01-23', taxInvoiceNumber: null } },
+      [{ id: 'old', result: invoice }]
+    );
+
+    expect(match!.score).toBeGreaterThan(0.6);
+    expect(match!.score).toBeLessThan(1);
+  });
+
+  test('should not flag the same coffee bought on another day', () => {
+    const coffee: ReceiptOcrResult = {
+      amountSatang: 4500,
+      currency: 'THB',
+      vatAmountSatang: 294,
+      vendorName: '7-ELEVEN',
+      issueDate: '2026-01-22',
+      documentType: 'abbreviated_tax_invoice',
+    };
+
+    expect(detector.findDuplicates(
+      { id: 'tue', result: { ...coffee, issueDate: '2026-01-23' } },
+      [{ id: 'mon', result: coffee }]
+    )).toEqual([]);
+  });
+
+  test('should not flag different invoice numbers from the same seller', () => {
+    expect(detector.findDuplicates(
+      { id: 'new', result: { ...invoice, taxInvoiceNumber: 'INV-2026/0043' } },
+      [{ id: 'old', result: invoice }]
+    )).toEqual([]);
+  });
+
+  test('should use a perceptual hash when the date was not read', () => {
+    const rephotographed = { ...invoice, issueDate: null, taxInvoiceNumber: null, documentType: 'receipt' as const };
+    const [match] = detector.findDuplicates(
+      { id: 'new', result: rephotographed, perceptualHash: 'ffd8a0c3e1f00f0f' },
+      [
+        { id: 'old', result: invoice, perceptualHash: 'ffd8a0c3e1f00f0e' },
+        { id: 'far', result: invoice, perceptualHash: '00275f3c1e0ff0f0' },
+      ]
+    );
+
+    expect(match!.id).toBe('old');
+    expect(match!.reasons.map(r => r.signal)).toContain('image');
+    expect(match!.vatAtRiskSatang).toBe(0);
+  });
+
+  test('should only compare receipts of the same client', () => {
+    expect(detector.findDuplicates(
+      { id: 'new', clientId: 'client-a', result: invoice },
+      [{ id: 'old', clientId: 'client-b', result: invoice }]
+    )).toEqual([]);
+  });
+
+  test('should compare hashes and vendor names', () => {
+    expect(hammingDistance('ff00', 'fe01')).toBe(2);
+    expect(vendorSimilarity('7-Eleven', '7-ELEVEN สาขา 12345')).toBe(1);
+    expect(vendorSimilarity('Starbucks', 'Amazon Cafe')).toBeLessThan(0.5);
+  });
+});
+
+// ============================================================================
+// Image Intake Tests
+// ============================================================================
+
+describe('Image intake', () => {
+  const png = Buffer.from(createMockImage(), 'base64');
+
+  async function jpegOf(width: number, height: number): Promise<Uint8Array> {
+    return new Bun.Image(png).resize(width, height).jpeg({ quality: 90 }).bytes();
+  }
+
+  /** Insert an EXIF APP1 segment carrying only the Orientation tag */
+  function withOrientation(jpeg: Uint8Array, orientation: number): Uint8Array {
+    const tiff = [0x4d, 0x4d, 0, 0x2a, 0, 0, 0, 8, 0, 1, 0x01, 0x12, 0, 3, 0, 0, 0, 1, 0, orientation, 0, 0, 0, 0, 0, 0, 0, 0];
+    const payload = [...Buffer.from('Exif\0\0', 'binary'), ...tiff];
+    const length = payload.length + 2;
+    return new Uint8Array([0xff, 0xd8, 0xff, 0xe1, length >> 8, length & 0xff, ...payload, ...jpeg.subarray(2)]);
+  }
+
+  const base64 = (bytes: Uint8Array) => Buffer.from(bytes).toString('base64');
+
+  test('should sniff formats from magic bytes', async () => {
+    const header = (text: string) => new Uint8Array(Buffer.from(text, 'binary'));
+
+    expect(sniffImageFormat(png)).toBe('png');
+    expect(sniffImageFormat(await jpegOf(2, 2))).toBe('jpeg');
+    expect(sniffImageFormat(header('RIFF\0\0\0\0WEBPVP8 '))).toBe('webp');
+    expect(sniffImageFormat(header('\0\0\0\x18ftypheic'))).toBe('heic');
+    expect(sniffImageFormat(header('II*\0'))).toBe('tiff');
+    expect(sniffImageFormat(header('%PDF-1.7'))).toBeNull();
+  });
+
+  test('should pass small, upright images through unchanged', async () => {
+    const image = await prepareReceiptImage(createMockImage());
+
+    expect(image.imageBase64).toBe(createMockImage());
+    expect(image.imageFormat).toBe('png');
+    expect(image.transforms).toEqual([]);
+  });
+
+  test('should downscale to maxEdgePx', async () => {
+    const image = await prepareReceiptImage(base64(await jpegOf(3000, 2000)));
+
+    expect([image.width, image.height]).toEqual([1568, 1045]);
+    expect(image.imageFormat).toBe('jpeg');
+    expect(image.bytes).toBeLessThan(image.sourceBytes);
+    expect(image.transforms).toEqual(['resized 3000x2000 to 1568x1045']);
+  });
+
+  test('should apply EXIF orientation', async () => {
+    const sideways = withOrientation(await jpegOf(40, 20), 6);
+    expect(readExifOrientation(sideways)).toBe(6);
+
+    const image = await prepareReceiptImage(base64(sideways));
+
+    expect([image.width, image.height]).toEqual([20, 40]);
+    expect(image.transforms).toEqual(['applied EXIF orientation 6']);
+  });
+
+  test('should reject bad input with a typed reason', async () => {
+    const reasonFor = (imageBase64: string, options = {}) =>
+      prepareReceiptImage(imageBase64, { correlationId: 'intake', ...options }).catch((e) => e);
+
+    const corrupt = await reasonFor(base64(new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 1, 2, 3, 4, 5, 6])));
+    expect(corrupt).toBeInstanceOf(ImageRejectedError);
+    expect(corrupt.reason).toBe('corrupt');
+    expect(corrupt.retryable).toBe(false);
+    expect(corrupt.correlationId).toBe('intake');
+
+    expect((await reasonFor('')).reason).toBe('empty');
+    expect((await reasonFor(Buffer.from('not an image').toString('base64'))).reason).toBe('unknown-format');
+    expect((await reasonFor(createMockImage(), { maxInputBytes: 10 })).reason).toBe('too-large');
+    expect((await reasonFor(base64(await jpegOf(300, 300)), { maxPixels: 1000 })).reason).toBe('too-many-pixels');
+  });
+
+  test('should reject before the paid call in RealClaudeAdapter', async () => {
+    const server = startMockApiServer();
+    try {
+      const adapter = new RealClaudeAdapter({
+        MODE: 'PROD',
+        CLAUDE_API_KEY: 'sk-test',
+        CLAUDE_BASE_URL: server.url,
+        LOG_LEVEL: 'error',
+      });
+      const error = await adapter
+        .extractReceiptFromImage({ correlationId: 'intake-real', imageBase64: Buffer.from('GIF89a').toString('base64') })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(ImageRejectedError);
+      expect(server.requests).toHaveLength(0);
+    } finally {
+      server.stop();
+    }
+  });
+});
+
+// ============================================================================
+// Pricing Tests
+// ============================================================================
+
+describe('Token pricing', () => {
+  const usage = { provider: 'claude' as const, model: 'claude-3-5-sonnet-20241022', inputTokens: 1500, outputTokens: 300 };
+
+  test('should price usage per million tokens and convert to Baht', () => {
+    const cost = costOfUsage(usage, DEFAULT_PRICING)!;
+
+    // 1500 × $3/M + 300 × $15/M
+    expect(cost.usd).toBeCloseTo(0.009, 10);
+    expect(cost.thb).toBeCloseTo(0.009 * DEFAULT_PRICING.usdToThb, 10);
+  });
+
+  test('should return null for a model without a price', () => {
+    expect(costOfUsage({ ...usage, model: 'claude-unreleased' })).toBeNull();
+  });
+
+  test('should merge price and exchange rate overrides into the defaults', () => {
+    const pricing = resolvePricing({
+      usdToThb: 30,
+      prices: { 'claude-unreleased': { inputUsdPerMTok: 1, outputUsdPerMTok: 2 } },
+    });
+
+    expect(costOfUsage({ ...usage, model: 'claude-unreleased' })).toBeNull();
+    expect(costOfUsage({ ...usage, model: 'claude-unreleased' }, pricing)!.thb).toBeCloseTo(0.063, 10);
+    expect(costOfUsage(usage, pricing)!.thb).toBeCloseTo(0.27, 10);
+  });
+});
+
+// ============================================================================
+// Prompt Registry Tests
+// ============================================================================
+
+describe('Prompt registry', () => {
+  test('should render the highest version with default variables', () => {
+    const prompt = defaultPromptRegistry().render('record-receipt');
+
+    expect(prompt.stamp).toEqual({ id: 'record-receipt', version: 2 });
+    expect(prompt.text).toContain('VAT is typically 7% in Thailand');
+    expect(prompt.text).not.toContain('submitted by');
+    expect(prompt.text).not.toContain('{{');
+  });
+
+  test('should fill variables and keep only sections whose variable is set', () => {
+    const prompt = defaultPromptRegistry().render('receipt-json', {
+      rawText: 'ร้าน {{clientName}} 85.60',
+      clientName: 'บริษัท เอ บี ซี จำกัด',
+      knownVendors: ['7-ELEVEN', 'Makro'],
+      vatRatePercent: undefined,
+    });
+
+    expect(prompt.text).toContain('submitted by บริษัท เอ บี ซี จำกัด.');
+    expect(prompt.text).toContain('same shop): 7-ELEVEN, Makro\n');
+    expect(prompt.text).toContain('VAT is typically 7%');
+    // OCR text is inserted as-is, never expanded
+    expect(prompt.text).toContain('ร้าน {{clientName}} 85.60');
+    expect(prompt.fingerprint).not.toBe(defaultPromptRegistry().render('receipt-json', { rawText: 'x' }).fingerprint);
+    expect(() => defaultPromptRegistry().render('receipt-json')).toThrow('needs variable "rawText"');
+  });
+
+  test('should honour pinned versions', () => {
+    const registry = PromptRegistry.fromDirectory(DEFAULT_PROMPTS_DIR, { pins: { 'record-receipt': 1 } });
+
+    expect(registry.render('record-receipt').stamp.version).toBe(1);
+    expect(registry.render('receipt-json', { rawText: 'x' }).stamp.version).toBe(2);
+    expect(() => new PromptRegistry({ pins: { 'record-receipt': 9 } }).get('record-receipt')).toThrow();
+  });
+
+  test('should prefer a client override loaded from the clients directory', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'ocr-prompts-'));
+    try {
+      await writeFile(join(dir, 'record-receipt.v3.md'), 'Shared prompt\n');
+      await Bun.write(join(dir, 'clients', 'acme', 'record-receipt.v1.md'), 'Prompt for {{clientName}}\n');
+      const registry = PromptRegistry.fromDirectory(dir);
+
+      const acme = registry.render('record-receipt', { clientName: 'ACME' }, 'acme');
+      expect(acme.text).toBe('Prompt for ACME');
+      expect(acme.stamp).toEqual({ id: 'record-receipt', version: 1, clientId: 'acme' });
+      expect(registry.render('record-receipt', {}, 'other').stamp).toEqual({ id: 'record-receipt', version: 3 });
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('should send client variables and stamp the prompt in RealClaudeAdapter', async () => {
+    const server = startMockApiServer();
+    try {
+      const adapter = new RealClaudeAdapter({
+        MODE: 'PROD',
+        CLAUDE_API_KEY: 'sk-test',
+        CLAUDE_BASE_URL: server.url,
+        LOG_LEVEL: 'error',
+        PROMPT_VERSIONS: { 'record-receipt': 1 },
+      });
+      const result = await adapter.extractReceiptFromImage({
+        correlationId: 'prompt-pin',
+        imageBase64: createMockImage(),
+        promptVariables: { clientName: 'ACME' },
+      });
+
+      // v1 has no client section: the variable is accepted and unused
+      expect(result.prompt).toEqual({ id: 'record-receipt', version: 1 });
+      expect(server.requests[0]!.body.messages[0].content[0].text).not.toContain('ACME');
+    } finally {
+      server.stop();
+    }
+  });
+});
+
+// ============================================================================
+// Deadline Tests
+// ============================================================================
+
+describe('Deadlines and cancellation', () => {
+  const context = { correlationId: 'deadline-1', provider: 'claude' as const };
+
+  test('should merge signal and deadline into one signal', () => {
+    expect(callSignal({})).toBeUndefined();
+
+    const expired = callSignal({ deadline: 1000 }, () => 2000)!;
+    expect(expired.aborted).toBe(true);
+    expect(abortedError(expired, context)).toBeInstanceOf(OcrTimeoutError);
+
+    const controller = new AbortController();
+    const merged = callSignal({ signal: controller.signal, deadline: Date.now() + 60_000 })!;
+    controller.abort();
+    const error = abortedError(merged, context);
+    expect(error).toBeInstanceOf(OcrCancelledError);
+    expect(error.retryable).toBe(false);
+    expect(toHttpStatus(error)).toBe(499);
+  });
+
+  test('should stop fetchWithRetry in the middle of a backoff wait', async () => {
+    const controller = new AbortController();
+    let calls = 0;
+    const pending = fetchWithRetry(
+      async () => {
+        calls++;
+        return new Response('{}', { status: 529 });
+      },
+      {
+        correlationId: 'deadline-2',
+        provider: 'claude',
+        signal: controller.signal,
+        sleep: () => new Promise(() => {}), // would wait forever
+      }
+    );
+    setTimeout(() => controller.abort(), 10);
+
+    expect(await pending.catch((e) => e)).toBeInstanceOf(OcrCancelledError);
+    expect(calls).toBe(1);
+  });
+
+  test('should abort a hung Claude request at the deadline', async () => {
+    const server = startMockApiServer();
+    try {
+      server.enqueue('anthropic', { status: 200, body: anthropicToolUseBody(DEFAULT_RECEIPT_INPUT), delayMs: 500 });
+      const adapter = new RealClaudeAdapter({
+        MODE: 'PROD',
+        CLAUDE_API_KEY: 'sk-test',
+        CLAUDE_BASE_URL: server.url,
+        LOG_LEVEL: 'error',
+      });
+
+      const startTime = Date.now();
+      const error = await adapter
+        .extractReceiptFromImage({ correlationId: 'deadline-3', imageBase64: createMockImage(), deadline: Date.now() + 50 })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(OcrTimeoutError);
+      expect(error.provider).toBe('claude');
+      expect(Date.now() - startTime).toBeLessThan(400);
+    } finally {
+      server.stop();
+    }
+  });
+
+  test('should not start a call whose deadline has already passed', async () => {
+    const adapter = new MockClaudeAdapter({ MODE: 'DEV', LOG_LEVEL: 'error' }, { latencyMs: 1000 });
+
+    const error = await adapter
+      .extractReceiptFromImage({ correlationId: 'deadline-4', imageBase64: createMockImage(), deadline: Date.now() - 1 })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(OcrTimeoutError);
+  });
+});
+
+describe('Structured logger', () => {
+  function captureLogger(level: AppConfig['LOG_LEVEL'] = 'debug') {
+    const records: LogRecord[] = [];
+    const logger = createLogger({ MODE: 'PROD', LOG_LEVEL: level }, { sink: (record) => records.push(record) });
+    return { logger, records };
+  }
+
+  test('should redact national IDs, card numbers and phone numbers', () => {
+    expect(redactPii('Buyer ID 1-1017-00203-45-1')).toBe('Buyer ID [REDACTED:national-id]');
+    expect(redactPii('VISA 4111 1111 1111 1111')).toBe('VISA [REDACTED:card]');
+    expect(redactPii('Tel. 081-234-5678 / 02-123-4567')).toBe('Tel. [REDACTED:phone] / [REDACTED:phone]');
+    expect(redactPii('+66 81 234 5678')).toBe('[REDACTED:phone]');
+  });
+
+  test('should keep company tax IDs and numbers that are not card numbers', () => {
+    expect(redactPii('Tax ID 0105536000854')).toBe('Tax ID 0105536000854');
+    expect(redactPii('Ref 4111111111111112')).toBe('Ref 4111111111111112');
+    expect(redactPii('Total 1,234.50 THB')).toBe('Total 1,234.50 THB');
+  });
+
+  test('should bind child fields and redact context before the sink', () => {
+    const { logger, records } = captureLogger();
+    const child = logger.child({ correlationId: 'log-1', clientId: undefined });
+
+    child.info('OCR text', { rawText: 'Buyer 1101700203451', items: [{ note: 'card 5555555555554444' }] });
+
+    expect(records).toHaveLength(1);
+    expect(records[0]).toMatchObject({
+      level: 'info',
+      msg: 'OCR text',
+      correlationId: 'log-1',
+      rawText: 'Buyer [REDACTED:national-id]',
+      items: [{ note: 'card [REDACTED:card]' }],
+    });
+    expect('clientId' in records[0]!).toBe(false);
+  });
+
+  test('should drop lines below LOG_LEVEL', () => {
+    const { logger, records } = captureLogger('warn');
+
+    logger.info('skipped');
+    logger.warn('kept');
+
+    expect(records.map((record) => record.msg)).toEqual(['kept']);
+  });
+
+  test('should log through AppConfig.LOGGER', async () => {
+    const { logger, records } = captureLogger();
+    const adapter = new MockClaudeAdapter({ MODE: 'DEV', LOG_LEVEL: 'debug', LOGGER: logger }, { latencyMs: 0 });
+
+    await adapter.extractReceiptFromImage({ correlationId: 'log-2', imageBase64: createMockImage() });
+
+    expect(records.some((record) => record.correlationId === 'log-2')).toBe(true);
+  });
+});
+
+describe('Tracing', () => {
+  function collectingTracer() {
+    const spans: FinishedSpan[] = [];
+    const tracer = createBatchTracer({ export: (batch) => void spans.push(...batch), batchSize: 1 });
+    return { tracer, spans };
+  }
+
+  test('should link child spans to their parent and record errors', () => {
+    const { tracer, spans } = collectingTracer();
+
+    const root = tracer.startSpan('root', { attributes: { 'ocr.correlation_id': 'trace-1', 'ocr.client_id': undefined } });
+    const child = tracer.startSpan('child', { parent: root.context });
+    child.recordError(new RateLimitedError('Claude API error: 429', { provider: 'claude' }));
+    child.end();
+    child.end();
+    root.end();
+
+    expect(spans.map((span) => span.name)).toEqual(['child', 'root']);
+    const [childSpan, rootSpan] = spans;
+    expect(childSpan!.traceId).toBe(rootSpan!.traceId);
+    expect(childSpan!.parentSpanId).toBe(rootSpan!.spanId);
+    expect(rootSpan!.traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(rootSpan!.attributes).toEqual({ 'ocr.correlation_id': 'trace-1' });
+    expect(childSpan!.status).toEqual({ code: 'error', message: 'Claude API error: 429' });
+    expect(childSpan!.events[0]!.attributes['exception.type']).toBe('RateLimitedError');
+  });
+
+  test('should record nothing with the no-op tracer', () => {
+    const span = NOOP_TRACER.startSpan('noop', { attributes: { a: 1 } });
+    span.setAttributes({ b: 2 });
+    span.end();
+
+    expect(span.context.traceId).toBe('0'.repeat(32));
+  });
+
+  test('should encode spans as OTLP/HTTP JSON', () => {
+    const span: FinishedSpan = {
+      traceId: 'a'.repeat(32),
+      spanId: 'b'.repeat(16),
+      parentSpanId: 'c'.repeat(16),
+      name: 'groq.parseReceiptText',
+      startTimeMs: 1_700_000_000_000,
+      endTimeMs: 1_700_000_000_250,
+      attributes: { 'ocr.provider': 'groq', 'ocr.input_tokens': 412, 'ocr.cost_thb': 0.0036, 'ocr.cached': false },
+      events: [],
+      status: { code: 'ok' },
+    };
+
+    const body = toOtlpJson([span], 'receipt-ocr');
+    const [otlpSpan] = body.resourceSpans[0]!.scopeSpans[0]!.spans;
+
+    expect(body.resourceSpans[0]!.resource.attributes).toEqual([
+      { key: 'service.name', value: { stringValue: 'receipt-ocr' } },
+    ]);
+    expect(otlpSpan).toMatchObject({
+      traceId: 'a'.repeat(32),
+      parentSpanId: 'c'.repeat(16),
+      startTimeUnixNano: '1700000000000000000',
+      endTimeUnixNano: '1700000000250000000',
+      status: { code: 1 },
+    });
+    expect(otlpSpan!.attributes).toEqual([
+      { key: 'ocr.provider', value: { stringValue: 'groq' } },
+      { key: 'ocr.input_tokens', value: { intValue: '412' } },
+      { key: 'ocr.cost_thb', value: { doubleValue: 0.0036 } },
+      { key: 'ocr.cached', value: { boolValue: false } },
+    ]);
+  });
+
+  test('should POST batches to the collector and survive a collector outage', async () => {
+    const requests: { url: string; body: any }[] = [];
+    let status = 200;
+    const tracer = createOtlpTracer({
+      endpoint: 'http://collector:4318/',
+      fetch: async (url, init) => {
+        requests.push({ url, body: JSON.parse(String(init!.body)) });
+        return new Response(null, { status });
+      },
+      logger: createLogger({ MODE: 'PROD', LOG_LEVEL: 'error' }),
+    });
+
+    tracer.startSpan('first').end();
+    tracer.startSpan('second').end();
+    await tracer.flush();
+    await tracer.flush();
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0]!.url).toBe('http://collector:4318/v1/traces');
+    expect(requests[0]!.body.resourceSpans[0].scopeSpans[0].spans).toHaveLength(2);
+
+    status = 503;
+    tracer.startSpan('third').end();
+    await tracer.flush(); // logged, not thrown
+    expect(requests).toHaveLength(2);
+  });
+
+  test('should trace a RealClaudeAdapter call under the caller\'s span', async () => {
+    const server = startMockApiServer();
+    try {
+      const { tracer, spans } = collectingTracer();
+      const adapter = new RealClaudeAdapter({
+        MODE: 'PROD',
+        CLAUDE_API_KEY: 'sk-test',
+        CLAUDE_BASE_URL: server.url,
+        LOG_LEVEL: 'error',
+        TRACER: tracer,
+      });
+      const parent = tracer.startSpan('request');
+
+      await adapter.extractReceiptFromImage({
+        correlationId: 'trace-2',
+        imageBase64: createMockImage(),
+        traceParent: parent.context,
+      });
+
+      const [span] = spans;
+      expect(span!.name).toBe('claude.extractReceiptFromImage');
+      expect(span!.parentSpanId).toBe(parent.context.spanId);
+      expect(span!.attributes).toMatchObject({
+        'ocr.correlation_id': 'trace-2',
+        'ocr.provider': 'claude',
+        'ocr.model': 'claude-3-5-sonnet-20241022',
+        'ocr.input_tokens': 1500,
+        'ocr.output_tokens': 300,
+        'ocr.outcome': 'success',
+      });
+      expect(span!.attributes['ocr.cost_usd']).toBeCloseTo(0.009, 6);
+    } finally {
+      server.stop();
+    }
+  });
+});
+
+describe('Prometheus metrics', () => {
+  test('should render counters and gauges in the text exposition format', () => {
+    const registry = new MetricsRegistry();
+    const receipts = registry.counter({ name: 'ocr_receipts_total', help: 'Receipts', labelNames: ['provider'] });
+    let state = 2;
+    registry.gauge({
+      name: 'ocr_circuit_breaker_state',
+      help: 'Breaker state',
+      labelNames: ['provider'],
+      collect: (gauge) => gauge.set({ provider: 'groq' }, state),
+    });
+
+    receipts.inc({ provider: 'groq' });
+    receipts.inc({ provider: 'groq' }, 2);
+    receipts.inc({ provider: 'say "hi"\n' });
+
+    expect(registry.render()).toBe(
+      [
+        '# HELP ocr_receipts_total Receipts',
+        '# TYPE ocr_receipts_total counter',
+        'ocr_receipts_total{provider="groq"} 3',
+        'ocr_receipts_total{provider="say \\"hi\\"\\n"} 1',
+        '# HELP ocr_circuit_breaker_state Breaker state',
+        '# TYPE ocr_circuit_breaker_state gauge',
+        'ocr_circuit_breaker_state{provider="groq"} 2',
+        '',
+      ].join('\n')
+    );
+
+    state = 0;
+    expect(registry.render()).toContain('ocr_circuit_breaker_state{provider="groq"} 0');
+  });
+
+  test('should render cumulative histogram buckets, sum and count', () => {
+    const registry = new MetricsRegistry();
+    const latency = registry.histogram({ name: 'latency_seconds', help: 'Latency', buckets: [0.1, 1] });
+
+    latency.observe({}, 0.05);
+    latency.observe({}, 0.5);
+    latency.observe({}, 3);
+
+    expect(registry.render().split('\n').slice(2, 7)).toEqual([
+      'latency_seconds_bucket{le="0.1"} 1',
+      'latency_seconds_bucket{le="1"} 2',
+      'latency_seconds_bucket{le="+Inf"} 3',
+      'latency_seconds_sum 3.55',
+      'latency_seconds_count 3',
+    ]);
+  });
+
+  test('should return the registered metric for a repeated name and reject mismatches', () => {
+    const registry = new MetricsRegistry();
+    const first = registry.counter({ name: 'ocr_total', help: 'x', labelNames: ['provider'] });
+
+    expect(registry.counter({ name: 'ocr_total', help: 'x', labelNames: ['provider'] })).toBe(first);
+    expect(() => registry.gauge({ name: 'ocr_total', help: 'x' })).toThrow('already registered as a counter');
+    expect(() => first.inc({ client: 'acme' })).toThrow('Unknown label client');
+    expect(() => first.inc({}, -1)).toThrow('cannot decrease');
+    expect(() => registry.counter({ name: 'ocr-total', help: 'x' })).toThrow('Invalid metric name');
+  });
+
+  test('should serve the registry from a /metrics handler', async () => {
+    const registry = new MetricsRegistry();
+    registry.counter({ name: 'ocr_receipts_total', help: 'Receipts' }).inc();
+    const handler = metricsHandler(registry);
+
+    const response = handler(new Request('http://localhost/metrics'));
+    expect(response.headers.get('content-type')).toBe(PROMETHEUS_CONTENT_TYPE);
+    expect(await response.text()).toContain('ocr_receipts_total 1');
+
+    expect(handler(new Request('http://localhost/metrics', { method: 'POST' })).status).toBe(405);
+  });
+});
@@ -0,0 +1,284 @@
+/**
+ * Thai Date Normalisation
+ *
+ * Deterministic parsing of the dates printed on Thai receipts, instead of
+ * trusting the model to "subtract 543":
+ *
+ * - Numeric dates: 22/01/2569, 22-01-69, 2569-01-22 (DD/MM first, MM/DD detected)
+ * - Thai month names and abbreviations: 22 มกราคม 2569, 22 ม.ค. 69
+ * - English month abbreviations: 22 Jan 2026, 22-JAN-26
+ * - Thai digits (๒๒/๐๑/๒๕๖๙)
+ * - Buddhist Era (BE = CE + 543) vs Christian Era, including two-digit years
+ * - Times: 14:35, 14.35 น.
+ *
+ * normalizeIssueDate runs on rawText and the model's issueDate and lets the
+ * printed text win when they disagree.
+ */
+
+import type { DateNormalization, ReceiptOcrResult } from './types';
+
+/** BE year = CE year + 543 */
+export const BUDDHIST_ERA_OFFSET = 543;
+
+/** Thailand is UTC+7 all year (no daylight saving) */
+const BANGKOK_OFFSET_MS = 7 * 60 * 60 * 1000;
+
+/** Four-digit years from here on are Buddhist Era (CE 1857 is not a receipt) */
+const MIN_BE_YEAR = 2400;
+
+/**
+ * Thai month names, each with its abbreviation split into letter groups
+ * (ม.ค. is also printed as มค or ม. ค.)
+ */
+const THAI_MONTHS: ReadonlyArray<{ name: string; abbreviation: string[] }> = [
+  { name: 'มกราคม', abbreviation: ['ม', 'ค'] },
+  { name: 'กุมภาพันธ์', abbreviation: ['ก', 'พ'] },
+  { name: 'มีนาคม', abbreviation: ['มี', 'ค'] },
+  { name: 'เมษายน', abbreviation: ['เม', 'ย'] },
+  { name: 'พฤษภาคม', abbreviation: ['พ', 'ค'] },
+  { name: 'มิถุนายน', abbreviation: ['มิ', 'ย'] },
+  { name: 'กรกฎาคม', abbreviation: ['ก', 'ค'] },
+  { name: 'สิงหาคม', abbreviation: ['ส', 'ค'] },
+  { name: 'กันยายน', abbreviation: ['ก', 'ย'] },
+  { name: 'ตุลาคม', abbreviation: ['ต', 'ค'] },
+  { name: 'พฤศจิกายน', abbreviation: ['พ', 'ย'] },
+  { name: 'ธันวาคม', abbreviation: ['ธ', 'ค'] },
+];
+
+const ENGLISH_MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/** Labels that mark the issue date (as opposed to e.g. a due date) */
+const DATE_LABEL = /(วันที่|ลงวันที่|date)\s*:?\s*$/i;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ParsedThaiDate {
+  /** YYYY-MM-DD in Christian Era */
+  isoDate: string;
+
+  /** Era the year was printed in */
+  era: 'BE' | 'CE';
+
+  /** The text that was parsed, e.g. "22/01/2569" */
+  source: string;
+}
+
+export interface ThaiDateOptions {
+  /** Reference time for two-digit years and "today" (default: now) */
+  now?: Date;
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Find the issue date in receipt text
+ *
+ * A date labelled วันที่ / Date wins; otherwise the first date found.
+ *
+ * @returns null if the text contains no parseable date
+ */
+export function parseThaiDate(text: string, options: ThaiDateOptions = {}): ParsedThaiDate | null {
+  const now = options.now ?? new Date();
+  const normalized = toArabicDigits(text);
+
+  const candidates: Array<ParsedThaiDate & { index: number; labelled: boolean }> = [];
+  for (const { pattern, build } of DATE_PATTERNS) {
+    for (const match of normalized.matchAll(pattern)) {
+      const parsed = build(match, now);
+      if (!parsed) continue;
+
+      const lineStart = normalized.lastIndexOf('\n', match.index) + 1;
+      candidates.push({
+        ...parsed,
+        index: match.index!,
+        labelled: DATE_LABEL.test(normalized.slice(lineStart, match.index)),
+      });
+    }
+  }
+
+  if (candidates.length === 0) return null;
+
+  candidates.sort((a, b) => Number(b.labelled) - Number(a.labelled) || a.index - b.index);
+  const { isoDate, era, source } = candidates[0]!;
+  return { isoDate, era, source };
+}
+
+/**
+ * Find the time of day in receipt text ("14:35", "เวลา 14.35 น.")
+ *
+ * @returns HH:MM, or null if no valid time is printed
+ */
+export function parseThaiTime(text: string): string | null {
+  const normalized = toArabicDigits(text);
+  const pattern = /(?<![\d/.:-])(\d{1,2})(?::(\d{2})(?::\d{2})?|\.(\d{2})\s*น\.)(?![\d/])/g;
+
+  for (const match of normalized.matchAll(pattern)) {
+    const hours = Number(match[1]);
+    const minutes = Number(match[2] ?? match[3]);
+    if (hours <= 23 && minutes <= 59) {
+      return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Normalise result.issueDate (and fill issueTime) in place
+ *
+ * - A date printed in the OCR text overrides the model's issueDate
+ * - Otherwise the model's issueDate is re-parsed (fixes "22/01/2569" and BE years)
+ * - The decision is recorded in result.dateNormalization
+ *
+ * @param options.rawText - OCR text to read (default: result.rawText)
+ */
+export function normalizeIssueDate(
+  result: ReceiptOcrResult,
+  options: ThaiDateOptions & { rawText?: string } = {}
+): ReceiptOcrResult {
+  const rawText = options.rawText ?? result.rawText ?? '';
+  const llmDate = result.issueDate;
+
+  const fromText = parseThaiDate(rawText, options);
+  const fromLlm = llmDate === null ? null : parseThaiDate(llmDate, options);
+  const chosen = fromText ?? fromLlm;
+
+  const normalization: DateNormalization = {
+    llmDate,
+    textDate: fromText?.isoDate ?? null,
+    source: fromText ? 'raw-text' : fromLlm ? 'llm' : 'none',
+    era: chosen?.era ?? null,
+    overridden: chosen !== null && chosen.isoDate !== llmDate,
+  };
+
+  if (chosen) {
+    result.issueDate = chosen.isoDate;
+  }
+  if (result.issueTime == null) {
+    result.issueTime = parseThaiTime(rawText);
+  }
+  result.dateNormalization = normalization;
+
+  return result;
+}
+
+/**
+ * Today's date in Bangkok as YYYY-MM-DD
+ */
+export function bangkokToday(now: Date = new Date()): string {
+  return new Date(now.getTime() + BANGKOK_OFFSET_MS).toISOString().slice(0, 10);
+}
+
+// ============================================================================
+// Patterns
+// ============================================================================
+
+interface DatePattern {
+  pattern: RegExp;
+  build: (match: RegExpMatchArray, now: Date) => ParsedThaiDate | null;
+}
+
+const THAI_MONTH_PATTERN = THAI_MONTHS.map(
+  (m) => `${m.name}|${m.abbreviation.map(escapeRegExp).join('\\.?\\s?')}\\.?`
+).join('|');
+
+const DATE_PATTERNS: DatePattern[] = [
+  // 2569-01-22 / 2026-01-22
+  {
+    pattern: /(?<!\d)(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?!\d)/g,
+    build: (m, now) => buildDate(m[0], m[1]!, Number(m[2]), Number(m[3]), now),
+  },
+  // 22/01/2569, 22-01-69, 01/22/2026 (swapped)
+  {
+    pattern: /(?<![\d.])(\d{1,2})[-/.](\d{1,2})[-/.](\d{4}|\d{2})(?![\d.])/g,
+    build: (m, now) => {
+      let day = Number(m[1]);
+      let month = Number(m[2]);
+      if (month > 12 && day <= 12) [day, month] = [month, day];
+      return buildDate(m[0], m[3]!, month, day, now);
+    },
+  },
+  // 22 มกราคม 2569, 22 ม.ค. 69
+  {
+    pattern: new RegExp(`(?<!\\d)(\\d{1,2})\\s*(${THAI_MONTH_PATTERN})\\s*(\\d{4}|\\d{2})(?!\\d)`, 'g'),
+    build: (m, now) => {
+      const month = thaiMonthNumber(m[2]!);
+      return month ? buildDate(m[0], m[3]!, month, Number(m[1]), now) : null;
+    },
+  },
+  // 22 Jan 2026, 22-JAN-26
+  {
+    pattern: /(?<!\d)(\d{1,2})[\s-]*(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?[\s-]*(\d{4}|\d{2})(?!\d)/gi,
+    build: (m, now) =>
+      buildDate(m[0], m[3]!, ENGLISH_MONTHS.indexOf(m[2]!.toLowerCase()) + 1, Number(m[1]), now),
+  },
+];
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function buildDate(
+  source: string,
+  rawYear: string,
+  month: number,
+  day: number,
+  now: Date
+): ParsedThaiDate | null {
+  const { year, era } = resolveYear(rawYear, now);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+
+  return { isoDate: date.toISOString().slice(0, 10), era, source };
+}
+
+/**
+ * Resolve a printed year to CE
+ *
+ * Four digits: ≥ 2400 is BE. Two digits are ambiguous ("69" = BE 2569 or
+ * CE 2069; "26" = CE 2026 or BE 2526): take the reading closest to `now`
+ * that is not in the future.
+ */
+function resolveYear(raw: string, now: Date): { year: number; era: 'BE' | 'CE' } {
+  const value = Number(raw);
+
+  if (raw.length === 4) {
+    return value >= MIN_BE_YEAR
+      ? { year: value - BUDDHIST_ERA_OFFSET, era: 'BE' }
+      : { year: value, era: 'CE' };
+  }
+
+  const currentYear = Number(bangkokToday(now).slice(0, 4));
+  const readings = [
+    { year: 2500 + value - BUDDHIST_ERA_OFFSET, era: 'BE' as const },
+    { year: 2000 + value, era: 'CE' as const },
+  ];
+  const past = readings.filter((r) => r.year <= currentYear);
+
+  return past.length > 0
+    ? past.reduce((best, r) => (r.year > best.year ? r : best))
+    : readings.reduce((best, r) => (r.year < best.year ? r : best));
+}
+
+function thaiMonthNumber(text: string): number | null {
+  const letters = text.replace(/[.\s]/g, '');
+  const index = THAI_MONTHS.findIndex(
+    (m) => m.name === letters || m.abbreviation.join('') === letters
+  );
+  return index === -1 ? null : index + 1;
+}
+
+/**
+ * ๐-๙ → 0-9
+ */
+function toArabicDigits(text: string): string {
+  return text.replace(/[๐-๙]/g, (d) => String(d.charCodeAt(0) - 0x0e50));
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
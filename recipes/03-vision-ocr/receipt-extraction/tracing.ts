@@ -0,0 +1,344 @@
+/**
+ * Tracing
+ *
+ * Spans show where the time in a hybrid request goes:
+ *
+ *   hybrid.extractReceipt                 correlationId, client, final provider and model, outcome
+ *   ├── detector.classify                 simple / complex, confidence
+ *   ├── groq.parseReceiptText             model, tokens, list-price cost, outcome
+ *   ├── hybrid.attempt                    provider, model, tokens, cost (strategy pricing), accepted / rejected
+ *   ├── claude.extractReceiptFromImage    model, tokens, list-price cost, outcome (fallback)
+ *   └── hybrid.attempt                    ...
+ *
+ * Every instrumented class takes a Tracer (AppConfig.TRACER,
+ * GroqConfig.tracer, HybridStrategyConfig.tracer); the default is
+ * NOOP_TRACER, which records nothing. Child spans find their parent through
+ * the `traceParent` the caller passes down (ExtractReceiptParams,
+ * GroqParseOptions) - the same way signal and deadline travel.
+ *
+ * createOtlpTracer() batches finished spans and POSTs them as OTLP/HTTP
+ * JSON to a collector (Jaeger, Tempo, otel-collector):
+ *
+ *   const tracer = createOtlpTracer({ endpoint: 'http://localhost:4318', serviceName: 'receipt-ocr' });
+ *   const strategy = new HybridOcrStrategy(claude, groq, { tracer });
+ *   ...
+ *   await tracer.flush(); // before exit
+ *
+ * Export failures are logged and the spans dropped: tracing never fails a receipt.
+ */
+
+import { costOfUsage } from './pricing';
+import { createLogger } from './logger';
+import type { Logger } from './logger';
+import type { TokenUsage } from './types';
+import type { FetchLike } from './cassette';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SpanAttributeValue = string | number | boolean;
+
+/** Undefined values are dropped */
+export type SpanAttributes = Record<string, SpanAttributeValue | undefined>;
+
+/** Identifies a span across calls (W3C trace-context sizes: 16 and 8 bytes, hex) */
+export interface SpanContext {
+  traceId: string;
+  spanId: string;
+}
+
+export interface SpanOptions {
+  /** Unset = a new trace */
+  parent?: SpanContext;
+  attributes?: SpanAttributes;
+
+  /** Epoch ms, for work that is recorded after it finished (default: now) */
+  startTimeMs?: number;
+}
+
+export interface Span {
+  readonly context: SpanContext;
+  setAttributes(attributes: SpanAttributes): void;
+  addEvent(name: string, attributes?: SpanAttributes): void;
+
+  /** Mark the span failed and attach the error as an 'exception' event */
+  recordError(error: unknown): void;
+
+  /** Idempotent */
+  end(): void;
+}
+
+export interface Tracer {
+  startSpan(name: string, options?: SpanOptions): Span;
+}
+
+export interface SpanEvent {
+  name: string;
+  timeMs: number;
+  attributes: Record<string, SpanAttributeValue>;
+}
+
+/** A span as handed to the exporter */
+export interface FinishedSpan extends SpanContext {
+  parentSpanId?: string;
+  name: string;
+  startTimeMs: number;
+  endTimeMs: number;
+  attributes: Record<string, SpanAttributeValue>;
+  events: SpanEvent[];
+  status: { code: 'ok' | 'error'; message?: string };
+}
+
+export type SpanExporter = (spans: FinishedSpan[]) => Promise<void> | void;
+
+export interface BatchTracerOptions {
+  export: SpanExporter;
+
+  /** Finished spans buffered before an automatic export (default: 64) */
+  batchSize?: number;
+
+  /** Default: JSON logger at 'warn' */
+  logger?: Logger;
+}
+
+/** Tracer that buffers finished spans; flush() exports what is buffered */
+export interface BatchTracer extends Tracer {
+  flush(): Promise<void>;
+}
+
+export interface OtlpExporterOptions {
+  /** Collector root (default: http://localhost:4318); spans go to <endpoint>/v1/traces */
+  endpoint?: string;
+
+  /** resource service.name (default: 'receipt-ocr') */
+  serviceName?: string;
+
+  /** e.g. an auth header for a hosted collector */
+  headers?: Record<string, string>;
+
+  fetch?: FetchLike;
+}
+
+export const DEFAULT_OTLP_ENDPOINT = 'http://localhost:4318';
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+const NOOP_SPAN: Span = {
+  context: { traceId: '0'.repeat(32), spanId: '0'.repeat(16) },
+  setAttributes: () => {},
+  addEvent: () => {},
+  recordError: () => {},
+  end: () => {},
+};
+
+/** Records nothing (the default everywhere) */
+export const NOOP_TRACER: Tracer = {
+  startSpan: () => NOOP_SPAN,
+};
+
+/**
+ * Tracer that hands finished spans to `export` in batches
+ */
+export function createBatchTracer(options: BatchTracerOptions): BatchTracer {
+  const batchSize = options.batchSize ?? 64;
+  const logger = options.logger ?? createLogger({ MODE: 'PROD', LOG_LEVEL: 'warn' });
+  let buffer: FinishedSpan[] = [];
+
+  async function flush(): Promise<void> {
+    if (buffer.length === 0) return;
+    const spans = buffer;
+    buffer = [];
+    try {
+      await options.export(spans);
+    } catch (error) {
+      logger.warn('Span export failed', {
+        spans: spans.length,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  function onEnd(span: FinishedSpan): void {
+    buffer.push(span);
+    if (buffer.length >= batchSize) void flush();
+  }
+
+  return {
+    startSpan: (name, spanOptions = {}) => startRecordingSpan(name, spanOptions, onEnd),
+    flush,
+  };
+}
+
+/**
+ * Exporter that POSTs spans to an OTLP/HTTP collector as JSON
+ */
+export function otlpExporter(options: OtlpExporterOptions = {}): SpanExporter {
+  const url = `${(options.endpoint ?? DEFAULT_OTLP_ENDPOINT).replace(/\/+$/, '')}/v1/traces`;
+  const serviceName = options.serviceName ?? 'receipt-ocr';
+  const send: FetchLike = options.fetch ?? ((input, init) => fetch(input, init));
+
+  return async (spans) => {
+    const response = await send(url, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', ...options.headers },
+      body: JSON.stringify(toOtlpJson(spans, serviceName)),
+    });
+    if (!response.ok) {
+      throw new Error(`OTLP collector answered ${response.status}`);
+    }
+  };
+}
+
+/**
+ * Batch tracer exporting to an OTLP/HTTP collector
+ */
+export function createOtlpTracer(
+  options: OtlpExporterOptions & Omit<BatchTracerOptions, 'export'> = {}
+): BatchTracer {
+  return createBatchTracer({ ...options, export: otlpExporter(options) });
+}
+
+/**
+ * OTLP/HTTP JSON body (ExportTraceServiceRequest) for finished spans
+ */
+export function toOtlpJson(spans: FinishedSpan[], serviceName: string) {
+  return {
+    resourceSpans: [
+      {
+        resource: { attributes: otlpAttributes({ 'service.name': serviceName }) },
+        scopeSpans: [
+          {
+            scope: { name: 'receipt-ocr' },
+            spans: spans.map((span) => ({
+              traceId: span.traceId,
+              spanId: span.spanId,
+              ...(span.parentSpanId ? { parentSpanId: span.parentSpanId } : {}),
+              name: span.name,
+              kind: 1, // SPAN_KIND_INTERNAL
+              startTimeUnixNano: toUnixNano(span.startTimeMs),
+              endTimeUnixNano: toUnixNano(span.endTimeMs),
+              attributes: otlpAttributes(span.attributes),
+              events: span.events.map((event) => ({
+                name: event.name,
+                timeUnixNano: toUnixNano(event.timeMs),
+                attributes: otlpAttributes(event.attributes),
+              })),
+              status:
+                span.status.code === 'ok'
+                  ? { code: 1 }
+                  : { code: 2, ...(span.status.message ? { message: span.status.message } : {}) },
+            })),
+          },
+        ],
+      },
+    ],
+  };
+}
+
+/**
+ * Span attributes for a provider result: tokens and list-price cost
+ *
+ * Cost uses DEFAULT_PRICING; HybridOcrStrategy records the cost under
+ * its own pricing config on the receipt span.
+ */
+export function usageAttributes(usage: TokenUsage | undefined): SpanAttributes {
+  if (!usage) return {};
+  const cost = costOfUsage(usage);
+  return {
+    'ocr.response_model': usage.model,
+    'ocr.input_tokens': usage.inputTokens,
+    'ocr.output_tokens': usage.outputTokens,
+    'ocr.cost_usd': cost?.usd,
+    'ocr.cost_thb': cost?.thb,
+  };
+}
+
+/**
+ * `ocr.outcome` for a failure: the OcrError subclass name
+ */
+export function errorOutcome(error: unknown): string {
+  return error instanceof Error ? error.name : 'Error';
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function startRecordingSpan(name: string, options: SpanOptions, onEnd: (span: FinishedSpan) => void): Span {
+  const context: SpanContext = {
+    traceId: options.parent?.traceId ?? randomHex(16),
+    spanId: randomHex(8),
+  };
+  const startTimeMs = options.startTimeMs ?? Date.now();
+  const attributes: Record<string, SpanAttributeValue> = {};
+  const events: SpanEvent[] = [];
+  let status: FinishedSpan['status'] = { code: 'ok' };
+  let ended = false;
+
+  const setAttributes = (more: SpanAttributes): void => {
+    Object.assign(attributes, definedOnly(more));
+  };
+  setAttributes(options.attributes ?? {});
+
+  return {
+    context,
+    setAttributes,
+    addEvent: (eventName, eventAttributes = {}) => {
+      events.push({ name: eventName, timeMs: Date.now(), attributes: definedOnly(eventAttributes) });
+    },
+    recordError: (error) => {
+      const message = error instanceof Error ? error.message : String(error);
+      status = { code: 'error', message };
+      events.push({
+        name: 'exception',
+        timeMs: Date.now(),
+        attributes: { 'exception.type': errorOutcome(error), 'exception.message': message },
+      });
+    },
+    end: () => {
+      if (ended) return;
+      ended = true;
+      onEnd({
+        ...context,
+        parentSpanId: options.parent?.spanId,
+        name,
+        startTimeMs,
+        endTimeMs: Date.now(),
+        attributes,
+        events,
+        status,
+      });
+    },
+  };
+}
+
+function definedOnly(attributes: SpanAttributes): Record<string, SpanAttributeValue> {
+  return Object.fromEntries(
+    Object.entries(attributes).filter((entry): entry is [string, SpanAttributeValue] => entry[1] !== undefined)
+  );
+}
+
+function otlpAttributes(attributes: Record<string, SpanAttributeValue>) {
+  return Object.entries(attributes).map(([key, value]) => ({
+    key,
+    value:
+      typeof value === 'string'
+        ? { stringValue: value }
+        : typeof value === 'boolean'
+          ? { boolValue: value }
+          : Number.isInteger(value)
+            ? { intValue: String(value) }
+            : { doubleValue: value },
+  }));
+}
+
+function toUnixNano(ms: number): string {
+  return (BigInt(Math.round(ms)) * 1_000_000n).toString();
+}
+
+function randomHex(bytes: number): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(bytes)), (b) => b.toString(16).padStart(2, '0')).join('');
+}
@@ -4,13 +4,61 @@
  * These types ensure type safety across DEV and PROD modes.
  */
 
+import type { RetryPolicy } from './retry';
+import type { CassetteOptions } from './cassette';
+import type { ImageIntakeOptions } from './imageIntake';
+import type { OcrProvider } from './errors';
+import type { PromptVariables } from './promptRegistry';
+import type { Logger } from './logger';
+import type { SpanContext, Tracer } from './tracing';
+
 /**
  * Configuration for the Claude adapter
  */
 export interface AppConfig {
-  MODE: 'DEV' | 'PROD';
+  /** RECORD/REPLAY: real adapter through cassettes (see cassette.ts) */
+  MODE: 'DEV' | 'PROD' | 'RECORD' | 'REPLAY';
   CLAUDE_API_KEY?: string;
   LOG_LEVEL: 'debug' | 'info' | 'warn' | 'error';
+  
+  /** Logger for the adapter (default: createLogger(config) - JSON on stdout, PII redacted) */
+  LOGGER?: Logger;
+  
+  /** Tracer for RealClaudeAdapter calls (default: NOOP_TRACER, see tracing.ts) */
+  TRACER?: Tracer;
+  
+  /** Anthropic API origin (default: https://api.anthropic.com) - point at a proxy or mockApiServer */
+  CLAUDE_BASE_URL?: string;
+  
+  /** Model for extraction (default: DEFAULT_CLAUDE_MODEL); a call can override it with params.model */
+  CLAUDE_MODEL?: string;
+  
+  /** Output token cap per call (default: 1024) */
+  CLAUDE_MAX_TOKENS?: number;
+  
+  /** Cassette root for RECORD/REPLAY (default: DEFAULT_CASSETTE_DIR) */
+  CASSETTE_DIR?: string;
+  
+  /** Cassette key: whole request (default) or receipt input only */
+  CASSETTE_MATCH_ON?: CassetteOptions['matchOn'];
+  
+  /** Prompt templates directory (default: DEFAULT_PROMPTS_DIR, see promptRegistry.ts) */
+  PROMPTS_DIR?: string;
+  
+  /** Template version per prompt id, e.g. { 'record-receipt': 1 } (default: highest) */
+  PROMPT_VERSIONS?: Record<string, number>;
+  
+  /** Image intake limits for PROD calls (defaults: DEFAULT_IMAGE_INTAKE_OPTIONS) */
+  IMAGE_INTAKE?: Partial<ImageIntakeOptions>;
+  
+  /** Retry policy for Claude API calls (defaults: DEFAULT_RETRY_POLICY) */
+  RETRY?: Partial<RetryPolicy>;
+  
+  /** DEV mode: directory of <sha256>.json mock fixtures (see mockFixtures.ts) */
+  MOCK_FIXTURES_DIR?: string;
+  
+  /** DEV mode: simulated latency when a fixture does not set one (default: 200) */
+  MOCK_LATENCY_MS?: number;
 }
 
 /**
@@ -20,29 +68,175 @@ export interface AppConfig {
  * to avoid floating-point precision issues.
  */
 export interface ReceiptOcrResult {
-  /** Total amount in Satang (integer) */
+  /** Total amount in Satang (integer, negative for credit notes) */
   amountSatang: number;
   
   /** Currency code (always THB for Thai receipts) */
   currency: 'THB';
   
-  /** VAT amount in Satang, null if not present */
+  /** VAT amount in Satang, null if not present (negative for credit notes) */
   vatAmountSatang: number | null;
   
+  /** Subtotal before VAT as printed (รวม / Subtotal), same sign as the total */
+  subtotalSatang?: number | null;
+  
+  /** Service charge in Satang (ค่าบริการ), positive */
+  serviceChargeSatang?: number | null;
+  
+  /** Discount in Satang (ส่วนลด), positive */
+  discountSatang?: number | null;
+  
   /** Merchant/vendor name */
   vendorName: string | null;
   
-  /** Issue date in ISO 8601 format (YYYY-MM-DD) */
+  /** Issue date in ISO 8601 format (YYYY-MM-DD), Christian Era */
   issueDate: string | null;
   
+  /** Time printed on the receipt (HH:MM), if any */
+  issueTime?: string | null;
+  
+  /** How issueDate was derived (see normalizeIssueDate) */
+  dateNormalization?: DateNormalization;
+  
+  /** Kind of document, as classified by the provider */
+  documentType?: DocumentType;
+  
+  /** Seller's 13-digit tax ID (เลขประจำตัวผู้เสียภาษี), digits only */
+  sellerTaxId?: string | null;
+  
+  /** Seller branch: '00000' = head office (สำนักงานใหญ่), else 5-digit branch no. (สาขา) */
+  sellerBranch?: string | null;
+  
+  /** Tax invoice number (เลขที่ใบกำกับภาษี) */
+  taxInvoiceNumber?: string | null;
+  
+  /** Buyer name as printed on the invoice */
+  buyerName?: string | null;
+  
+  /** Buyer's 13-digit tax ID, digits only */
+  buyerTaxId?: string | null;
+  
+  /** Whether the document qualifies for an input VAT claim (see assessFullTaxInvoice) */
+  taxInvoiceCheck?: TaxInvoiceCheck;
+  
   /** Raw OCR text (for debugging) */
   rawText?: string;
   
-  /** OCR confidence score (0.0 - 1.0) */
+  /** OCR confidence score (0.0 - 1.0) - overall; see fieldEvidence for per-field scores */
   confidence?: number;
   
+  /** Per-field confidence and where each critical field was read from */
+  fieldEvidence?: ReceiptFieldEvidence;
+  
   /** Line items (optional, if extracted) */
   lineItems?: ReceiptLineItem[];
+  
+  /** Schema violations found by validateReceiptOcrResult (empty = valid) */
+  violations?: ValidationViolation[];
+  
+  /** Arithmetic cross-check of total, VAT and line items (see reconcileReceipt) */
+  reconciliation?: ReconciliationReport;
+  
+  /** Tokens billed for the call that produced this result (see pricing.ts) */
+  usage?: TokenUsage;
+  
+  /** Prompt template that produced this result (see promptRegistry.ts) */
+  prompt?: PromptStamp;
+  
+  /** Set when the result was served from the result cache (no provider call, no cost) */
+  cache?: ResultCacheHit;
+}
+
+/**
+ * Which prompt template produced a result
+ */
+export interface PromptStamp {
+  id: string;
+  version: number;
+  
+  /** Set when the client's own override was used */
+  clientId?: string;
+}
+
+/**
+ * Token counts reported by the provider for one call
+ */
+export interface TokenUsage {
+  provider: OcrProvider;
+  
+  /** Model ID as reported in the response (the price table key) */
+  model: string;
+  
+  /** Prompt tokens, image included */
+  inputTokens: number;
+  
+  outputTokens: number;
+}
+
+/**
+ * Where a cached result came from (see resultCache.ts)
+ */
+export interface ResultCacheHit {
+  /** Cache key (hash of content, prompt version and model) */
+  key: string;
+  
+  /** When the result was first extracted (ISO 8601) */
+  storedAt: string;
+}
+
+/**
+ * Document types accountants handle differently
+ * 
+ * - receipt:                 ใบเสร็จรับเงิน (no VAT claim)
+ * - abbreviated_tax_invoice: ใบกำกับภาษีอย่างย่อ (POS slips, no VAT claim)
+ * - full_tax_invoice:        ใบกำกับภาษีเต็มรูป (input VAT claimable)
+ * - credit_note:             ใบลดหนี้ (amounts are negative)
+ * - debit_note:              ใบเพิ่มหนี้
+ * - cash_bill:               บิลเงินสด (often handwritten)
+ */
+export type DocumentType =
+  | 'receipt'
+  | 'abbreviated_tax_invoice'
+  | 'full_tax_invoice'
+  | 'credit_note'
+  | 'debit_note'
+  | 'cash_bill';
+
+/**
+ * Full tax invoice (ใบกำกับภาษีเต็มรูป) check
+ * 
+ * Input VAT can only be claimed from a full tax invoice carrying the
+ * seller's and buyer's details (Revenue Code s.86/4).
+ */
+export interface TaxInvoiceCheck {
+  /** True when every required field is present and valid */
+  isValidFullTaxInvoice: boolean;
+  
+  /** Why VAT cannot be claimed, e.g. "sellerTaxId: checksum failed" */
+  issues: string[];
+}
+
+/**
+ * Record of the deterministic date check
+ * 
+ * The model is asked for a CE date but regularly returns BE years or
+ * swaps day and month; the date printed in the OCR text wins.
+ */
+export interface DateNormalization {
+  /** issueDate as returned by the provider */
+  llmDate: string | null;
+  
+  /** Date parsed from rawText, null if none was found */
+  textDate: string | null;
+  
+  /** Where the final issueDate came from */
+  source: 'raw-text' | 'llm' | 'none';
+  
+  /** Era the chosen date was printed in */
+  era: 'BE' | 'CE' | null;
+  
+  /** True when issueDate was replaced */
+  overridden: boolean;
 }
 
 /**
@@ -53,6 +247,136 @@ export interface ReceiptLineItem {
   quantity: number;
   unitPriceSatang: number;
   totalSatang: number;
+  
+  /** Confidence and source of this line */
+  evidence?: FieldEvidence;
+}
+
+/**
+ * Fields whose confidence decides whether a receipt needs manual review
+ */
+export type CriticalField = 'amountSatang' | 'vatAmountSatang' | 'vendorName' | 'issueDate';
+
+/**
+ * Per-field evidence for the critical fields
+ */
+export type ReceiptFieldEvidence = Partial<Record<CriticalField, FieldEvidence>>;
+
+/**
+ * Why the provider believes a field's value
+ */
+export interface FieldEvidence {
+  /** Confidence in this field alone (0.0 - 1.0) */
+  confidence: number;
+  
+  /** Text the value was read from, as printed (e.g. "รวมทั้งสิ้น 85.60") */
+  sourceText: string | null;
+  
+  /** Approximate location on the image (vision path only) */
+  region?: EvidenceRegion | null;
+}
+
+/**
+ * Bounding box as fractions of the image size (0.0 - 1.0, origin top-left)
+ */
+export interface EvidenceRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Rule broken by a field of an OCR result
+ */
+export type ValidationRule =
+  | 'required'
+  | 'integer'
+  | 'non-negative'
+  | 'positive'
+  | 'negative'
+  | 'range'
+  | 'iso-date'
+  | 'future-date'
+  | 'closed-period'
+  | 'currency'
+  | 'line-item-arithmetic'
+  | 'tax-id-checksum'
+  | 'branch-format';
+
+/**
+ * Structured schema violation
+ * 
+ * Callers decide what to do with it: reject, repair, or send to review.
+ */
+export interface ValidationViolation {
+  /** Field path in camelCase, e.g. "lineItems[1].totalSatang" */
+  field: string;
+  
+  rule: ValidationRule;
+  
+  /** The offending value as returned by the provider */
+  value: unknown;
+  
+  message: string;
+}
+
+/**
+ * How VAT relates to the printed prices
+ * 
+ * - inclusive: prices already contain VAT (POS slips), total = subtotal
+ * - exclusive: VAT added on top (invoices), total = subtotal + VAT
+ * - none:      no VAT on the document
+ * - unknown:   the printed figures do not tell
+ */
+export type VatPricing = 'inclusive' | 'exclusive' | 'none' | 'unknown';
+
+/**
+ * Arithmetic checks run by reconcileReceipt
+ * 
+ * - vat-rate:        VAT ≈ total × 7/107
+ * - line-items:      line items + service charge - discount ≈ subtotal
+ * - subtotal-total:  total ≈ subtotal (+ VAT when exclusive)
+ */
+export type ReconciliationCheckName = 'vat-rate' | 'line-items' | 'subtotal-total';
+
+/**
+ * Outcome of a single arithmetic check (amounts are absolute Satang)
+ */
+export interface ReconciliationCheck {
+  name: ReconciliationCheckName;
+  expectedSatang: number;
+  actualSatang: number;
+  
+  /** actual - expected */
+  discrepancySatang: number;
+  
+  passed: boolean;
+  message: string;
+}
+
+/**
+ * Reconciliation report attached to every adapter result
+ */
+export interface ReconciliationReport {
+  /** True when every check that could run passed */
+  isConsistent: boolean;
+  
+  vatPricing: VatPricing;
+  
+  checks: ReconciliationCheck[];
+  
+  /** Largest absolute discrepancy among failed checks (0 when consistent) */
+  discrepancySatang: number;
+  
+  /** The figures fit if subtotal and total are swapped (a common model mistake) */
+  subtotalTotalSwapped: boolean;
+  
+  /** Confidence reported by the provider */
+  originalConfidence?: number;
+  
+  /** Confidence after the arithmetic penalty (below the auto-accept threshold when inconsistent) */
+  adjustedConfidence?: number;
 }
 
 /**
@@ -65,8 +389,32 @@ export interface ExtractReceiptParams {
   /** Base64-encoded image data */
   imageBase64: string;
   
-  /** Image format (default: jpeg) */
+  /** Image format hint; RealClaudeAdapter sniffs the real format from the bytes (see imageIntake.ts) */
   imageFormat?: 'jpeg' | 'png' | 'gif' | 'webp';
+  
+  /** Client (tenant) the receipt belongs to; budgets and prompt overrides are per client */
+  clientId?: string;
+  
+  /** Prompt variables: client name, VAT rate, known vendors (see promptRegistry.ts) */
+  promptVariables?: PromptVariables;
+  
+  /** Model for this call instead of the adapter's (e.g. one rung of an escalation ladder) */
+  model?: string;
+  
+  /** Caller's cancellation: aborts the provider request and retry waits (OcrCancelledError) */
+  signal?: AbortSignal;
+  
+  /** Epoch ms by which the answer is needed (OcrTimeoutError after); see deadline.ts */
+  deadline?: number;
+  
+  /** Span the call's span is a child of (e.g. HybridOcrStrategy's receipt span); see tracing.ts */
+  traceParent?: SpanContext;
+  
+  /** Document type the caller already knows (e.g. uploaded as "credit note") */
+  expectedDocumentType?: DocumentType;
+  
+  /** Last day of the client's latest closed fiscal period (YYYY-MM-DD); earlier dates are rejected */
+  closedPeriodEnd?: string;
 }
 
 /**
@@ -78,8 +426,27 @@ export interface ExtractReceiptParams {
  */
 export interface ClaudeAdapter {
   extractReceiptFromImage(params: ExtractReceiptParams): Promise<ReceiptOcrResult>;
+
+  /** Prompt and model a call would use (CachedClaudeAdapter keys on it) */
+  callIdentity?(params: ExtractReceiptParams): CallIdentity;
 }
 
+/**
+ * The prompt and model behind one adapter call, as the adapter itself
+ * resolves them (client override, pinned version, configured model)
+ */
+export interface CallIdentity {
+  /** RenderedPrompt.fingerprint */
+  promptFingerprint: string;
+  model: string;
+}
+
+/**
+ * Short aliases used by the groq-fallback recipe and AutoAcct's IOcrAdapter
+ */
+export type OcrResult = ReceiptOcrResult;
+export type OcrInput = ExtractReceiptParams;
+
 /**
  * Logger context for structured logging
  */
@@ -90,14 +457,16 @@ export interface LogContext {
 }
 
 /**
- * Custom error for OCR failures
+ * OCR error hierarchy (see errors.ts)
  */
-export class OcrError extends Error {
-  constructor(
-    message: string,
-    public context: { correlationId?: string; cause?: Error }
-  ) {
-    super(message);
-    this.name = 'OcrError';
-  }
-}
+export {
+  OcrError,
+  RateLimitedError,
+  AuthFailedError,
+  InvalidResponseError,
+  ImageRejectedError,
+  OcrTimeoutError,
+  OcrCancelledError,
+  ProviderUnavailableError,
+} from './errors';
+export type { OcrProvider, OcrErrorContext, ImageRejectionReason } from './errors';
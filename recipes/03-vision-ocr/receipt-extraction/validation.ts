@@ -0,0 +1,215 @@
+/**
+ * Schema validation for OCR results
+ * 
+ * Shared by every adapter (Claude, Groq) and by HybridOcrStrategy, so a
+ * result is checked the same way no matter which provider produced it.
+ * 
+ * The validator never throws and never repairs - it only reports.
+ * 
+ * Usage:
+ *   const violations = validateReceiptOcrResult(result);
+ *   if (violations.length > 0) sendToReview(result, violations);
+ */
+
+import type {
+  ReceiptLineItem,
+  ReceiptOcrResult,
+  ValidationRule,
+  ValidationViolation,
+} from './types';
+import { isValidThaiTaxId } from './taxInvoice';
+import { bangkokToday } from './thaiDate';
+
+/**
+ * Allowed difference between quantity × unit price and the line total.
+ * Covers per-line rounding of fractional quantities (e.g. 1.5 kg).
+ */
+const LINE_ITEM_TOLERANCE_SATANG = 1;
+
+export interface ValidationOptions {
+  /** Reference time for the future-date check (default: now) */
+  now?: Date;
+  
+  /** Dates on or before this YYYY-MM-DD fall in a closed fiscal period */
+  closedPeriodEnd?: string;
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Validate a full OCR result
+ * 
+ * @returns Violations, empty if the result is valid
+ */
+export function validateReceiptOcrResult(
+  result: ReceiptOcrResult,
+  options: ValidationOptions = {}
+): ValidationViolation[] {
+  const violations: ValidationViolation[] = [];
+  const add = (field: string, rule: ValidationRule, value: unknown, message: string) =>
+    violations.push({ field, rule, value, message });
+
+  // Total amount: required, integer Satang, > 0 (< 0 for credit notes)
+  const isCreditNote = result.documentType === 'credit_note';
+  if (!Number.isInteger(result.amountSatang)) {
+    add('amountSatang', 'integer', result.amountSatang, 'Total must be an integer number of Satang');
+  } else if (isCreditNote && result.amountSatang >= 0) {
+    add('amountSatang', 'negative', result.amountSatang, 'Credit note total must be negative');
+  } else if (!isCreditNote && result.amountSatang <= 0) {
+    add('amountSatang', 'positive', result.amountSatang, 'Total must be greater than zero');
+  }
+
+  if (result.currency !== 'THB') {
+    add('currency', 'currency', result.currency, 'Currency must be THB');
+  }
+
+  // VAT: nullable, integer Satang, same sign as the total, never more than it
+  const vat = result.vatAmountSatang;
+  if (vat !== null) {
+    if (!Number.isInteger(vat)) {
+      add('vatAmountSatang', 'integer', vat, 'VAT must be an integer number of Satang');
+    } else if (isCreditNote && vat > 0) {
+      add('vatAmountSatang', 'negative', vat, 'Credit note VAT cannot be positive');
+    } else if (!isCreditNote && vat < 0) {
+      add('vatAmountSatang', 'non-negative', vat, 'VAT cannot be negative');
+    } else if (Number.isInteger(result.amountSatang) && Math.abs(vat) > Math.abs(result.amountSatang)) {
+      add('vatAmountSatang', 'range', vat, 'VAT cannot exceed the total amount');
+    }
+  }
+
+  // Subtotal: same sign rules as the total; service charge and discount are positive
+  const subtotal = result.subtotalSatang;
+  if (subtotal !== undefined && subtotal !== null) {
+    if (!Number.isInteger(subtotal)) {
+      add('subtotalSatang', 'integer', subtotal, 'Subtotal must be an integer number of Satang');
+    } else if (isCreditNote && subtotal > 0) {
+      add('subtotalSatang', 'negative', subtotal, 'Credit note subtotal cannot be positive');
+    } else if (!isCreditNote && subtotal < 0) {
+      add('subtotalSatang', 'non-negative', subtotal, 'Subtotal cannot be negative');
+    }
+  }
+
+  for (const field of ['serviceChargeSatang', 'discountSatang'] as const) {
+    const value = result[field];
+    if (value === undefined || value === null) continue;
+    if (!Number.isInteger(value)) {
+      add(field, 'integer', value, `${field} must be an integer number of Satang`);
+    } else if (value < 0) {
+      add(field, 'non-negative', value, `${field} cannot be negative`);
+    }
+  }
+
+  if (result.vendorName !== null && typeof result.vendorName !== 'string') {
+    add('vendorName', 'required', result.vendorName, 'Vendor name must be a string or null');
+  }
+
+  if (result.issueDate !== null && !isValidIsoDate(result.issueDate)) {
+    add('issueDate', 'iso-date', result.issueDate, 'Issue date must be a real YYYY-MM-DD calendar date');
+  } else if (result.issueDate !== null) {
+    // ISO dates compare correctly as strings
+    const today = bangkokToday(options.now);
+    if (result.issueDate > today) {
+      add('issueDate', 'future-date', result.issueDate, `Issue date is after today (${today})`);
+    } else if (options.closedPeriodEnd && result.issueDate <= options.closedPeriodEnd) {
+      add(
+        'issueDate',
+        'closed-period',
+        result.issueDate,
+        `Issue date falls in a closed fiscal period (closed up to ${options.closedPeriodEnd})`
+      );
+    }
+  }
+
+  // Tax IDs: optional, but a printed one must pass the mod-11 checksum
+  for (const field of ['sellerTaxId', 'buyerTaxId'] as const) {
+    const id = result[field];
+    if (id !== undefined && id !== null && !isValidThaiTaxId(id)) {
+      add(field, 'tax-id-checksum', id, 'Tax ID must be 13 digits with a valid mod-11 check digit');
+    }
+  }
+
+  if (
+    result.sellerBranch !== undefined &&
+    result.sellerBranch !== null &&
+    !/^\d{5}$/.test(result.sellerBranch)
+  ) {
+    add('sellerBranch', 'branch-format', result.sellerBranch, "Branch must be 5 digits ('00000' = head office)");
+  }
+
+  if (result.confidence !== undefined) {
+    const c = result.confidence;
+    if (typeof c !== 'number' || Number.isNaN(c) || c < 0 || c > 1) {
+      add('confidence', 'range', c, 'Confidence must be between 0 and 1');
+    }
+  }
+
+  result.lineItems?.forEach((item, index) => {
+    violations.push(...validateReceiptLineItem(item, index));
+  });
+
+  return violations;
+}
+
+/**
+ * Validate a single line item
+ * 
+ * @param index - Position in lineItems, used to build the field path
+ */
+export function validateReceiptLineItem(
+  item: ReceiptLineItem,
+  index: number
+): ValidationViolation[] {
+  const violations: ValidationViolation[] = [];
+  const prefix = `lineItems[${index}]`;
+  const add = (field: string, rule: ValidationRule, value: unknown, message: string) =>
+    violations.push({ field: `${prefix}.${field}`, rule, value, message });
+
+  if (typeof item.description !== 'string' || item.description.trim() === '') {
+    add('description', 'required', item.description, 'Description is required');
+  }
+
+  if (typeof item.quantity !== 'number' || !(item.quantity > 0)) {
+    add('quantity', 'positive', item.quantity, 'Quantity must be greater than zero');
+  }
+
+  let amountsAreIntegers = true;
+  for (const field of ['unitPriceSatang', 'totalSatang'] as const) {
+    if (!Number.isInteger(item[field])) {
+      add(field, 'integer', item[field], `${field} must be an integer number of Satang`);
+      amountsAreIntegers = false;
+    }
+  }
+
+  if (amountsAreIntegers && typeof item.quantity === 'number') {
+    const expected = item.quantity * item.unitPriceSatang;
+    if (Math.abs(expected - item.totalSatang) > LINE_ITEM_TOLERANCE_SATANG) {
+      add(
+        'totalSatang',
+        'line-item-arithmetic',
+        item.totalSatang,
+        `quantity × unitPriceSatang = ${Math.round(expected)}, but totalSatang = ${item.totalSatang}`
+      );
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Check that a string is YYYY-MM-DD and names a real calendar day
+ * (rejects "22/01/2569" and "2026-02-30")
+ */
+export function isValidIsoDate(value: unknown): boolean {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+
+  const [year, month, day] = value.split('-').map(Number) as [number, number, number];
+  const date = new Date(Date.UTC(year, month - 1, day));
+
+  return (
+    date.getUTCFullYear() === year &&
+    date.getUTCMonth() === month - 1 &&
+    date.getUTCDate() === day
+  );
+}